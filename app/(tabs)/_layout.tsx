@@ -8,6 +8,7 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { HapticTab } from '@/components/haptic-tab';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { Colors } from '@/constants/theme';
+import { useSyncStatus } from '@/hooks/use-sync-status';
 import { useAppSelector } from '@/store/hooks';
 
 // Tab image mappings
@@ -23,6 +24,10 @@ export default function TabLayout() {
   const colorScheme = useAppSelector((state) => state.theme.colorScheme);
   const palette = Colors[colorScheme ?? 'dark'];
   const insets = useSafeAreaInsets();
+  const { pendingByTable } = useSyncStatus();
+
+  // Number of writes still waiting to reach Supabase, shown as a tab badge
+  const pendingBadge = (count?: number) => (count ? count : undefined);
 
   const renderTabIcon = (imageKey: keyof typeof TAB_IMAGES, iconName: Parameters<typeof IconSymbol>[0]['name'], label: string, isHome: boolean = false) => {
     const TabIconComponent = ({ focused }: { focused: boolean }) => {
@@ -72,6 +77,11 @@ export default function TabLayout() {
           marginTop: 10,
           marginBottom: 0,
         },
+        tabBarBadgeStyle: {
+          backgroundColor: palette.warning,
+          color: '#000',
+          fontSize: 10,
+        },
         tabBarStyle: {
           position: 'absolute',
           left: 16,
@@ -96,6 +106,11 @@ export default function TabLayout() {
         options={{
           title: 'Savings',
           tabBarIcon: renderTabIcon('savings', 'banknote.fill', 'Savings', false),
+          tabBarBadge: pendingBadge(
+            (pendingByTable.savings ?? 0) +
+              (pendingByTable.savings_goals ?? 0) +
+              (pendingByTable.savings_allocations ?? 0)
+          ),
         }}
       />
       <Tabs.Screen
@@ -103,6 +118,7 @@ export default function TabLayout() {
         options={{
           title: 'Work',
           tabBarIcon: renderTabIcon('work', 'briefcase.fill', 'Work', false),
+          tabBarBadge: pendingBadge(pendingByTable.work_tracker),
         }}
       />
         <Tabs.Screen
@@ -110,6 +126,7 @@ export default function TabLayout() {
           options={{
             title: 'Home',
             tabBarIcon: renderTabIcon('home', 'house.fill', 'Home', true),
+            tabBarBadge: pendingBadge((pendingByTable.balance_transactions ?? 0) + (pendingByTable.accounts ?? 0)),
           }}
         />
       <Tabs.Screen
@@ -117,6 +134,12 @@ export default function TabLayout() {
         options={{
           title: 'Expenses',
           tabBarIcon: renderTabIcon('expenses', 'arrow.down.circle.fill', 'Expenses', false),
+          tabBarBadge: pendingBadge(
+            (pendingByTable.expenses ?? 0) +
+              (pendingByTable.expense_categories ?? 0) +
+              (pendingByTable.budgets ?? 0) +
+              (pendingByTable.recurring_expenses ?? 0)
+          ),
         }}
       />
       <Tabs.Screen
@@ -124,6 +147,7 @@ export default function TabLayout() {
         options={{
           title: 'صلاة',
           tabBarIcon: renderTabIcon('prayers', 'moon.stars.fill', 'Prayers', false),
+          tabBarBadge: pendingBadge(pendingByTable.prayer_reminders),
         }}
       />
     </Tabs>
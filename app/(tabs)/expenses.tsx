@@ -1,110 +1,289 @@
-import { useState, useEffect, useMemo, useRef } from 'react';
-import { ScrollView, TextInput, TouchableOpacity, ActivityIndicator, View, StyleSheet, Dimensions } from 'react-native';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { ScrollView, TextInput, TouchableOpacity, ActivityIndicator, View, StyleSheet, Dimensions, Switch } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import Animated, { FadeInDown, FadeInUp } from 'react-native-reanimated';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useFocusEffect, useRouter } from 'expo-router';
 
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
-import { IconSymbol } from '@/components/ui/icon-symbol';
-import { supabase } from '@/lib/supabase';
+import { CategoryBreakdown } from '@/components/category-breakdown';
+import { CurrencyPicker } from '@/components/currency-picker';
+import { DateField } from '@/components/date-field';
+import { PeriodSelector } from '@/components/period-selector';
+import { IconSymbol, type IconSymbolName } from '@/components/ui/icon-symbol';
 import { Colors, FontFamily, type ThemeColorSet } from '@/constants/theme';
 import { useAppSelector } from '@/store/hooks';
 import { useModal } from '@/components/ui/modal';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { useRepositories } from '@/contexts/DataContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import type { Account, Budget, Expense, ExpenseCategory, ExpenseSummary } from '@/lib/data';
+import { budgetProgress, notifyBudgetThresholds } from '@/lib/budgets';
+import { expenseInBase } from '@/lib/currency';
+import { formatPeriod, parseTags, periodRange, selectionRange, type PeriodSelection } from '@/lib/expense-breakdown';
+import { addDays, formatLocalDate, normalizeLocalDate, toLocalDateString } from '@/lib/local-date';
+import { compareMoney, parseMoney, sumMoney } from '@/lib/money';
 
-interface Expense {
-  id: string;
-  name: string;
-  amount: number;
-  type: 'daily' | 'monthly';
-  date: string;
-  created_at: string;
-}
+const PAGE_SIZE = 20;
 
 export default function ExpensesScreen() {
-  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [selection, setSelection] = useState<PeriodSelection>(() => ({
+    period: 'month',
+    anchor: new Date(),
+    custom: periodRange('month'),
+  }));
+  // Every expense in the selected period, for totals and the breakdown; the lists below page separately
+  const [periodExpenses, setPeriodExpenses] = useState<ExpenseSummary[]>([]);
+  const [pages, setPages] = useState<Record<Expense['type'], Expense[]>>({ daily: [], monthly: [] });
+  const [loadingMore, setLoadingMore] = useState<Expense['type'] | null>(null);
+  // Budgets always track the current month, whatever period is selected
+  const [currentMonthExpenses, setCurrentMonthExpenses] = useState<ExpenseSummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [adding, setAdding] = useState(false);
+  const [updating, setUpdating] = useState(false);
+  const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
   const [expenseType, setExpenseType] = useState<'daily' | 'monthly'>('daily');
   const [name, setName] = useState('');
+  const { baseCurrency, convert, format } = useCurrency();
   const [amount, setAmount] = useState('');
-  const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0]);
+  const [currency, setCurrency] = useState(baseCurrency);
+  const [selectedDate, setSelectedDate] = useState(() => toLocalDateString());
+  const [categories, setCategories] = useState<ExpenseCategory[]>([]);
+  const [categoryId, setCategoryId] = useState<string | null>(null);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  // null until picked: the default (first) account
+  const [accountId, setAccountId] = useState<string | null>(null);
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [tagsInput, setTagsInput] = useState('');
+  const { preferences } = usePreferences();
+  const [debitBalance, setDebitBalance] = useState(preferences.debitExpensesByDefault);
   const [currentCardIndex, setCurrentCardIndex] = useState(0);
   const scrollViewRef = useRef<ScrollView>(null);
+  const screenScrollRef = useRef<ScrollView>(null);
+  const formOffset = useRef(0);
   const screenWidth = Dimensions.get('window').width - 40; // Account for padding
   const { showModal } = useModal();
+  const {
+    expenses: expensesRepository,
+    expenseCategories: categoriesRepository,
+    budgets: budgetsRepository,
+    accounts: accountsRepository,
+  } = useRepositories();
+  const router = useRouter();
   const insets = useSafeAreaInsets();
   const colorScheme = useAppSelector((state) => state.theme.colorScheme);
   const palette = Colors[colorScheme ?? 'dark'];
   const styles = useMemo(() => createStyles(palette, screenWidth, insets.top, insets.bottom), [palette, screenWidth, insets.top, insets.bottom]);
 
-  useEffect(() => {
-    fetchExpenses();
-  }, []);
+  const range = selectionRange(selection);
+  const latestRequest = useRef(0);
 
-  const fetchExpenses = async () => {
+  const fetchExpenses = useCallback(async () => {
+    const request = ++latestRequest.current;
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from('expenses')
-        .select('*')
-        .order('date', { ascending: false })
-        .order('created_at', { ascending: false });
+      const month = periodRange('month');
+      const [inPeriod, daily, monthly, thisMonth] = await Promise.all([
+        expensesRepository.summarizeBetween(range.start, range.end),
+        expensesRepository.listBetween(range.start, range.end, { type: 'daily', limit: PAGE_SIZE }),
+        expensesRepository.listBetween(range.start, range.end, { type: 'monthly', limit: PAGE_SIZE }),
+        expensesRepository.summarizeBetween(month.start, month.end),
+      ]);
+      // A slower response for a period the user already left must not overwrite the current one
+      if (request !== latestRequest.current) return;
+      setPeriodExpenses(inPeriod);
+      setPages({ daily, monthly });
+      setCurrentMonthExpenses(thisMonth);
+    } catch (error: any) {
+      showModal({
+        title: 'Error',
+        message: error.message || 'Failed to fetch expenses',
+        type: 'error',
+      });
+    } finally {
+      if (request === latestRequest.current) setLoading(false);
+    }
+  }, [range.start, range.end, expensesRepository, showModal]);
+
+  useEffect(() => {
+    fetchExpenses();
+  }, [fetchExpenses]);
+
+  const budgetStatus = useMemo(
+    () => budgetProgress(budgets, currentMonthExpenses, categories, convert),
+    [budgets, currentMonthExpenses, categories, convert]
+  );
 
-      if (error) throw error;
+  // Alert once per month as spending crosses 80% and 100% of a budget
+  useEffect(() => {
+    if (loading || budgetStatus.length === 0) return;
+    notifyBudgetThresholds(budgetStatus, baseCurrency).catch((error) =>
+      console.error('Error sending budget alerts:', error)
+    );
+  }, [loading, budgetStatus, baseCurrency]);
 
-      setExpenses(data || []);
+  // Preferences load asynchronously; follow the default until the user picks per expense
+  useEffect(() => {
+    setDebitBalance(preferences.debitExpensesByDefault);
+  }, [preferences.debitExpensesByDefault]);
+
+  const loadMore = async (type: Expense['type']) => {
+    const request = latestRequest.current;
+    try {
+      setLoadingMore(type);
+      const next = await expensesRepository.listBetween(range.start, range.end, {
+        type,
+        limit: PAGE_SIZE,
+        offset: pages[type].length,
+      });
+      if (request !== latestRequest.current) return;
+      setPages((current) => {
+        const seen = new Set(current[type].map((expense) => expense.id));
+        return { ...current, [type]: [...current[type], ...next.filter((expense) => !seen.has(expense.id))] };
+      });
     } catch (error: any) {
       showModal({
         title: 'Error',
-        message: error.message || 'Failed to fetch expenses',
+        message: error.message || 'Failed to load more expenses',
         type: 'error',
       });
     } finally {
-      setLoading(false);
+      setLoadingMore(null);
     }
   };
 
-  const handleAddExpense = async () => {
+  const fetchCategories = useCallback(async () => {
+    try {
+      const data = await categoriesRepository.list();
+      setCategories(data);
+      setCategoryId((current) => (current && data.some((c) => c.id === current) ? current : null));
+    } catch (error: any) {
+      showModal({
+        title: 'Error',
+        message: error.message || 'Failed to fetch categories',
+        type: 'error',
+      });
+    }
+  }, [categoriesRepository, showModal]);
+
+  const fetchAccounts = useCallback(async () => {
+    try {
+      const data = await accountsRepository.ensureDefault();
+      setAccounts(data);
+      setAccountId((current) => (current && data.some((a) => a.id === current) ? current : null));
+    } catch (error: any) {
+      showModal({
+        title: 'Error',
+        message: error.message || 'Failed to fetch accounts',
+        type: 'error',
+      });
+    }
+  }, [accountsRepository, showModal]);
+
+  const fetchBudgets = useCallback(async () => {
+    try {
+      setBudgets(await budgetsRepository.list());
+    } catch (error: any) {
+      showModal({
+        title: 'Error',
+        message: error.message || 'Failed to fetch budgets',
+        type: 'error',
+      });
+    }
+  }, [budgetsRepository, showModal]);
+
+  // Categories, budgets and accounts are edited on their own screens, so reload them whenever this tab is shown
+  useFocusEffect(
+    useCallback(() => {
+      fetchCategories();
+      fetchBudgets();
+      fetchAccounts();
+    }, [fetchCategories, fetchBudgets, fetchAccounts])
+  );
+
+  const selectedAccount = accounts.find((account) => account.id === accountId) ?? accounts[0];
+
+  // Shared by add and update; returns the parsed amount and normalized date, or null after showing what's wrong
+  const validateForm = (): { amount: number; date: string } | null => {
     if (!name || !amount) {
       showModal({
         title: 'Error',
         message: 'Please fill in all required fields',
         type: 'error',
       });
-      return;
+      return null;
     }
 
-    const amountNum = parseFloat(amount);
-    if (isNaN(amountNum) || amountNum <= 0) {
+    const amountNum = parseMoney(amount);
+    if (amountNum === null) {
       showModal({
         title: 'Error',
         message: 'Please enter a valid amount',
         type: 'error',
       });
-      return;
+      return null;
+    }
+
+    const date = normalizeLocalDate(selectedDate);
+    if (!date) {
+      showModal({
+        title: 'Error',
+        message: 'Please enter a valid date (YYYY-MM-DD)',
+        type: 'error',
+      });
+      return null;
     }
 
+    // Balances are kept per account currency, so a debit has to be in the account's currency
+    const debits = editingExpense ? !!editingExpense.balance_transaction_id : debitBalance;
+    if (debits && selectedAccount && selectedAccount.currency !== currency) {
+      showModal({
+        title: 'Error',
+        message: `${selectedAccount.name} is kept in ${selectedAccount.currency}. Enter the amount in ${selectedAccount.currency}, pay from another account or don't debit your balance.`,
+        type: 'error',
+      });
+      return null;
+    }
+
+    return { amount: amountNum, date };
+  };
+
+  const resetForm = () => {
+    setName('');
+    setAmount('');
+    setTagsInput('');
+  };
+
+  const handleAddExpense = async () => {
+    const valid = validateForm();
+    if (!valid) return;
+    const { amount: amountNum, date } = valid;
+
     try {
       setAdding(true);
-      const { error } = await supabase
-        .from('expenses')
-        .insert({
+      await expensesRepository.add(
+        {
           name,
           amount: amountNum,
+          currency,
           type: expenseType,
-          date: selectedDate,
-        });
-
-      if (error) throw error;
+          date,
+          category_id: categoryId,
+          tags: parseTags(tagsInput),
+          account_id: selectedAccount?.id ?? null,
+        },
+        { debitBalance }
+      );
 
       showModal({
         title: 'Success',
-        message: 'Expense added successfully!',
+        message: debitBalance
+          ? `Expense added and ${format(amountNum, currency)} debited from your balance.`
+          : 'Expense added successfully!',
         type: 'success',
       });
-      setName('');
-      setAmount('');
+      resetForm();
       fetchExpenses();
     } catch (error: any) {
       showModal({
@@ -117,21 +296,81 @@ export default function ExpensesScreen() {
     }
   };
 
+  const handleEditExpense = (expense: Expense) => {
+    setEditingExpense(expense);
+    setExpenseType(expense.type);
+    setName(expense.name);
+    setAmount(Number(expense.amount).toString());
+    setCurrency(expense.currency);
+    setSelectedDate(expense.date);
+    setCategoryId(expense.category_id && categories.some((c) => c.id === expense.category_id) ? expense.category_id : null);
+    setTagsInput(expense.tags.join(', '));
+    setAccountId(expense.account_id);
+    screenScrollRef.current?.scrollTo({ y: formOffset.current, animated: true });
+  };
+
+  const handleCancelEdit = () => {
+    setEditingExpense(null);
+    setSelectedDate(toLocalDateString());
+    setCategoryId(null);
+    setAccountId(null);
+    setCurrency(baseCurrency);
+    resetForm();
+  };
+
+  const handleUpdateExpense = async () => {
+    const valid = validateForm();
+    if (!valid || !editingExpense) return;
+    const { amount: amountNum, date } = valid;
+
+    try {
+      setUpdating(true);
+      await expensesRepository.update(editingExpense.id, {
+        name,
+        amount: amountNum,
+        currency,
+        type: expenseType,
+        date,
+        category_id: categoryId,
+        tags: parseTags(tagsInput),
+        account_id: accountId ?? editingExpense.account_id,
+      });
+
+      showModal({
+        title: 'Success',
+        message:
+          editingExpense.balance_transaction_id && compareMoney(amountNum, editingExpense.amount) !== 0
+            ? `Expense updated and your balance now reflects ${format(amountNum, currency)}.`
+            : 'Expense updated successfully!',
+        type: 'success',
+      });
+      handleCancelEdit();
+      fetchExpenses();
+    } catch (error: any) {
+      showModal({
+        title: 'Error',
+        message: error.message || 'Failed to update expense',
+        type: 'error',
+      });
+    } finally {
+      setUpdating(false);
+    }
+  };
+
   const handleDeleteExpense = async (id: string) => {
+    const expense = [...pages.daily, ...pages.monthly].find((e) => e.id === id);
     showModal({
       title: 'Delete Expense',
-      message: 'Are you sure you want to delete this expense?',
+      message: expense?.balance_transaction_id
+        ? 'Are you sure you want to delete this expense? Its amount will be credited back to your balance.'
+        : 'Are you sure you want to delete this expense?',
       type: 'confirm',
       confirmText: 'Delete',
       cancelText: 'Cancel',
       onConfirm: async () => {
         try {
-          const { error } = await supabase
-            .from('expenses')
-            .delete()
-            .eq('id', id);
-
-          if (error) throw error;
+          await expensesRepository.remove(id);
+          if (editingExpense?.id === id) handleCancelEdit();
           fetchExpenses();
         } catch (error: any) {
           showModal({
@@ -144,19 +383,91 @@ export default function ExpensesScreen() {
     });
   };
 
-  const dailyExpenses = expenses.filter(e => e.type === 'daily');
-  const monthlyExpenses = expenses.filter(e => e.type === 'monthly');
-  const dailyTotal = dailyExpenses.reduce((sum, e) => sum + parseFloat(e.amount.toString()), 0);
-  const monthlyTotal = monthlyExpenses.reduce((sum, e) => sum + parseFloat(e.amount.toString()), 0);
+  const categoriesById = new Map(categories.map((category) => [category.id, category]));
+
+  const renderExpenseItem = (expense: Expense) => {
+    const category = expense.category_id ? categoriesById.get(expense.category_id) : undefined;
+    const fallbackColor = expense.type === 'daily' ? '#FACC15' : '#38BDF8';
+    const badgeColor = category?.color ?? fallbackColor;
+    const badgeIcon = (category?.icon as IconSymbolName | undefined) ?? (expense.type === 'daily' ? 'sun.max.fill' : 'calendar');
+
+    return (
+      <View key={expense.id} style={styles.expenseItem}>
+        <View style={styles.expenseItemLeft}>
+          <View style={[styles.expenseTypeBadge, { backgroundColor: badgeColor + '15' }]}>
+            <IconSymbol size={14} name={badgeIcon} color={badgeColor} />
+          </View>
+          <View style={styles.expenseInfo}>
+            <ThemedText style={styles.expenseName}>{expense.name}</ThemedText>
+            <ThemedText style={styles.expenseDate}>
+              {formatLocalDate(expense.date)}
+              {category ? ` · ${category.name}` : ''}
+            </ThemedText>
+            {expense.tags.length > 0 && (
+              <View style={styles.tagRow}>
+                {expense.tags.map((tag) => (
+                  <View key={tag} style={styles.tagChip}>
+                    <ThemedText style={styles.tagChipText}>#{tag}</ThemedText>
+                  </View>
+                ))}
+              </View>
+            )}
+          </View>
+        </View>
+        <View style={styles.expenseItemRight}>
+          <ThemedText style={styles.expenseAmount}>{format(Number(expense.amount), expense.currency)}</ThemedText>
+          <TouchableOpacity
+            onPress={() => handleEditExpense(expense)}
+            style={styles.editButton}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+            <IconSymbol size={18} name="pencil.circle.fill" color={palette.accent} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => handleDeleteExpense(expense.id)}
+            style={styles.deleteButton}>
+            <IconSymbol size={16} name="trash.fill" color={palette.danger} />
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const dailyExpenses = periodExpenses.filter(e => e.type === 'daily');
+  const monthlyExpenses = periodExpenses.filter(e => e.type === 'monthly');
+  const dailyTotal = sumMoney(dailyExpenses.map(e => expenseInBase(e, convert)));
+  const monthlyTotal = sumMoney(monthlyExpenses.map(e => expenseInBase(e, convert)));
+  const periodLabel = formatPeriod(selection.period, range);
+
+  const renderLoadMore = (type: Expense['type'], total: number) =>
+    pages[type].length < total && (
+      <TouchableOpacity
+        style={styles.loadMoreButton}
+        disabled={loadingMore !== null}
+        onPress={() => loadMore(type)}>
+        {loadingMore === type ? (
+          <ActivityIndicator color={palette.accent} size="small" />
+        ) : (
+          <ThemedText style={styles.loadMoreText}>Show more ({total - pages[type].length} left)</ThemedText>
+        )}
+      </TouchableOpacity>
+    );
 
   return (
     <ScrollView
+      ref={screenScrollRef}
       style={[styles.scrollView, { backgroundColor: palette.background }]}
       contentContainerStyle={styles.scrollContent}
       showsVerticalScrollIndicator={false}>
-      
-      {/* Swipeable Daily and Monthly Expenses Cards */}
+
+      {/* Period */}
       <Animated.View entering={FadeInDown.duration(500)} style={styles.cardContainer}>
+        <ThemedView style={styles.periodCard}>
+          <PeriodSelector selection={selection} onChange={setSelection} />
+        </ThemedView>
+      </Animated.View>
+
+      {/* Swipeable Daily, Monthly and Budget Cards */}
+      <Animated.View entering={FadeInDown.delay(60).duration(500)} style={styles.cardContainer}>
         <ScrollView
           ref={scrollViewRef}
           horizontal
@@ -176,8 +487,10 @@ export default function ExpensesScreen() {
               </View>
               <View style={styles.statContent}>
                 <ThemedText style={styles.statLabel}>Daily Expenses</ThemedText>
-                <ThemedText style={styles.statValue}>₹{dailyTotal.toFixed(2)}</ThemedText>
-                <ThemedText style={styles.statCount}>{dailyExpenses.length} {dailyExpenses.length === 1 ? 'expense' : 'expenses'}</ThemedText>
+                <ThemedText style={styles.statValue}>{format(dailyTotal)}</ThemedText>
+                <ThemedText style={styles.statCount}>
+                  {dailyExpenses.length} {dailyExpenses.length === 1 ? 'expense' : 'expenses'} · {periodLabel}
+                </ThemedText>
               </View>
             </View>
           </ThemedView>
@@ -190,33 +503,110 @@ export default function ExpensesScreen() {
               </View>
               <View style={styles.statContent}>
                 <ThemedText style={styles.statLabel}>Monthly Expenses</ThemedText>
-                <ThemedText style={styles.statValue}>₹{monthlyTotal.toFixed(2)}</ThemedText>
-                <ThemedText style={styles.statCount}>{monthlyExpenses.length} {monthlyExpenses.length === 1 ? 'expense' : 'expenses'}</ThemedText>
+                <ThemedText style={styles.statValue}>{format(monthlyTotal)}</ThemedText>
+                <ThemedText style={styles.statCount}>
+                  {monthlyExpenses.length} {monthlyExpenses.length === 1 ? 'expense' : 'expenses'} · {periodLabel}
+                </ThemedText>
               </View>
             </View>
           </ThemedView>
+
+          {/* Budget Cards */}
+          {budgetStatus.map(({ budget, category, spent, ratio }) => {
+            const color = category?.color ?? palette.accent;
+            const barColor = ratio >= 1 ? palette.danger : ratio >= 0.8 ? palette.warning : color;
+            return (
+              <TouchableOpacity
+                key={budget.id}
+                activeOpacity={0.8}
+                onPress={() => router.push('/budgets')}>
+                <ThemedView style={styles.statCard}>
+                  <View style={styles.statHeader}>
+                    <View style={[styles.statIconContainer, { backgroundColor: color + '15' }]}>
+                      <IconSymbol
+                        size={20}
+                        name={(category?.icon as IconSymbolName | undefined) ?? 'dollarsign.circle.fill'}
+                        color={color}
+                      />
+                    </View>
+                    <View style={styles.statContent}>
+                      <ThemedText style={styles.statLabel}>{category?.name ?? 'Overall'} Budget</ThemedText>
+                      <ThemedText style={styles.statValue}>
+                        {format(spent)}
+                        <ThemedText style={styles.budgetLimit}> / {format(Number(budget.amount))}</ThemedText>
+                      </ThemedText>
+                      <View style={styles.budgetTrack}>
+                        <View
+                          style={[styles.budgetBar, { width: `${Math.min(ratio, 1) * 100}%`, backgroundColor: barColor }]}
+                        />
+                      </View>
+                      <ThemedText style={[styles.statCount, ratio >= 1 && { color: palette.danger }]}>
+                        {ratio >= 1
+                          ? `Over by ${format(spent - Number(budget.amount))} this month`
+                          : `${Math.round(ratio * 100)}% used this month`}
+                      </ThemedText>
+                    </View>
+                  </View>
+                </ThemedView>
+              </TouchableOpacity>
+            );
+          })}
+
+          {budgetStatus.length === 0 && (
+            <TouchableOpacity activeOpacity={0.8} onPress={() => router.push('/budgets')}>
+              <ThemedView style={styles.statCard}>
+                <View style={styles.statHeader}>
+                  <View style={[styles.statIconContainer, { backgroundColor: palette.accent + '15' }]}>
+                    <IconSymbol size={20} name="dollarsign.circle.fill" color={palette.accent} />
+                  </View>
+                  <View style={styles.statContent}>
+                    <ThemedText style={styles.statLabel}>Budgets</ThemedText>
+                    <ThemedText style={styles.budgetCta}>Set a monthly budget</ThemedText>
+                    <ThemedText style={styles.statCount}>Overall or per category, with alerts at 80% and 100%</ThemedText>
+                  </View>
+                </View>
+              </ThemedView>
+            </TouchableOpacity>
+          )}
         </ScrollView>
         
         {/* Page Indicators */}
         <View style={styles.pageIndicators}>
-          <View style={[styles.pageIndicator, currentCardIndex === 0 && styles.pageIndicatorActive]} />
-          <View style={[styles.pageIndicator, currentCardIndex === 1 && styles.pageIndicatorActive]} />
+          {Array.from({ length: 2 + Math.max(budgetStatus.length, 1) }, (_, index) => (
+            <View key={index} style={[styles.pageIndicator, currentCardIndex === index && styles.pageIndicatorActive]} />
+          ))}
         </View>
       </Animated.View>
 
-      {/* Add Expense Form */}
-      <Animated.View entering={FadeInDown.delay(100).duration(500)} style={styles.cardContainer}>
+      {/* Add/Edit Expense Form */}
+      <Animated.View
+        entering={FadeInDown.delay(100).duration(500)}
+        style={styles.cardContainer}
+        onLayout={(event) => {
+          formOffset.current = event.nativeEvent.layout.y;
+        }}>
         <ThemedView style={styles.formCard}>
           <View style={styles.formHeader}>
             <View style={styles.formHeaderLeft}>
-              <View style={[styles.iconContainer, { backgroundColor: '#05966915' }]}>
-                <IconSymbol size={20} name="plus.circle.fill" color="#059669" />
+              <View style={[styles.iconContainer, { backgroundColor: editingExpense ? '#1e40af15' : '#05966915' }]}>
+                <IconSymbol
+                  size={20}
+                  name={editingExpense ? 'pencil.circle.fill' : 'plus.circle.fill'}
+                  color={editingExpense ? '#1e40af' : '#059669'}
+                />
               </View>
               <View>
-                <ThemedText style={styles.formTitle}>Add Expense</ThemedText>
-                <ThemedText style={styles.formSubtitle}>Track your spending</ThemedText>
+                <ThemedText style={styles.formTitle}>{editingExpense ? 'Edit Expense' : 'Add Expense'}</ThemedText>
+                <ThemedText style={styles.formSubtitle}>
+                  {editingExpense ? 'Fix the details of this expense' : 'Track your spending'}
+                </ThemedText>
               </View>
             </View>
+            {editingExpense && (
+              <TouchableOpacity style={styles.cancelEditButton} onPress={handleCancelEdit}>
+                <IconSymbol size={18} name="xmark.circle.fill" color={palette.muted} />
+              </TouchableOpacity>
+            )}
           </View>
 
           <View style={styles.typeSelector}>
@@ -257,7 +647,7 @@ export default function ExpensesScreen() {
 
           <View style={styles.inputRow}>
             <View style={styles.inputGroupHalf}>
-              <ThemedText style={styles.inputLabel}>Amount (₹) *</ThemedText>
+              <ThemedText style={styles.inputLabel}>Amount ({currency}) *</ThemedText>
               <TextInput
                 style={styles.input}
                 value={amount}
@@ -269,38 +659,170 @@ export default function ExpensesScreen() {
             </View>
             <View style={styles.inputGroupHalf}>
               <ThemedText style={styles.inputLabel}>Date *</ThemedText>
-              <TextInput
-                style={styles.input}
-                value={selectedDate}
-                onChangeText={setSelectedDate}
-                placeholder="YYYY-MM-DD"
-                placeholderTextColor={palette.muted}
-              />
+              <DateField value={selectedDate} onChange={setSelectedDate} />
             </View>
           </View>
 
-          <TouchableOpacity
-            style={[styles.submitButton, adding && styles.submitButtonDisabled]}
-            disabled={adding}
-            onPress={handleAddExpense}>
-            <LinearGradient
-              colors={['#1e40af', '#059669']}
-              start={{ x: 0, y: 0 }}
-              end={{ x: 1, y: 0 }}
-              style={styles.submitButtonGradient}>
-              {adding ? (
-                <ActivityIndicator color="#fff" size="small" />
-              ) : (
-                <>
-                  <IconSymbol size={18} name="checkmark.circle.fill" color="#fff" />
-                  <ThemedText style={styles.submitButtonText}>Add Expense</ThemedText>
-                </>
-              )}
-            </LinearGradient>
-          </TouchableOpacity>
+          <View style={styles.dateShortcuts}>
+            {[
+              { label: 'Today', date: toLocalDateString() },
+              { label: 'Yesterday', date: toLocalDateString(addDays(new Date(), -1)) },
+            ].map(({ label, date }) => (
+              <TouchableOpacity
+                key={label}
+                style={[styles.categoryChip, selectedDate === date && styles.categoryChipActive]}
+                onPress={() => setSelectedDate(date)}>
+                <ThemedText style={[styles.categoryChipText, selectedDate === date && styles.categoryChipTextActive]}>
+                  {label}
+                </ThemedText>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.inputGroup}>
+            <ThemedText style={styles.inputLabel}>Currency</ThemedText>
+            <CurrencyPicker value={currency} onChange={setCurrency} />
+          </View>
+
+          <View style={styles.inputGroup}>
+            <View style={styles.categoryLabelRow}>
+              <ThemedText style={styles.inputLabel}>Category</ThemedText>
+              <TouchableOpacity onPress={() => router.push('/categories')}>
+                <ThemedText style={styles.manageLink}>Manage</ThemedText>
+              </TouchableOpacity>
+            </View>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.categoryChips}>
+              <TouchableOpacity
+                style={[styles.categoryChip, categoryId === null && styles.categoryChipActive]}
+                onPress={() => setCategoryId(null)}>
+                <ThemedText style={[styles.categoryChipText, categoryId === null && styles.categoryChipTextActive]}>
+                  None
+                </ThemedText>
+              </TouchableOpacity>
+              {categories.map((category) => {
+                const isActive = categoryId === category.id;
+                return (
+                  <TouchableOpacity
+                    key={category.id}
+                    style={[
+                      styles.categoryChip,
+                      isActive && { backgroundColor: category.color, borderColor: category.color },
+                    ]}
+                    onPress={() => setCategoryId(category.id)}>
+                    <IconSymbol size={14} name={category.icon as IconSymbolName} color={isActive ? '#fff' : category.color} />
+                    <ThemedText style={[styles.categoryChipText, isActive && styles.categoryChipTextActive]}>
+                      {category.name}
+                    </ThemedText>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          </View>
+
+          {accounts.length > 1 && (
+            <View style={styles.inputGroup}>
+              <View style={styles.categoryLabelRow}>
+                <ThemedText style={styles.inputLabel}>Paid From</ThemedText>
+                <TouchableOpacity onPress={() => router.push('/accounts')}>
+                  <ThemedText style={styles.manageLink}>Manage</ThemedText>
+                </TouchableOpacity>
+              </View>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.categoryChips}>
+                {accounts.map((account, index) => {
+                  const isActive = accountId ? accountId === account.id : index === 0;
+                  return (
+                    <TouchableOpacity
+                      key={account.id}
+                      style={[
+                        styles.categoryChip,
+                        isActive && { backgroundColor: account.color, borderColor: account.color },
+                      ]}
+                      onPress={() => {
+                        setAccountId(account.id);
+                        setCurrency(account.currency);
+                      }}>
+                      <IconSymbol size={14} name={account.icon as IconSymbolName} color={isActive ? '#fff' : account.color} />
+                      <ThemedText style={[styles.categoryChipText, isActive && styles.categoryChipTextActive]}>
+                        {account.name}
+                      </ThemedText>
+                    </TouchableOpacity>
+                  );
+                })}
+              </ScrollView>
+            </View>
+          )}
+
+          <View style={styles.inputGroup}>
+            <ThemedText style={styles.inputLabel}>Tags</ThemedText>
+            <TextInput
+              style={styles.input}
+              value={tagsInput}
+              onChangeText={setTagsInput}
+              placeholder="work, travel, shared"
+              placeholderTextColor={palette.muted}
+              autoCapitalize="none"
+            />
+          </View>
+
+          {editingExpense ? (
+            editingExpense.balance_transaction_id && (
+              <View style={styles.debitRow}>
+                <ThemedText style={styles.debitSubtitle}>
+                  This expense was debited from your balance; changing the amount or account updates the debit.
+                </ThemedText>
+              </View>
+            )
+          ) : (
+            <View style={styles.debitRow}>
+              <View style={styles.debitText}>
+                <ThemedText style={styles.debitTitle}>Debit from balance</ThemedText>
+                <ThemedText style={styles.debitSubtitle}>Subtract this expense from your Home balance</ThemedText>
+              </View>
+              <Switch
+                value={debitBalance}
+                onValueChange={setDebitBalance}
+                trackColor={{ false: palette.border, true: '#059669' }}
+              />
+            </View>
+          )}
+
+          <View style={styles.formActions}>
+            {editingExpense && (
+              <TouchableOpacity style={styles.cancelButton} onPress={handleCancelEdit} disabled={updating}>
+                <IconSymbol size={18} name="xmark.circle.fill" color={palette.text} />
+                <ThemedText style={styles.cancelButtonText}>Cancel</ThemedText>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={[styles.submitButton, (adding || updating) && styles.submitButtonDisabled]}
+              disabled={adding || updating}
+              onPress={editingExpense ? handleUpdateExpense : handleAddExpense}>
+              <LinearGradient
+                colors={['#1e40af', '#059669']}
+                start={{ x: 0, y: 0 }}
+                end={{ x: 1, y: 0 }}
+                style={styles.submitButtonGradient}>
+                {adding || updating ? (
+                  <ActivityIndicator color="#fff" size="small" />
+                ) : (
+                  <>
+                    <IconSymbol size={18} name="checkmark.circle.fill" color="#fff" />
+                    <ThemedText style={styles.submitButtonText}>
+                      {editingExpense ? 'Update Expense' : 'Add Expense'}
+                    </ThemedText>
+                  </>
+                )}
+              </LinearGradient>
+            </TouchableOpacity>
+          </View>
         </ThemedView>
       </Animated.View>
 
+      {/* Category Breakdown */}
+      <Animated.View entering={FadeInUp.delay(100).duration(500)} style={styles.cardContainer}>
+        <CategoryBreakdown expenses={periodExpenses} categories={categories} />
+      </Animated.View>
+
       {/* Daily Expenses List */}
       <Animated.View entering={FadeInUp.delay(120).duration(500)} style={styles.cardContainer}>
         <ThemedView style={styles.listCard}>
@@ -316,6 +838,10 @@ export default function ExpensesScreen() {
                 </ThemedText>
               </View>
             </View>
+            <TouchableOpacity style={styles.listHeaderButton} onPress={() => router.push('/import-expenses')}>
+              <IconSymbol size={14} name="doc.text.fill" color={palette.accent} />
+              <ThemedText style={styles.listHeaderButtonText}>Import</ThemedText>
+            </TouchableOpacity>
           </View>
 
           {loading ? (
@@ -326,40 +852,13 @@ export default function ExpensesScreen() {
           ) : dailyExpenses.length === 0 ? (
             <View style={styles.emptyContainer}>
               <IconSymbol size={48} name="tray" color={palette.muted} />
-              <ThemedText style={styles.emptyText}>No daily expenses yet</ThemedText>
-              <ThemedText style={styles.emptySubtext}>Add your first expense above</ThemedText>
+              <ThemedText style={styles.emptyText}>No daily expenses in this period</ThemedText>
+              <ThemedText style={styles.emptySubtext}>Pick another period or add an expense above</ThemedText>
             </View>
           ) : (
             <ScrollView style={styles.expensesList} showsVerticalScrollIndicator={false}>
-              {dailyExpenses.map((expense) => (
-                <View key={expense.id} style={styles.expenseItem}>
-                  <View style={styles.expenseItemLeft}>
-                    <View style={[styles.expenseTypeBadge, { backgroundColor: '#FACC1515' }]}>
-                      <IconSymbol size={14} name="sun.max.fill" color="#FACC15" />
-                    </View>
-                    <View style={styles.expenseInfo}>
-                      <ThemedText style={styles.expenseName}>{expense.name}</ThemedText>
-                      <ThemedText style={styles.expenseDate}>
-                        {new Date(expense.date).toLocaleDateString('en-US', {
-                          month: 'short',
-                          day: 'numeric',
-                          year: 'numeric'
-                        })}
-                      </ThemedText>
-                    </View>
-                  </View>
-                  <View style={styles.expenseItemRight}>
-                    <ThemedText style={styles.expenseAmount}>
-                      ₹{parseFloat(expense.amount.toString()).toFixed(2)}
-                    </ThemedText>
-                    <TouchableOpacity
-                      onPress={() => handleDeleteExpense(expense.id)}
-                      style={styles.deleteButton}>
-                      <IconSymbol size={16} name="trash.fill" color={palette.danger} />
-                    </TouchableOpacity>
-                  </View>
-                </View>
-              ))}
+              {pages.daily.map(renderExpenseItem)}
+              {renderLoadMore('daily', dailyExpenses.length)}
             </ScrollView>
           )}
         </ThemedView>
@@ -380,6 +879,10 @@ export default function ExpensesScreen() {
                 </ThemedText>
               </View>
             </View>
+            <TouchableOpacity style={styles.listHeaderButton} onPress={() => router.push('/recurring')}>
+              <IconSymbol size={14} name="repeat" color={palette.accent} />
+              <ThemedText style={styles.listHeaderButtonText}>Recurring</ThemedText>
+            </TouchableOpacity>
           </View>
 
           {loading ? (
@@ -390,40 +893,13 @@ export default function ExpensesScreen() {
           ) : monthlyExpenses.length === 0 ? (
             <View style={styles.emptyContainer}>
               <IconSymbol size={48} name="tray" color={palette.muted} />
-              <ThemedText style={styles.emptyText}>No monthly expenses yet</ThemedText>
-              <ThemedText style={styles.emptySubtext}>Add your first expense above</ThemedText>
+              <ThemedText style={styles.emptyText}>No monthly expenses in this period</ThemedText>
+              <ThemedText style={styles.emptySubtext}>Pick another period or add an expense above</ThemedText>
             </View>
           ) : (
             <ScrollView style={styles.expensesList} showsVerticalScrollIndicator={false}>
-              {monthlyExpenses.map((expense) => (
-                <View key={expense.id} style={styles.expenseItem}>
-                  <View style={styles.expenseItemLeft}>
-                    <View style={[styles.expenseTypeBadge, { backgroundColor: '#38BDF815' }]}>
-                      <IconSymbol size={14} name="calendar" color="#38BDF8" />
-                    </View>
-                    <View style={styles.expenseInfo}>
-                      <ThemedText style={styles.expenseName}>{expense.name}</ThemedText>
-                      <ThemedText style={styles.expenseDate}>
-                        {new Date(expense.date).toLocaleDateString('en-US', {
-                          month: 'short',
-                          day: 'numeric',
-                          year: 'numeric'
-                        })}
-                      </ThemedText>
-                    </View>
-                  </View>
-                  <View style={styles.expenseItemRight}>
-                    <ThemedText style={styles.expenseAmount}>
-                      ₹{parseFloat(expense.amount.toString()).toFixed(2)}
-                    </ThemedText>
-                    <TouchableOpacity
-                      onPress={() => handleDeleteExpense(expense.id)}
-                      style={styles.deleteButton}>
-                      <IconSymbol size={16} name="trash.fill" color={palette.danger} />
-                    </TouchableOpacity>
-                  </View>
-                </View>
-              ))}
+              {pages.monthly.map(renderExpenseItem)}
+              {renderLoadMore('monthly', monthlyExpenses.length)}
             </ScrollView>
           )}
         </ThemedView>
@@ -446,6 +922,13 @@ const createStyles = (palette: ThemeColorSet, screenWidth: number, topInset: num
     cardContainer: {
       marginBottom: 16,
     },
+    periodCard: {
+      borderRadius: 20,
+      borderWidth: 1,
+      borderColor: palette.border,
+      backgroundColor: palette.card,
+      padding: 16,
+    },
     carouselContainer: {
       marginHorizontal: -16,
       backgroundColor: 'transparent',
@@ -518,6 +1001,29 @@ const createStyles = (palette: ThemeColorSet, screenWidth: number, topInset: num
       color: palette.muted,
       fontFamily: FontFamily.regular,
     },
+    budgetLimit: {
+      fontSize: 14,
+      fontWeight: '500',
+      color: palette.muted,
+      fontFamily: FontFamily.medium,
+    },
+    budgetTrack: {
+      height: 8,
+      borderRadius: 4,
+      backgroundColor: palette.surfaceMuted,
+      overflow: 'hidden',
+      marginVertical: 4,
+    },
+    budgetBar: {
+      height: '100%',
+      borderRadius: 4,
+    },
+    budgetCta: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: palette.accent,
+      fontFamily: FontFamily.semiBold,
+    },
     formCard: {
       borderRadius: 20,
       borderWidth: 1,
@@ -531,8 +1037,14 @@ const createStyles = (palette: ThemeColorSet, screenWidth: number, topInset: num
       elevation: 2,
     },
     formHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
       marginBottom: 20,
     },
+    cancelEditButton: {
+      padding: 4,
+    },
     formHeaderLeft: {
       flexDirection: 'row',
       alignItems: 'center',
@@ -618,10 +1130,115 @@ const createStyles = (palette: ThemeColorSet, screenWidth: number, topInset: num
       color: palette.text,
       fontFamily: FontFamily.regular,
     },
+    dateShortcuts: {
+      flexDirection: 'row',
+      justifyContent: 'flex-end',
+      gap: 8,
+      marginTop: -8,
+      marginBottom: 16,
+    },
+    categoryLabelRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+    },
+    manageLink: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: palette.accent,
+      marginBottom: 8,
+      fontFamily: FontFamily.semiBold,
+    },
+    categoryChips: {
+      gap: 8,
+    },
+    categoryChip: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      borderRadius: 10,
+      borderWidth: 1.5,
+      borderColor: palette.border,
+      backgroundColor: palette.surface,
+    },
+    categoryChipActive: {
+      backgroundColor: palette.accent,
+      borderColor: palette.accent,
+    },
+    categoryChipText: {
+      fontSize: 13,
+      color: palette.text,
+      fontFamily: FontFamily.medium,
+    },
+    categoryChipTextActive: {
+      color: '#fff',
+    },
+    tagRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 4,
+      marginTop: 4,
+    },
+    tagChip: {
+      paddingHorizontal: 6,
+      paddingVertical: 2,
+      borderRadius: 6,
+      backgroundColor: palette.surfaceMuted,
+    },
+    tagChipText: {
+      fontSize: 11,
+      color: palette.muted,
+      fontFamily: FontFamily.medium,
+    },
+    debitRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      marginBottom: 16,
+    },
+    debitText: {
+      flex: 1,
+    },
+    debitTitle: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: palette.text,
+      fontFamily: FontFamily.semiBold,
+    },
+    debitSubtitle: {
+      fontSize: 12,
+      color: palette.muted,
+      fontFamily: FontFamily.regular,
+    },
+    formActions: {
+      flexDirection: 'row',
+      gap: 12,
+      marginTop: 8,
+    },
+    cancelButton: {
+      flex: 1,
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 8,
+      paddingVertical: 16,
+      borderRadius: 12,
+      borderWidth: 1.5,
+      borderColor: palette.border,
+      backgroundColor: palette.surface,
+    },
+    cancelButtonText: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: palette.text,
+      fontFamily: FontFamily.semiBold,
+    },
     submitButton: {
+      flex: 1,
       borderRadius: 12,
       overflow: 'hidden',
-      marginTop: 8,
     },
     submitButtonDisabled: {
       opacity: 0.6,
@@ -648,6 +1265,9 @@ const createStyles = (palette: ThemeColorSet, screenWidth: number, topInset: num
       padding: 20,
     },
     listHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
       marginBottom: 16,
     },
     listHeaderLeft: {
@@ -655,6 +1275,31 @@ const createStyles = (palette: ThemeColorSet, screenWidth: number, topInset: num
       alignItems: 'center',
       gap: 12,
     },
+    loadMoreButton: {
+      alignItems: 'center',
+      paddingVertical: 12,
+    },
+    loadMoreText: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: palette.accent,
+      fontFamily: FontFamily.semiBold,
+    },
+    listHeaderButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 10,
+      backgroundColor: palette.accent + '15',
+    },
+    listHeaderButtonText: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: palette.accent,
+      fontFamily: FontFamily.semiBold,
+    },
     listTitle: {
       fontSize: 18,
       fontWeight: '600',
@@ -743,6 +1388,9 @@ const createStyles = (palette: ThemeColorSet, screenWidth: number, topInset: num
       color: palette.danger,
       fontFamily: FontFamily.bold,
     },
+    editButton: {
+      padding: 4,
+    },
     deleteButton: {
       padding: 8,
     },
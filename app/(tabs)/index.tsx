@@ -1,73 +1,161 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 import { StyleSheet, TextInput, TouchableOpacity, ActivityIndicator, View, ScrollView } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Image } from 'expo-image';
+import { useFocusEffect, useRouter } from 'expo-router';
 import Animated, { FadeInDown, FadeInUp } from 'react-native-reanimated';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 import ParallaxScrollView from '@/components/parallax-scroll-view';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
-import { IconSymbol } from '@/components/ui/icon-symbol';
-import { supabase } from '@/lib/supabase';
+import { IconSymbol, type IconSymbolName } from '@/components/ui/icon-symbol';
+import { Sparkline } from '@/components/ui/sparkline';
 import { Colors, Gradients, FontFamily, type ThemeColorSet } from '@/constants/theme';
 import { useAppSelector } from '@/store/hooks';
 import { useModal } from '@/components/ui/modal';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { useRepositories } from '@/contexts/DataContext';
+import { useSync, useSyncStatus } from '@/hooks/use-sync-status';
+import { BURN_WINDOW_DAYS, cashFlowStart, cashFlowSummary } from '@/lib/cash-flow';
+import { currenciesWithoutRate, rateOn } from '@/lib/currency';
+import {
+  signedAmount,
+  type AccountBalance,
+  type Expense,
+  type LedgerEntry,
+  type Reconciliation,
+  type ReconciliationIssue,
+  type SavingsEntry,
+} from '@/lib/data';
+import { toLocalDateString, toLocalMonthString } from '@/lib/local-date';
+import { parseMoney, scaleMoney } from '@/lib/money';
 
 const QUICK_PRESETS = ['150', '250', '500', '1000'];
+const HISTORY_PREVIEW_COUNT = 5;
+const RECONCILIATION_PREVIEW_COUNT = 5;
+
+const ISSUE_LABELS: Record<ReconciliationIssue['kind'], string> = {
+  not_debited: 'Not debited',
+  missing_debit: 'Debit was undone',
+  amount_mismatch: 'Amount differs',
+};
+
+type EntryMode = 'credit' | 'debit' | 'set' | 'transfer';
+
+interface DashboardTile {
+  key: string;
+  label: string;
+  value: string;
+  detail: string;
+  icon: IconSymbolName;
+  color: string;
+  href: '/expenses' | '/savings';
+}
+
+const MODE_LABELS: Record<EntryMode, string> = {
+  credit: 'Add',
+  debit: 'Subtract',
+  set: 'Set to',
+  transfer: 'Transfer',
+};
 
 export default function HomeScreen() {
-  const [balance, setBalance] = useState(0);
-  const [newBalance, setNewBalance] = useState('');
+  const [history, setHistory] = useState<LedgerEntry[]>([]);
+  const [accounts, setAccounts] = useState<AccountBalance[]>([]);
+  const [selectedAccountId, setSelectedAccountId] = useState<string | null>(null);
+  const [transferToId, setTransferToId] = useState<string | null>(null);
+  const [recentExpenses, setRecentExpenses] = useState<Expense[]>([]);
+  const [savings, setSavings] = useState<SavingsEntry[]>([]);
+  const [showAllHistory, setShowAllHistory] = useState(false);
+  const [reconciliation, setReconciliation] = useState<Reconciliation | null>(null);
+  const [fixingId, setFixingId] = useState<string | null>(null);
+  const [mode, setMode] = useState<EntryMode>('credit');
+  const [amountInput, setAmountInput] = useState('');
   const [loading, setLoading] = useState(true);
   const [updating, setUpdating] = useState(false);
   const { showModal } = useModal();
+  const router = useRouter();
+  const {
+    balance: balanceRepository,
+    expenses: expensesRepository,
+    savings: savingsRepository,
+  } = useRepositories();
+  const { baseCurrency, rates, convert, format } = useCurrency();
+  const sync = useSync();
+  const syncStatus = useSyncStatus();
   const insets = useSafeAreaInsets();
   const colorScheme = useAppSelector((state) => state.theme.colorScheme);
   const palette = Colors[colorScheme ?? 'dark'];
   const styles = useMemo(() => createStyles(palette, insets.top), [palette, insets.top]);
 
-  useEffect(() => {
-    fetchBalance();
-  }, []);
+  const fetchBalance = useCallback(
+    async ({ quiet = false }: { quiet?: boolean } = {}) => {
+      try {
+        if (!quiet) setLoading(true);
+        const [ledger, nextReconciliation, expenseData, savingsData] = await Promise.all([
+          balanceRepository.getLedger(),
+          expensesRepository.reconcile(convert, `${toLocalMonthString()}-01`),
+          expensesRepository.listBetween(cashFlowStart(), toLocalDateString()),
+          savingsRepository.list(),
+        ]);
+        setHistory(ledger.entries);
+        setAccounts(ledger.accounts);
+        setReconciliation(nextReconciliation);
+        setRecentExpenses(expenseData);
+        setSavings(savingsData);
+      } catch (error: any) {
+        showModal({
+          title: 'Error',
+          message: error.message || 'Failed to fetch balance',
+          type: 'error',
+        });
+      } finally {
+        setLoading(false);
+      }
+    },
+    [balanceRepository, expensesRepository, savingsRepository, convert, showModal]
+  );
 
-  const fetchBalance = async () => {
-    try {
-      setLoading(true);
-      const { data, error } = await supabase
-        .from('balance')
-        .select('amount')
-        .limit(1)
-        .single();
-
-      if (error && error.code !== 'PGRST116') throw error;
-
-      if (data) {
-        setBalance(parseFloat(data.amount.toString()));
-      } else {
-        const { data: newData, error: insertError } = await supabase
-          .from('balance')
-          .insert({ amount: 0 })
-          .select()
-          .single();
-
-        if (insertError) throw insertError;
-        if (newData) setBalance(parseFloat(newData.amount.toString()));
+  // Expenses and savings change on other tabs and can move the balance, so refresh whenever Home is shown
+  // (and when exchange rates change, since reconciliation totals are converted)
+  useFocusEffect(
+    useCallback(() => {
+      fetchBalance({ quiet: true });
+    }, [fetchBalance])
+  );
+
+  // Falls back to the first (default) account until one is picked, or if the picked one is gone
+  const selectedAccount = accounts.find((account) => account.id === selectedAccountId) ?? accounts[0];
+  const otherAccounts = accounts.filter((account) => account.id !== selectedAccount?.id);
+  const transferTarget = otherAccounts.find((account) => account.id === transferToId) ?? otherAccounts[0];
+  const accountsById = useMemo(() => new Map(accounts.map((account) => [account.id, account])), [accounts]);
+  const currencyOf = (entry: LedgerEntry) => accountsById.get(entry.account_id)?.currency ?? baseCurrency;
+
+  const recordTransaction = async (entryMode: EntryMode, amount: number) => {
+    if (!selectedAccount) throw new Error('No account to update');
+    if (entryMode === 'credit') {
+      await balanceRepository.credit(selectedAccount.id, amount);
+    } else if (entryMode === 'debit') {
+      await balanceRepository.debit(selectedAccount.id, amount);
+    } else if (entryMode === 'set') {
+      await balanceRepository.adjustTo(selectedAccount.id, amount, selectedAccount.balance);
+    } else {
+      if (!transferTarget) throw new Error('Add another account to transfer to');
+      // Between currencies, what arrives is converted at the latest rate entered for the pair
+      const rate = rateOn(rates, selectedAccount.currency, transferTarget.currency, toLocalDateString());
+      if (rate === null) {
+        throw new Error(
+          `Add an exchange rate between ${selectedAccount.currency} and ${transferTarget.currency} in Settings first`
+        );
       }
-    } catch (error: any) {
-      showModal({
-        title: 'Error',
-        message: error.message || 'Failed to fetch balance',
-        type: 'error',
-      });
-    } finally {
-      setLoading(false);
+      await balanceRepository.transfer(selectedAccount, transferTarget, amount, scaleMoney(amount, rate));
     }
   };
 
   const updateBalance = async () => {
-    const amount = parseFloat(newBalance);
-    if (isNaN(amount) || amount <= 0) {
+    const amount = parseMoney(amountInput, { allowZero: mode === 'set' });
+    if (amount === null) {
       showModal({
         title: 'Error',
         message: 'Please enter a valid amount',
@@ -78,34 +166,12 @@ export default function HomeScreen() {
 
     try {
       setUpdating(true);
-      const { data, error } = await supabase
-        .from('balance')
-        .select('id')
-        .limit(1)
-        .single();
-
-      if (error && error.code !== 'PGRST116') throw error;
-
-      if (data) {
-        const { error: updateError } = await supabase
-          .from('balance')
-          .update({ amount })
-          .eq('id', data.id);
-
-        if (updateError) throw updateError;
-      } else {
-        const { error: insertError } = await supabase
-          .from('balance')
-          .insert({ amount });
-
-        if (insertError) throw insertError;
-      }
-
-      setBalance(amount);
-      setNewBalance('');
+      await recordTransaction(mode, amount);
+      await fetchBalance({ quiet: true });
+      setAmountInput('');
       showModal({
         title: 'Success',
-        message: 'Balance updated successfully!',
+        message: mode === 'transfer' ? 'Transfer recorded!' : 'Balance updated successfully!',
         type: 'success',
       });
     } catch (error: any) {
@@ -119,13 +185,168 @@ export default function HomeScreen() {
     }
   };
 
-  const isValidAmount = newBalance.length > 0 && !isNaN(parseFloat(newBalance)) && parseFloat(newBalance) > 0;
+  // Presets apply straight away when adding or subtracting; in "Set to" and "Transfer" modes they fill the input
+  const handlePresetPress = async (preset: string) => {
+    if (mode === 'set' || mode === 'transfer') {
+      setAmountInput(preset);
+      return;
+    }
+
+    try {
+      setUpdating(true);
+      await recordTransaction(mode, parseFloat(preset));
+      await fetchBalance({ quiet: true });
+    } catch (error: any) {
+      showModal({
+        title: 'Error',
+        message: error.message || 'Failed to update balance',
+        type: 'error',
+      });
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleFixIssue = async (issue: ReconciliationIssue) => {
+    try {
+      setFixingId(issue.expense.id);
+      await expensesRepository.linkToBalance(issue.expense);
+      await fetchBalance({ quiet: true });
+    } catch (error: any) {
+      showModal({
+        title: 'Error',
+        message: error.message || 'Failed to debit expense',
+        type: 'error',
+      });
+    } finally {
+      setFixingId(null);
+    }
+  };
+
+  const handleUndo = (entry: LedgerEntry) => {
+    showModal({
+      title: 'Undo Transaction',
+      message: entry.transfer_id
+        ? `Remove this transfer of ${format(Number(entry.amount), currencyOf(entry))}? Both sides of it will be undone.`
+        : `Remove this ${entry.kind === 'credit' ? 'credit' : 'debit'} of ${format(Number(entry.amount), currencyOf(entry))}?`,
+      type: 'confirm',
+      confirmText: 'Undo',
+      cancelText: 'Cancel',
+      onConfirm: async () => {
+        try {
+          await balanceRepository.undo(entry.id);
+          await fetchBalance({ quiet: true });
+        } catch (error: any) {
+          showModal({
+            title: 'Error',
+            message: error.message || 'Failed to undo transaction',
+            type: 'error',
+          });
+        }
+      },
+    });
+  };
+
+  const handleSyncPress = () => {
+    if (syncStatus.failed.length > 0) {
+      showModal({
+        title: 'Sync Conflicts',
+        message: `${syncStatus.failed.length} change(s) were rejected by the server:\n\n${syncStatus.failed
+          .map(({ entry, message }) => `• ${entry.table}: ${message}`)
+          .join('\n')}`,
+        type: 'confirm',
+        confirmText: 'Discard',
+        cancelText: 'Keep',
+        onConfirm: async () => {
+          await sync.discardFailed();
+          fetchBalance();
+        },
+      });
+      return;
+    }
+    sync.flush().then(() => fetchBalance());
+  };
+
+  const syncLabel = syncStatus.failed.length > 0
+    ? `${syncStatus.failed.length} failed`
+    : syncStatus.syncing
+      ? 'Syncing...'
+      : syncStatus.pending > 0
+        ? `${syncStatus.pending} pending`
+        : !syncStatus.online
+          ? 'Offline'
+          : 'Real-time';
+  const syncColor = syncStatus.failed.length > 0
+    ? palette.danger
+    : syncStatus.pending > 0 || !syncStatus.online
+      ? palette.warning
+      : palette.text;
+
+  const isValidAmount = parseMoney(amountInput, { allowZero: mode === 'set' }) !== null;
+  const visibleHistory = showAllHistory ? history : history.slice(0, HISTORY_PREVIEW_COUNT);
+  const driftColor = !reconciliation || reconciliation.drift === 0 ? palette.success : palette.warning;
+
+  const cashFlow = useMemo(
+    () => cashFlowSummary({ accounts, ledger: history, expenses: recentExpenses, savings, convert }),
+    [accounts, history, recentExpenses, savings, convert]
+  );
+  // Amounts that can't be converted are left out of the totals above, so say which
+  const unconverted = useMemo(
+    () =>
+      currenciesWithoutRate(
+        rates,
+        baseCurrency,
+        [...accounts, ...recentExpenses, ...savings].map((item) => item.currency)
+      ),
+    [rates, baseCurrency, accounts, recentExpenses, savings]
+  );
+  const tiles: DashboardTile[] = [
+    {
+      key: 'spend',
+      label: 'Spent',
+      value: format(cashFlow.monthSpend),
+      detail: 'This month',
+      icon: 'cart.fill',
+      color: palette.danger,
+      href: '/expenses',
+    },
+    {
+      key: 'savings',
+      label: 'Saved',
+      value: format(cashFlow.monthSavings),
+      detail: 'This month',
+      icon: 'banknote.fill',
+      color: '#059669',
+      href: '/savings',
+    },
+    {
+      key: 'net',
+      label: 'Net Flow',
+      value: format(cashFlow.netFlow, baseCurrency, { signed: true }),
+      detail: `${format(cashFlow.monthIncome)} in`,
+      icon: cashFlow.netFlow < 0 ? 'arrow.down.circle.fill' : 'arrow.up.circle.fill',
+      color: cashFlow.netFlow < 0 ? palette.danger : palette.success,
+      href: '/expenses',
+    },
+    {
+      key: 'runway',
+      label: 'Runway',
+      value: cashFlow.runwayDays === null ? '—' : `${cashFlow.runwayDays} ${cashFlow.runwayDays === 1 ? 'day' : 'days'}`,
+      detail: cashFlow.runwayDays === null ? 'No recent spending' : `${format(cashFlow.dailyBurn)}/day`,
+      icon: 'clock',
+      color: cashFlow.runwayDays !== null && cashFlow.runwayDays < BURN_WINDOW_DAYS ? palette.warning : '#1e40af',
+      href: '/expenses',
+    },
+  ];
 
   return (
     <ParallaxScrollView
       headerBackgroundColor={{ light: Colors.light.background, dark: Colors.dark.background }}
       headerImage={
         <View style={styles.headerContainer}>
+          <TouchableOpacity style={styles.settingsButton} onPress={() => router.push('/settings')}>
+            <IconSymbol size={20} name="gearshape.fill" color={palette.text} />
+          </TouchableOpacity>
           <View style={styles.headerContent}>
             <ThemedText type="title" style={styles.headerTitle}>
             بِسْمِ اللهِ الرَّحْمٰنِ الرَّحِيْمِ
@@ -145,12 +366,14 @@ export default function HomeScreen() {
               </View>
             <View>
                 <ThemedText style={styles.cardLabel}>Current Balance</ThemedText>
-                <ThemedText style={styles.cardTitle}>Home Vault</ThemedText>
+                <ThemedText style={styles.cardTitle}>
+                  {accounts.length > 1 ? `All ${accounts.length} accounts` : 'Home Vault'}
+                </ThemedText>
               </View>
             </View>
             <TouchableOpacity 
               style={styles.refreshBtn}
-              onPress={fetchBalance} 
+              onPress={() => fetchBalance()} 
               disabled={loading}
               hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
               <IconSymbol size={16} name="arrow.right.circle.fill" color={palette.muted} />
@@ -167,11 +390,56 @@ export default function HomeScreen() {
               <ThemedText style={styles.loadingText}>Loading...</ThemedText>
             </View>
           ) : (
-            <ThemedText type="title" style={styles.balanceValue}>
-              ₹{balance.toFixed(2)}
-            </ThemedText>
+            <>
+              <ThemedText type="title" style={styles.balanceValue}>
+                {format(cashFlow.balance)}
+              </ThemedText>
+              {history.length > 0 && (
+                <View style={styles.sparklineContainer}>
+                  <Sparkline values={cashFlow.balanceTrend} color={palette.accent} height={36} />
+                  <ThemedText style={styles.sparklineLabel}>Last {BURN_WINDOW_DAYS} days</ThemedText>
+                </View>
+              )}
+              {unconverted.length > 0 && (
+                <TouchableOpacity style={styles.rateWarning} onPress={() => router.push('/exchange-rates')}>
+                  <ThemedText style={styles.rateWarningText}>
+                    No exchange rate to {baseCurrency} for {unconverted.join(', ')}, so those amounts are left out
+                    of the totals. Tap to add one.
+                  </ThemedText>
+                </TouchableOpacity>
+              )}
+            </>
           )}
 
+          {/* Per-account balances; tapping one makes it the account the form below updates */}
+          <View style={styles.accountList}>
+            <View style={styles.accountListHeader}>
+              <ThemedText style={styles.footerLabel}>Accounts</ThemedText>
+              <TouchableOpacity onPress={() => router.push('/accounts')}>
+                <ThemedText style={styles.manageLink}>Manage</ThemedText>
+              </TouchableOpacity>
+            </View>
+            {accounts.map((account) => {
+              const isSelected = account.id === selectedAccount?.id;
+              return (
+                <TouchableOpacity
+                  key={account.id}
+                  style={[styles.accountRow, isSelected && styles.accountRowActive]}
+                  onPress={() => setSelectedAccountId(account.id)}>
+                  <View style={[styles.historyIcon, { backgroundColor: account.color + '20' }]}>
+                    <IconSymbol size={16} name={account.icon as IconSymbolName} color={account.color} />
+                  </View>
+                  <ThemedText style={styles.accountName} numberOfLines={1}>
+                    {account.name}
+                  </ThemedText>
+                  <ThemedText style={[styles.accountBalance, account.balance < 0 && { color: palette.danger }]}>
+                    {format(account.balance, account.currency)}
+                  </ThemedText>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
           <View style={styles.cardFooter}>
             <View style={styles.footerItem}>
               <ThemedText style={styles.footerLabel}>Status</ThemedText>
@@ -182,14 +450,41 @@ export default function HomeScreen() {
                 </ThemedText>
               </View>
             </View>
-            <View style={styles.footerItem}>
+            <TouchableOpacity style={styles.footerItem} onPress={handleSyncPress}>
               <ThemedText style={styles.footerLabel}>Sync</ThemedText>
-              <ThemedText style={styles.footerValue}>Real-time</ThemedText>
-            </View>
+              <ThemedText style={[styles.footerValue, { color: syncColor }]}>{syncLabel}</ThemedText>
+            </TouchableOpacity>
           </View>
         </ThemedView>
       </Animated.View>
 
+      {/* Cash flow: each tile opens the tab its figure comes from */}
+      <Animated.View entering={FadeInUp.delay(50).duration(500)} style={[styles.cardContainer, styles.tileGrid]}>
+        {tiles.map((tile) => (
+          <TouchableOpacity
+            key={tile.key}
+            style={styles.tileWrapper}
+            activeOpacity={0.8}
+            onPress={() => router.navigate(tile.href)}>
+            <ThemedView style={styles.tile}>
+              <View style={styles.tileHeader}>
+                <View style={[styles.tileIcon, { backgroundColor: tile.color + '15' }]}>
+                  <IconSymbol size={16} name={tile.icon} color={tile.color} />
+                </View>
+                <IconSymbol size={14} name="chevron.right" color={palette.muted} />
+              </View>
+              <ThemedText style={styles.footerLabel}>{tile.label}</ThemedText>
+              <ThemedText style={styles.tileValue} numberOfLines={1}>
+                {tile.value}
+              </ThemedText>
+              <ThemedText style={styles.tileDetail} numberOfLines={1}>
+                {tile.detail}
+              </ThemedText>
+            </ThemedView>
+          </TouchableOpacity>
+        ))}
+      </Animated.View>
+
       {/* Update Balance Form */}
       <Animated.View entering={FadeInUp.delay(100).duration(500)} style={styles.cardContainer}>
         <ThemedView style={styles.card}>
@@ -200,27 +495,90 @@ export default function HomeScreen() {
               </View>
             <View>
                 <ThemedText style={styles.formTitle}>Update Balance</ThemedText>
-                <ThemedText style={styles.formSubtitle}>Set a new balance amount</ThemedText>
+                <ThemedText style={styles.formSubtitle}>Add money in or take it out</ThemedText>
               </View>
             </View>
           </View>
 
+          {accounts.length > 1 && (
+            <View style={styles.inputGroup}>
+              <ThemedText style={styles.inputLabel}>{mode === 'transfer' ? 'From' : 'Account'}</ThemedText>
+              <View style={styles.presetsRow}>
+                {accounts.map((account) => {
+                  const isActive = account.id === selectedAccount?.id;
+                  return (
+                    <TouchableOpacity
+                      key={account.id}
+                      style={[styles.presetChip, styles.accountChip, isActive && styles.presetChipActive]}
+                      onPress={() => setSelectedAccountId(account.id)}>
+                      <IconSymbol size={14} name={account.icon as IconSymbolName} color={account.color} />
+                      <ThemedText style={[styles.presetChipText, isActive && styles.presetChipTextActive]}>
+                        {account.name}
+                      </ThemedText>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          )}
+
+          <View style={styles.modeRow}>
+            {(Object.keys(MODE_LABELS) as EntryMode[])
+              // Transfers need somewhere to go
+              .filter((entryMode) => entryMode !== 'transfer' || accounts.length > 1)
+              .map((entryMode) => {
+                const isActive = mode === entryMode;
+                return (
+                  <TouchableOpacity
+                    key={entryMode}
+                    style={[styles.modeChip, isActive && styles.modeChipActive]}
+                    onPress={() => setMode(entryMode)}>
+                    <ThemedText style={[styles.modeChipText, isActive && styles.modeChipTextActive]}>
+                      {MODE_LABELS[entryMode]}
+                    </ThemedText>
+                  </TouchableOpacity>
+                );
+              })}
+          </View>
+
+          {mode === 'transfer' && (
+            <View style={styles.inputGroup}>
+              <ThemedText style={styles.inputLabel}>To</ThemedText>
+              <View style={styles.presetsRow}>
+                {otherAccounts.map((account) => {
+                  const isActive = account.id === transferTarget?.id;
+                  return (
+                    <TouchableOpacity
+                      key={account.id}
+                      style={[styles.presetChip, styles.accountChip, isActive && styles.presetChipActive]}
+                      onPress={() => setTransferToId(account.id)}>
+                      <IconSymbol size={14} name={account.icon as IconSymbolName} color={account.color} />
+                      <ThemedText style={[styles.presetChipText, isActive && styles.presetChipTextActive]}>
+                        {account.name}
+                      </ThemedText>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          )}
+
           <View style={styles.inputGroup}>
-            <ThemedText style={styles.inputLabel}>Amount (₹)</ThemedText>
+            <ThemedText style={styles.inputLabel}>Amount ({selectedAccount?.currency ?? baseCurrency})</ThemedText>
             <View style={styles.inputContainer}>
             <TextInput
                 style={styles.input}
-              value={newBalance}
-              onChangeText={setNewBalance}
+              value={amountInput}
+              onChangeText={setAmountInput}
               keyboardType="decimal-pad"
                 placeholder="0.00"
               placeholderTextColor={palette.muted}
                 autoFocus={false}
             />
-            {newBalance.length > 0 && (
+            {amountInput.length > 0 && (
                 <TouchableOpacity
                   style={styles.clearBtn}
-                  onPress={() => setNewBalance('')}
+                  onPress={() => setAmountInput('')}
                   hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
                   <IconSymbol size={18} name="xmark.circle.fill" color={palette.muted} />
                 </TouchableOpacity>
@@ -229,33 +587,38 @@ export default function HomeScreen() {
           </View>
 
           <View style={styles.quickPresetsGroup}>
-            <ThemedText style={styles.presetsLabel}>Quick Select</ThemedText>
+            <ThemedText style={styles.presetsLabel}>
+              {mode === 'set' || mode === 'transfer' ? 'Quick Select' : `Quick ${MODE_LABELS[mode]}`} (
+              {selectedAccount?.currency ?? baseCurrency})
+            </ThemedText>
             <View style={styles.presetsRow}>
               {QUICK_PRESETS.map((preset) => {
-                const isActive = newBalance === preset;
+                const isActive = (mode === 'set' || mode === 'transfer') && amountInput === preset;
+                const sign = mode === 'credit' ? '+' : mode === 'debit' ? '−' : '';
                 return (
                   <TouchableOpacity
                     key={preset}
+                    disabled={updating}
                     style={[
                       styles.presetChip,
                       isActive && styles.presetChipActive,
                     ]}
-                    onPress={() => setNewBalance(preset)}>
+                    onPress={() => handlePresetPress(preset)}>
                     <ThemedText
                       style={[
                         styles.presetChipText,
                         isActive && styles.presetChipTextActive,
                       ]}>
-                      ₹{preset}
+                      {`${sign}${preset}`}
                     </ThemedText>
                   </TouchableOpacity>
                 );
               })}
             </View>
-            {balance > 0 && (
+            {(mode === 'set' || mode === 'transfer') && selectedAccount && selectedAccount.balance > 0 && (
               <TouchableOpacity
                 style={styles.useCurrentBtn}
-                onPress={() => setNewBalance(balance.toFixed(2))}>
+                onPress={() => setAmountInput(selectedAccount.balance.toFixed(2))}>
                 <IconSymbol size={14} name="arrow.right.circle.fill" color="#1e40af" />
                 <ThemedText style={styles.useCurrentText}>Use current balance</ThemedText>
               </TouchableOpacity>
@@ -280,13 +643,176 @@ export default function HomeScreen() {
               ) : (
                 <>
                   <IconSymbol size={16} name="checkmark.circle.fill" color="#fff" />
-                  <ThemedText style={styles.submitButtonText}>Update Balance</ThemedText>
+                  <ThemedText style={styles.submitButtonText}>
+                    {mode === 'credit'
+                      ? 'Add to Balance'
+                      : mode === 'debit'
+                        ? 'Subtract from Balance'
+                        : mode === 'set'
+                          ? 'Set Balance'
+                          : `Transfer to ${transferTarget?.name ?? 'account'}`}
+                  </ThemedText>
                 </>
               )}
             </LinearGradient>
           </TouchableOpacity>
         </ThemedView>
       </Animated.View>
+
+      {/* Balance History */}
+      <Animated.View entering={FadeInUp.delay(200).duration(500)} style={styles.cardContainer}>
+        <ThemedView style={styles.card}>
+          <View style={styles.formHeader}>
+            <View style={styles.formHeaderLeft}>
+              <View style={[styles.iconContainer, { backgroundColor: palette.accent + '15' }]}>
+                <IconSymbol size={20} name="clock.arrow.circlepath" color={palette.accent} />
+              </View>
+              <View>
+                <ThemedText style={styles.formTitle}>History</ThemedText>
+                <ThemedText style={styles.formSubtitle}>
+                  {history.length} transaction{history.length === 1 ? '' : 's'}
+                </ThemedText>
+              </View>
+            </View>
+          </View>
+
+          {history.length === 0 ? (
+            <View style={styles.emptyHistory}>
+              <IconSymbol size={40} name="tray" color={palette.muted} />
+              <ThemedText style={styles.emptyHistoryText}>No transactions yet</ThemedText>
+            </View>
+          ) : (
+            <>
+              {visibleHistory.map((entry) => {
+                const isCredit = entry.kind === 'credit';
+                const color = isCredit ? palette.success : palette.danger;
+                return (
+                  <View key={entry.id} style={styles.historyItem}>
+                    <View style={[styles.historyIcon, { backgroundColor: color + '15' }]}>
+                      <IconSymbol
+                        size={16}
+                        name={isCredit ? 'arrow.up.circle.fill' : 'arrow.down.circle.fill'}
+                        color={color}
+                      />
+                    </View>
+                    <View style={styles.historyInfo}>
+                      <ThemedText style={styles.historyNote} numberOfLines={1}>
+                        {entry.note || (isCredit ? 'Added' : 'Subtracted')}
+                      </ThemedText>
+                      <ThemedText style={styles.historyDate}>
+                        {accounts.length > 1 && `${accountsById.get(entry.account_id)?.name ?? 'Unknown account'} · `}
+                        {new Date(entry.created_at).toLocaleString('en-US', {
+                          month: 'short',
+                          day: 'numeric',
+                          hour: 'numeric',
+                          minute: '2-digit',
+                        })}
+                      </ThemedText>
+                    </View>
+                    <View style={styles.historyAmounts}>
+                      <ThemedText style={[styles.historyAmount, { color }]}>
+                        {format(signedAmount(entry), currencyOf(entry), { signed: true })}
+                      </ThemedText>
+                      <ThemedText style={styles.historyRunning}>
+                        {format(entry.runningTotal, currencyOf(entry))}
+                      </ThemedText>
+                    </View>
+                    <TouchableOpacity
+                      style={styles.undoButton}
+                      onPress={() => handleUndo(entry)}
+                      hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                      <IconSymbol size={16} name="arrow.uturn.backward" color={palette.muted} />
+                    </TouchableOpacity>
+                  </View>
+                );
+              })}
+              {history.length > HISTORY_PREVIEW_COUNT && (
+                <TouchableOpacity style={styles.showAllButton} onPress={() => setShowAllHistory((value) => !value)}>
+                  <ThemedText style={styles.showAllText}>
+                    {showAllHistory ? 'Show less' : `Show all ${history.length}`}
+                  </ThemedText>
+                </TouchableOpacity>
+              )}
+            </>
+          )}
+        </ThemedView>
+      </Animated.View>
+
+      {/* Reconciliation */}
+      {reconciliation && (
+        <Animated.View entering={FadeInUp.delay(300).duration(500)} style={styles.cardContainer}>
+          <ThemedView style={styles.card}>
+            <View style={styles.formHeader}>
+              <View style={styles.formHeaderLeft}>
+                <View style={[styles.iconContainer, { backgroundColor: driftColor + '15' }]}>
+                  <IconSymbol
+                    size={20}
+                    name={reconciliation.issues.length === 0 ? 'checkmark.circle.fill' : 'exclamationmark.triangle.fill'}
+                    color={driftColor}
+                  />
+                </View>
+                <View>
+                  <ThemedText style={styles.formTitle}>Reconciliation</ThemedText>
+                  <ThemedText style={styles.formSubtitle}>Expenses this month vs. balance debits</ThemedText>
+                </View>
+              </View>
+            </View>
+
+            <View style={styles.reconcileTotals}>
+              <View style={styles.footerItem}>
+                <ThemedText style={styles.footerLabel}>Expenses</ThemedText>
+                <ThemedText style={styles.footerValue}>{format(reconciliation.expenseTotal)}</ThemedText>
+              </View>
+              <View style={styles.footerItem}>
+                <ThemedText style={styles.footerLabel}>Debited</ThemedText>
+                <ThemedText style={styles.footerValue}>{format(reconciliation.debitedTotal)}</ThemedText>
+              </View>
+              <View style={styles.footerItem}>
+                <ThemedText style={styles.footerLabel}>Drift</ThemedText>
+                <ThemedText style={[styles.footerValue, { color: driftColor }]}>
+                  {format(reconciliation.drift)}
+                </ThemedText>
+              </View>
+            </View>
+
+            {reconciliation.issues.length === 0 ? (
+              <ThemedText style={styles.reconcileInSync}>Every expense this month is reflected in your balance.</ThemedText>
+            ) : (
+              <>
+                {reconciliation.issues.slice(0, RECONCILIATION_PREVIEW_COUNT).map((issue) => (
+                  <View key={issue.expense.id} style={styles.historyItem}>
+                    <View style={styles.historyInfo}>
+                      <ThemedText style={styles.historyNote} numberOfLines={1}>
+                        {issue.expense.name} · {format(Number(issue.expense.amount), issue.expense.currency)}
+                      </ThemedText>
+                      <ThemedText style={styles.historyDate}>
+                        {issue.kind === 'amount_mismatch'
+                          ? `${ISSUE_LABELS[issue.kind]} (debited ${format(issue.debited, issue.expense.currency)})`
+                          : ISSUE_LABELS[issue.kind]}
+                      </ThemedText>
+                    </View>
+                    <TouchableOpacity
+                      style={styles.fixButton}
+                      disabled={fixingId !== null}
+                      onPress={() => handleFixIssue(issue)}>
+                      {fixingId === issue.expense.id ? (
+                        <ActivityIndicator size="small" color={palette.accent} />
+                      ) : (
+                        <ThemedText style={styles.fixButtonText}>Debit</ThemedText>
+                      )}
+                    </TouchableOpacity>
+                  </View>
+                ))}
+                {reconciliation.issues.length > RECONCILIATION_PREVIEW_COUNT && (
+                  <ThemedText style={styles.reconcileMore}>
+                    +{reconciliation.issues.length - RECONCILIATION_PREVIEW_COUNT} more
+                  </ThemedText>
+                )}
+              </>
+            )}
+          </ThemedView>
+        </Animated.View>
+      )}
     </ParallaxScrollView>
   );
 }
@@ -302,6 +828,20 @@ const createStyles = (palette: ThemeColorSet, topInset: number) =>
       justifyContent: 'center',
       alignItems: 'center',
     },
+    settingsButton: {
+      position: 'absolute',
+      top: Math.max(topInset + 12, 16),
+      right: 20,
+      width: 44,
+      height: 44,
+      borderRadius: 22,
+      backgroundColor: palette.card,
+      alignItems: 'center',
+      justifyContent: 'center',
+      borderWidth: 1,
+      borderColor: palette.border,
+      zIndex: 2,
+    },
     headerContent: {
       alignItems: 'center',
       justifyContent: 'center',
@@ -396,6 +936,66 @@ const createStyles = (palette: ThemeColorSet, topInset: number) =>
       color: palette.text,
       fontFamily: FontFamily.bold,
     },
+    sparklineContainer: {
+      marginTop: -8,
+      marginBottom: 20,
+      gap: 4,
+    },
+    sparklineLabel: {
+      fontSize: 11,
+      color: palette.muted,
+      fontFamily: FontFamily.regular,
+    },
+    rateWarning: {
+      marginTop: -8,
+      marginBottom: 16,
+    },
+    rateWarningText: {
+      fontSize: 12,
+      color: palette.warning,
+      fontFamily: FontFamily.regular,
+    },
+    tileGrid: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 12,
+    },
+    tileWrapper: {
+      width: '47%',
+      flexGrow: 1,
+    },
+    tile: {
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: palette.border,
+      backgroundColor: palette.card,
+      padding: 14,
+      gap: 2,
+    },
+    tileHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: 10,
+    },
+    tileIcon: {
+      width: 32,
+      height: 32,
+      borderRadius: 8,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    tileValue: {
+      fontSize: 18,
+      fontWeight: '700',
+      color: palette.text,
+      fontFamily: FontFamily.bold,
+    },
+    tileDetail: {
+      fontSize: 12,
+      color: palette.muted,
+      fontFamily: FontFamily.regular,
+    },
     cardFooter: {
       flexDirection: 'row',
       justifyContent: 'space-between',
@@ -449,6 +1049,77 @@ const createStyles = (palette: ThemeColorSet, topInset: number) =>
       color: palette.muted,
       fontFamily: FontFamily.regular,
     },
+    accountList: {
+      gap: 4,
+      marginBottom: 20,
+    },
+    accountListHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: 4,
+    },
+    manageLink: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: palette.accent,
+      fontFamily: FontFamily.semiBold,
+    },
+    accountRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 10,
+      paddingVertical: 8,
+      paddingHorizontal: 8,
+      borderRadius: 12,
+    },
+    accountRowActive: {
+      backgroundColor: '#1e40af15',
+    },
+    accountName: {
+      flex: 1,
+      fontSize: 14,
+      color: palette.text,
+      fontFamily: FontFamily.medium,
+    },
+    accountBalance: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: palette.text,
+      fontFamily: FontFamily.semiBold,
+    },
+    accountChip: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+    },
+    modeRow: {
+      flexDirection: 'row',
+      gap: 8,
+      marginBottom: 20,
+    },
+    modeChip: {
+      flex: 1,
+      alignItems: 'center',
+      paddingVertical: 10,
+      borderRadius: 10,
+      borderWidth: 1.5,
+      borderColor: palette.border,
+      backgroundColor: palette.surface,
+    },
+    modeChipActive: {
+      borderColor: '#1e40af',
+      backgroundColor: '#1e40af15',
+    },
+    modeChipText: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: palette.muted,
+      fontFamily: FontFamily.semiBold,
+    },
+    modeChipTextActive: {
+      color: '#1e40af',
+    },
     inputGroup: {
       marginBottom: 20,
     },
@@ -558,4 +1229,100 @@ const createStyles = (palette: ThemeColorSet, topInset: number) =>
       letterSpacing: 0.3,
       fontFamily: FontFamily.semiBold,
     },
+    emptyHistory: {
+      alignItems: 'center',
+      paddingVertical: 24,
+      gap: 8,
+    },
+    emptyHistoryText: {
+      fontSize: 14,
+      color: palette.muted,
+      fontFamily: FontFamily.regular,
+    },
+    historyItem: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      paddingVertical: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: palette.border,
+    },
+    historyIcon: {
+      width: 32,
+      height: 32,
+      borderRadius: 8,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    historyInfo: {
+      flex: 1,
+    },
+    historyNote: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: palette.text,
+      fontFamily: FontFamily.semiBold,
+    },
+    historyDate: {
+      fontSize: 12,
+      color: palette.muted,
+      fontFamily: FontFamily.regular,
+    },
+    historyAmounts: {
+      alignItems: 'flex-end',
+    },
+    historyAmount: {
+      fontSize: 14,
+      fontWeight: '600',
+      fontFamily: FontFamily.semiBold,
+    },
+    historyRunning: {
+      fontSize: 11,
+      color: palette.muted,
+      fontFamily: FontFamily.regular,
+    },
+    undoButton: {
+      padding: 4,
+    },
+    showAllButton: {
+      alignItems: 'center',
+      paddingTop: 12,
+    },
+    showAllText: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: palette.accent,
+      fontFamily: FontFamily.semiBold,
+    },
+    reconcileTotals: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      marginBottom: 12,
+    },
+    reconcileInSync: {
+      fontSize: 13,
+      color: palette.muted,
+      fontFamily: FontFamily.regular,
+    },
+    reconcileMore: {
+      fontSize: 12,
+      color: palette.muted,
+      textAlign: 'center',
+      paddingTop: 12,
+      fontFamily: FontFamily.regular,
+    },
+    fixButton: {
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 8,
+      backgroundColor: palette.accent + '15',
+      minWidth: 60,
+      alignItems: 'center',
+    },
+    fixButtonText: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: palette.accent,
+      fontFamily: FontFamily.semiBold,
+    },
   });
@@ -12,7 +12,6 @@ import ParallaxScrollView from '@/components/parallax-scroll-view';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { IconSymbol } from '@/components/ui/icon-symbol';
-import { supabase } from '@/lib/supabase';
 import { Colors, FontFamily, type ThemeColorSet } from '@/constants/theme';
 import { useAppSelector, useAppDispatch } from '@/store/hooks';
 import { 
@@ -24,14 +23,7 @@ import {
   togglePrayerEnabled 
 } from '@/store/prayerSlice';
 import { toggleTheme } from '@/store/themeSlice';
-
-interface PrayerReminder {
-  id: string;
-  prayer_name: string;
-  time: string;
-  enabled: boolean;
-  ringtone_uri: string | null;
-}
+import { useRepositories } from '@/contexts/DataContext';
 
 // Configure notification handler
 Notifications.setNotificationHandler({
@@ -60,6 +52,7 @@ Notifications.setNotificationCategoryAsync('prayer_alarm', [
 
 export default function PrayersScreen() {
   const dispatch = useAppDispatch();
+  const { prayerReminders: prayerRemindersRepository } = useRepositories();
   const { prayers, loading, updating, globalRingtone } = useAppSelector((state) => state.prayers);
   const colorScheme = useAppSelector((state) => state.theme.colorScheme);
   const palette = Colors[colorScheme ?? 'dark'];
@@ -235,14 +228,8 @@ export default function PrayersScreen() {
   const fetchPrayers = async () => {
     try {
       dispatch(setLoading(true));
-      const { data, error } = await supabase
-        .from('prayer_reminders')
-        .select('*')
-        .order('time', { ascending: true });
-
-      if (error) throw error;
-
-      dispatch(setPrayers(data || []));
+      const data = await prayerRemindersRepository.list();
+      dispatch(setPrayers(data));
     } catch (error: any) {
       Alert.alert('Error', error.message || 'Failed to fetch prayer reminders');
     } finally {
@@ -252,14 +239,9 @@ export default function PrayersScreen() {
 
   const fetchGlobalRingtone = async () => {
     try {
-      const { data, error } = await supabase
-        .from('prayer_reminders')
-        .select('ringtone_uri')
-        .limit(1)
-        .single();
-
-      if (!error && data?.ringtone_uri) {
-        dispatch(setGlobalRingtone(data.ringtone_uri));
+      const ringtoneUri = await prayerRemindersRepository.getGlobalRingtone();
+      if (ringtoneUri) {
+        dispatch(setGlobalRingtone(ringtoneUri));
       }
     } catch (error) {
       // Ignore if no ringtone found
@@ -273,12 +255,7 @@ export default function PrayersScreen() {
       // Update Redux state FIRST for immediate UI feedback
       dispatch(updatePrayer({ id, time: newTime }));
       
-      const { error } = await supabase
-        .from('prayer_reminders')
-        .update({ time: newTime })
-        .eq('id', id);
-
-      if (error) throw error;
+      await prayerRemindersRepository.updateTime(id, newTime);
       
       // Clear editing state
       setEditingTimeId(null);
@@ -372,12 +349,9 @@ export default function PrayersScreen() {
       // Optimistically update Redux state first
       dispatch(togglePrayerEnabled(id));
       
-      const { error } = await supabase
-        .from('prayer_reminders')
-        .update({ enabled: !enabled })
-        .eq('id', id);
-
-      if (error) {
+      try {
+        await prayerRemindersRepository.setEnabled(id, !enabled);
+      } catch (error) {
         // Revert on error
         dispatch(togglePrayerEnabled(id));
         throw error;
@@ -407,11 +381,7 @@ export default function PrayersScreen() {
       dispatch(setGlobalRingtone(uri));
 
       // Update all prayers with the global ringtone
-      const { error } = await supabase
-        .from('prayer_reminders')
-        .update({ ringtone_uri: uri });
-
-      if (error) throw error;
+      await prayerRemindersRepository.setRingtoneForAll(uri);
 
       Alert.alert('Success', 'Global ringtone set for all prayers!');
       fetchPrayers();
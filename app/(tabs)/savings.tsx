@@ -1,77 +1,83 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { StyleSheet, ScrollView, TextInput, TouchableOpacity, ActivityIndicator, View } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
+import { useFocusEffect, useRouter } from 'expo-router';
 import Animated, { FadeInDown, FadeInUp } from 'react-native-reanimated';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
+import { CurrencyPicker } from '@/components/currency-picker';
+import { SavingsTrend } from '@/components/savings-trend';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { IconSymbol } from '@/components/ui/icon-symbol';
-import { supabase } from '@/lib/supabase';
+import { ProgressRing } from '@/components/ui/progress-ring';
 import { Colors, FontFamily, type ThemeColorSet } from '@/constants/theme';
 import { useAppSelector } from '@/store/hooks';
 import { useModal } from '@/components/ui/modal';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { useRepositories } from '@/contexts/DataContext';
+import { savingsInBase } from '@/lib/currency';
+import type { SavingsAllocation, SavingsEntry, SavingsGoal } from '@/lib/data';
+import { formatLocalDate, formatMonthYear, monthName } from '@/lib/local-date';
+import { compareMoney, parseMoney, sumMoney } from '@/lib/money';
+import { goalProgress } from '@/lib/savings-goals';
 
-interface SavingsEntry {
-  id: string;
-  month: string;
-  year: number;
-  amount: number;
-  description: string | null;
-  created_at: string;
-}
-
-const MONTHS = [
-  'January',
-  'February',
-  'March',
-  'April',
-  'May',
-  'June',
-  'July',
-  'August',
-  'September',
-  'October',
-  'November',
-  'December',
-];
+const MONTH_INDEXES = Array.from({ length: 12 }, (_, index) => index);
 
 export default function SavingsScreen() {
   const [savings, setSavings] = useState<SavingsEntry[]>([]);
-  const [totalSavings, setTotalSavings] = useState(0);
   const [loading, setLoading] = useState(true);
   const [adding, setAdding] = useState(false);
   const [editing, setEditing] = useState(false);
   const [updating, setUpdating] = useState(false);
+  const { baseCurrency, convert, format } = useCurrency();
   const [amount, setAmount] = useState('');
+  const [currency, setCurrency] = useState(baseCurrency);
   const [description, setDescription] = useState('');
+  const [selectedMonth, setSelectedMonth] = useState(new Date().getMonth());
+  const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
+  const [goals, setGoals] = useState<SavingsGoal[]>([]);
+  const [allocations, setAllocations] = useState<SavingsAllocation[]>([]);
+  const [allocationDrafts, setAllocationDrafts] = useState<Record<string, string>>({});
+  const [allocating, setAllocating] = useState(false);
   const { showModal } = useModal();
+  const { savings: savingsRepository, savingsGoals: goalsRepository } = useRepositories();
+  const router = useRouter();
+  const screenScrollRef = useRef<ScrollView>(null);
+  const monthCardOffset = useRef(0);
   const insets = useSafeAreaInsets();
   const colorScheme = useAppSelector((state) => state.theme.colorScheme);
   const palette = Colors[colorScheme ?? 'dark'];
   const styles = useMemo(() => createStyles(palette, insets.top), [palette, insets.top]);
 
-  const currentMonth = MONTHS[new Date().getMonth()];
+  const currentMonthIndex = new Date().getMonth();
   const currentYear = new Date().getFullYear();
+  const isCurrentMonth = selectedMonth === currentMonthIndex && selectedYear === currentYear;
+  // Savings are recorded after the fact, so months that haven't started can't be picked
+  const isFutureMonth = (year: number, monthIndex: number) =>
+    year > currentYear || (year === currentYear && monthIndex > currentMonthIndex);
 
-  useEffect(() => {
-    fetchSavings();
-  }, []);
+  const fetchGoals = useCallback(async () => {
+    try {
+      const [goalData, allocationData] = await Promise.all([
+        goalsRepository.list(),
+        goalsRepository.listAllocations(),
+      ]);
+      setGoals(goalData);
+      setAllocations(allocationData);
+    } catch (error: any) {
+      showModal({
+        title: 'Error',
+        message: error.message || 'Failed to fetch goals',
+        type: 'error',
+      });
+    }
+  }, [goalsRepository, showModal]);
 
-  const fetchSavings = async () => {
+  const fetchSavings = useCallback(async () => {
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from('savings')
-        .select('*')
-        .order('year', { ascending: false })
-        .order('month', { ascending: false });
-
-      if (error) throw error;
-
-      setSavings(data || []);
-      const total = (data || []).reduce((sum, entry) => sum + parseFloat(entry.amount.toString()), 0);
-      setTotalSavings(total);
+      setSavings(await savingsRepository.list());
     } catch (error: any) {
       showModal({
         title: 'Error',
@@ -81,46 +87,60 @@ export default function SavingsScreen() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [savingsRepository, showModal]);
 
-  const handleAddSavings = async () => {
+  useEffect(() => {
+    fetchSavings();
+  }, [fetchSavings]);
+
+  // Goals are edited on their own screen, so reload them whenever this tab is shown
+  useFocusEffect(
+    useCallback(() => {
+      fetchGoals();
+    }, [fetchGoals])
+  );
+
+  // Shared by add and update; returns the parsed amount, or null after showing what's wrong
+  const validateAmount = (): number | null => {
     if (!amount) {
       showModal({
         title: 'Error',
         message: 'Please enter an amount',
         type: 'error',
       });
-      return;
+      return null;
     }
 
-    const amountNum = parseFloat(amount);
-    if (isNaN(amountNum) || amountNum <= 0) {
+    const amountNum = parseMoney(amount);
+    if (amountNum === null) {
       showModal({
         title: 'Error',
         message: 'Please enter a valid amount',
         type: 'error',
       });
-      return;
+      return null;
     }
 
+    return amountNum;
+  };
+
+  const handleAddSavings = async () => {
+    const amountNum = validateAmount();
+    if (amountNum === null) return;
+
     try {
       setAdding(true);
-      const { error } = await supabase
-        .from('savings')
-        .upsert({
-          month: currentMonth,
-          year: currentYear,
-          amount: amountNum,
-          description: description || null,
-        }, {
-          onConflict: 'month,year'
-        });
-
-      if (error) throw error;
+      await savingsRepository.upsertForMonth({
+        month: selectedMonth + 1,
+        year: selectedYear,
+        amount: amountNum,
+        currency,
+        description: description || null,
+      });
 
       showModal({
         title: 'Success',
-        message: 'Savings added successfully!',
+        message: `Savings for ${formatMonthYear(selectedYear, selectedMonth)} added successfully!`,
         type: 'success',
       });
       setAmount('');
@@ -138,9 +158,10 @@ export default function SavingsScreen() {
   };
 
   const handleEditSavings = () => {
-    if (thisMonthSavings) {
-      setAmount(thisMonthSavings.amount.toString());
-      setDescription(thisMonthSavings.description || '');
+    if (selectedEntry) {
+      setAmount(selectedEntry.amount.toString());
+      setCurrency(selectedEntry.currency);
+      setDescription(selectedEntry.description || '');
       setEditing(true);
     }
   };
@@ -148,42 +169,49 @@ export default function SavingsScreen() {
   const handleCancelEdit = () => {
     setEditing(false);
     setAmount('');
+    setCurrency(baseCurrency);
     setDescription('');
   };
 
+  const handleSelectMonth = (year: number, monthIndex: number) => {
+    if (isFutureMonth(year, monthIndex)) return;
+    handleCancelEdit();
+    setSelectedYear(year);
+    setSelectedMonth(monthIndex);
+  };
+
+  // Chart taps jump to the month's entry, which lives in the card near the top
+  const handleChartSelect = (year: number, monthIndex: number) => {
+    handleSelectMonth(year, monthIndex);
+    screenScrollRef.current?.scrollTo({ y: monthCardOffset.current, animated: true });
+  };
+
   const handleUpdateSavings = async () => {
-    if (!amount) {
-      showModal({
-        title: 'Error',
-        message: 'Please enter an amount',
-        type: 'error',
-      });
-      return;
-    }
+    const amountNum = validateAmount();
+    if (amountNum === null || !selectedEntry) return;
 
-    const amountNum = parseFloat(amount);
-    if (isNaN(amountNum) || amountNum <= 0) {
+    // Goals can't keep more of the month than it now holds
+    const allocated = sumMoney(
+      allocations
+        .filter((allocation) => allocation.savings_id === selectedEntry.id)
+        .map((allocation) => Number(allocation.amount))
+    );
+    if (compareMoney(amountNum, allocated) < 0) {
       showModal({
         title: 'Error',
-        message: 'Please enter a valid amount',
+        message: `${format(allocated, selectedEntry.currency)} of ${monthName(selectedMonth)} is allocated to goals, so the amount can't be lower than that`,
         type: 'error',
       });
       return;
     }
 
-    if (!thisMonthSavings) return;
-
     try {
       setUpdating(true);
-      const { error } = await supabase
-        .from('savings')
-        .update({
-          amount: amountNum,
-          description: description || null,
-        })
-        .eq('id', thisMonthSavings.id);
-
-      if (error) throw error;
+      await savingsRepository.update(selectedEntry.id, {
+        amount: amountNum,
+        currency,
+        description: description || null,
+      });
 
       showModal({
         title: 'Success',
@@ -192,6 +220,7 @@ export default function SavingsScreen() {
       });
       setEditing(false);
       setAmount('');
+      setCurrency(baseCurrency);
       setDescription('');
       fetchSavings();
     } catch (error: any) {
@@ -205,14 +234,109 @@ export default function SavingsScreen() {
     }
   };
 
-  const thisMonthSavings = savings.find(
-    entry => entry.month === currentMonth && entry.year === currentYear
+  const handleDeleteSavings = (entry: SavingsEntry) => {
+    showModal({
+      title: 'Delete Savings',
+      message: `Delete the savings entry for ${formatMonthYear(entry.year, entry.month - 1)}?`,
+      type: 'confirm',
+      confirmText: 'Delete',
+      cancelText: 'Cancel',
+      onConfirm: async () => {
+        try {
+          await savingsRepository.remove(entry.id);
+          if (entry.id === selectedEntry?.id) handleCancelEdit();
+          fetchSavings();
+          fetchGoals();
+        } catch (error: any) {
+          showModal({
+            title: 'Error',
+            message: error.message || 'Failed to delete savings',
+            type: 'error',
+          });
+        }
+      },
+    });
+  };
+
+  const selectedEntry = savings.find(
+    entry => entry.month === selectedMonth + 1 && entry.year === selectedYear
+  );
+  const selectedAmount = selectedEntry ? Number(selectedEntry.amount) : 0;
+  const hasSelectedEntry = !!selectedEntry;
+
+  // Start the allocation inputs from what the selected month is already split into
+  useEffect(() => {
+    const drafts: Record<string, string> = {};
+    allocations
+      .filter((allocation) => allocation.savings_id === selectedEntry?.id)
+      .forEach((allocation) => {
+        drafts[allocation.goal_id] = Number(allocation.amount).toString();
+      });
+    setAllocationDrafts(drafts);
+  }, [selectedEntry?.id, allocations]);
+
+  const handleSaveAllocations = async () => {
+    if (!selectedEntry) return;
+
+    const amounts: Pick<SavingsAllocation, 'goal_id' | 'amount'>[] = [];
+    for (const goal of goals) {
+      const draft = allocationDrafts[goal.id]?.trim();
+      if (!draft) continue;
+      const value = parseMoney(draft, { allowZero: true });
+      if (value === null) {
+        showModal({
+          title: 'Error',
+          message: `Please enter a valid amount for ${goal.name}`,
+          type: 'error',
+        });
+        return;
+      }
+      amounts.push({ goal_id: goal.id, amount: value });
+    }
+
+    const allocated = sumMoney(amounts.map(({ amount }) => amount));
+    if (compareMoney(allocated, selectedAmount) > 0) {
+      showModal({
+        title: 'Error',
+        message: `You can allocate at most ${format(selectedAmount, selectedEntry.currency)} from ${monthName(selectedMonth)}`,
+        type: 'error',
+      });
+      return;
+    }
+
+    try {
+      setAllocating(true);
+      await goalsRepository.allocate(selectedEntry.id, amounts);
+      showModal({
+        title: 'Success',
+        message: 'Goal allocations saved!',
+        type: 'success',
+      });
+      fetchGoals();
+    } catch (error: any) {
+      showModal({
+        title: 'Error',
+        message: error.message || 'Failed to save allocations',
+        type: 'error',
+      });
+    } finally {
+      setAllocating(false);
+    }
+  };
+
+  const totalSavings = useMemo(
+    () => sumMoney(savings.map((entry) => savingsInBase(entry, convert))),
+    [savings, convert]
+  );
+
+  const goalStatus = useMemo(
+    () => goalProgress(goals, allocations, savings, convert),
+    [goals, allocations, savings, convert]
   );
-  const thisMonthAmount = thisMonthSavings ? parseFloat(thisMonthSavings.amount.toString()) : 0;
-  const hasThisMonthEntry = !!thisMonthSavings;
 
   return (
     <ScrollView
+      ref={screenScrollRef}
       style={[styles.scrollView, { backgroundColor: palette.background }]}
       contentContainerStyle={styles.scrollContent}
       showsVerticalScrollIndicator={false}>
@@ -227,7 +351,7 @@ export default function SavingsScreen() {
               </View>
               <View>
                 <ThemedText style={styles.totalLabel}>Total Savings</ThemedText>
-                <ThemedText style={styles.totalValue}>₹{totalSavings.toFixed(2)}</ThemedText>
+                <ThemedText style={styles.totalValue}>{format(totalSavings)}</ThemedText>
               </View>
             </View>
             <TouchableOpacity 
@@ -241,8 +365,13 @@ export default function SavingsScreen() {
         </ThemedView>
       </Animated.View>
 
-      {/* This Month Savings Card */}
-      <Animated.View entering={FadeInDown.delay(60).duration(500)} style={styles.cardContainer}>
+      {/* Selected Month Savings Card */}
+      <Animated.View
+        entering={FadeInDown.delay(60).duration(500)}
+        style={styles.cardContainer}
+        onLayout={(event) => {
+          monthCardOffset.current = event.nativeEvent.layout.y;
+        }}>
         <ThemedView style={styles.monthCard}>
           <View style={styles.monthCardHeader}>
             <View style={styles.monthCardHeaderLeft}>
@@ -250,37 +379,115 @@ export default function SavingsScreen() {
                 <IconSymbol size={20} name="calendar" color="#1e40af" />
               </View>
               <View>
-                <ThemedText style={styles.monthLabel}>This Month</ThemedText>
-                <ThemedText style={styles.monthTitle}>{currentMonth} {currentYear}</ThemedText>
+                <ThemedText style={styles.monthLabel}>{isCurrentMonth ? 'This Month' : 'Past Month'}</ThemedText>
+                <ThemedText style={styles.monthTitle}>{formatMonthYear(selectedYear, selectedMonth)}</ThemedText>
               </View>
             </View>
           </View>
+
+          {/* Month/year picker */}
+          <View style={styles.yearRow}>
+            <TouchableOpacity
+              style={styles.yearButton}
+              onPress={() => handleSelectMonth(selectedYear - 1, selectedMonth)}>
+              <IconSymbol size={18} name="chevron.left" color={palette.text} />
+            </TouchableOpacity>
+            <ThemedText style={styles.yearText}>{selectedYear}</ThemedText>
+            <TouchableOpacity
+              style={[styles.yearButton, selectedYear >= currentYear && styles.yearButtonDisabled]}
+              disabled={selectedYear >= currentYear}
+              onPress={() => handleSelectMonth(selectedYear + 1, Math.min(selectedMonth, currentMonthIndex))}>
+              <IconSymbol size={18} name="chevron.right" color={palette.text} />
+            </TouchableOpacity>
+          </View>
+          <View style={styles.monthGrid}>
+            {MONTH_INDEXES.map((index) => {
+              const isSelected = index === selectedMonth;
+              const disabled = isFutureMonth(selectedYear, index);
+              const hasEntry = savings.some((entry) => entry.month === index + 1 && entry.year === selectedYear);
+              return (
+                <TouchableOpacity
+                  key={index}
+                  style={[styles.monthChip, isSelected && styles.monthChipActive, disabled && styles.monthChipDisabled]}
+                  disabled={disabled}
+                  onPress={() => handleSelectMonth(selectedYear, index)}>
+                  <ThemedText style={[styles.monthChipText, isSelected && styles.monthChipTextActive]}>
+                    {monthName(index, 'short')}
+                  </ThemedText>
+                  {hasEntry && <View style={[styles.monthChipDot, isSelected && styles.monthChipDotActive]} />}
+                </TouchableOpacity>
+              );
+            })}
+          </View>
           
           {loading ? (
             <View style={styles.loadingState}>
               <ActivityIndicator color={palette.accent} size="small" />
               <ThemedText style={styles.loadingText}>Loading...</ThemedText>
             </View>
-          ) : hasThisMonthEntry && !editing ? (
+          ) : hasSelectedEntry && !editing ? (
             <View style={styles.monthAmountContainer}>
               <View style={styles.monthAmountHeader}>
-                <ThemedText style={styles.monthAmountLabel}>Saved this month</ThemedText>
-                <TouchableOpacity
-                  style={styles.editButton}
-                  onPress={handleEditSavings}
-                  hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
-                  <IconSymbol size={18} name="pencil.circle.fill" color={palette.accent} />
-                </TouchableOpacity>
+                <ThemedText style={styles.monthAmountLabel}>
+                  Saved in {isCurrentMonth ? 'this month' : monthName(selectedMonth)}
+                </ThemedText>
+                <View style={styles.monthActions}>
+                  <TouchableOpacity
+                    style={styles.editButton}
+                    onPress={handleEditSavings}
+                    hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                    <IconSymbol size={18} name="pencil.circle.fill" color={palette.accent} />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.editButton}
+                    onPress={() => handleDeleteSavings(selectedEntry)}
+                    hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                    <IconSymbol size={16} name="trash.fill" color={palette.danger} />
+                  </TouchableOpacity>
+                </View>
               </View>
-              <ThemedText style={styles.monthAmountValue}>₹{thisMonthAmount.toFixed(2)}</ThemedText>
-              {thisMonthSavings?.description && (
-                <ThemedText style={styles.monthDescription}>{thisMonthSavings.description}</ThemedText>
+              <ThemedText style={styles.monthAmountValue}>
+                {format(selectedAmount, selectedEntry?.currency)}
+              </ThemedText>
+              {selectedEntry?.description && (
+                <ThemedText style={styles.monthDescription}>{selectedEntry.description}</ThemedText>
+              )}
+
+              {goals.length > 0 && (
+                <View style={styles.allocationSection}>
+                  <ThemedText style={styles.inputLabel}>Allocate to goals ({selectedEntry?.currency})</ThemedText>
+                  {goals.map((goal) => (
+                    <View key={goal.id} style={styles.allocationRow}>
+                      <ThemedText style={styles.allocationGoal} numberOfLines={1}>
+                        {goal.name}
+                      </ThemedText>
+                      <TextInput
+                        style={[styles.input, styles.allocationInput]}
+                        value={allocationDrafts[goal.id] ?? ''}
+                        onChangeText={(text) => setAllocationDrafts((drafts) => ({ ...drafts, [goal.id]: text }))}
+                        keyboardType="decimal-pad"
+                        placeholder="0.00"
+                        placeholderTextColor={palette.muted}
+                      />
+                    </View>
+                  ))}
+                  <TouchableOpacity
+                    style={[styles.allocateButton, allocating && styles.submitButtonDisabled]}
+                    disabled={allocating}
+                    onPress={handleSaveAllocations}>
+                    {allocating ? (
+                      <ActivityIndicator color={palette.accent} size="small" />
+                    ) : (
+                      <ThemedText style={styles.allocateButtonText}>Save Allocation</ThemedText>
+                    )}
+                  </TouchableOpacity>
+                </View>
               )}
             </View>
           ) : (
             <View style={styles.formContainer}>
               <View style={styles.inputGroup}>
-                <ThemedText style={styles.inputLabel}>Amount (₹) *</ThemedText>
+                <ThemedText style={styles.inputLabel}>Amount ({currency}) *</ThemedText>
                 <TextInput
                   style={styles.input}
                   value={amount}
@@ -291,6 +498,11 @@ export default function SavingsScreen() {
                 />
               </View>
 
+              <View style={styles.inputGroup}>
+                <ThemedText style={styles.inputLabel}>Currency</ThemedText>
+                <CurrencyPicker value={currency} onChange={setCurrency} />
+              </View>
+
               <View style={styles.inputGroup}>
                 <ThemedText style={styles.inputLabel}>Note (Optional)</ThemedText>
                 <TextInput
@@ -340,6 +552,127 @@ export default function SavingsScreen() {
           )}
         </ThemedView>
       </Animated.View>
+
+      {/* Goals */}
+      <Animated.View entering={FadeInUp.delay(90).duration(500)} style={styles.cardContainer}>
+        <ThemedView style={styles.monthCard}>
+          <View style={[styles.monthCardHeader, styles.goalsHeader]}>
+            <View style={styles.monthCardHeaderLeft}>
+              <View style={[styles.iconContainer, { backgroundColor: '#7c3aed15' }]}>
+                <IconSymbol size={20} name="target" color="#7c3aed" />
+              </View>
+              <View>
+                <ThemedText style={styles.monthLabel}>Goals</ThemedText>
+                <ThemedText style={styles.monthTitle}>
+                  {goals.length} {goals.length === 1 ? 'goal' : 'goals'}
+                </ThemedText>
+              </View>
+            </View>
+            <TouchableOpacity onPress={() => router.push('/savings-goals')}>
+              <ThemedText style={styles.manageLink}>Manage</ThemedText>
+            </TouchableOpacity>
+          </View>
+
+          {goalStatus.length === 0 ? (
+            <ThemedText style={styles.emptyText}>Set a goal to track what your savings are for</ThemedText>
+          ) : (
+            goalStatus.map((status) => {
+              const color = status.onTrack ? '#059669' : '#d97706';
+              return (
+                <View key={status.goal.id} style={styles.goalItem}>
+                  <ProgressRing progress={status.ratio} color={color} size={56}>
+                    <ThemedText style={styles.goalPercent}>{Math.floor(status.ratio * 100)}%</ThemedText>
+                  </ProgressRing>
+                  <View style={styles.goalInfo}>
+                    <ThemedText style={styles.historyMonth}>{status.goal.name}</ThemedText>
+                    <ThemedText style={styles.goalAmounts}>
+                      {format(status.saved)} of {format(Number(status.goal.target_amount))}
+                    </ThemedText>
+                    {status.reached ? (
+                      <ThemedText style={[styles.goalMeta, { color }]}>Reached</ThemedText>
+                    ) : (
+                      <>
+                        <ThemedText style={styles.goalMeta}>
+                          {format(status.requiredMonthly)}/month needed · by{' '}
+                          {formatLocalDate(status.goal.deadline)}
+                        </ThemedText>
+                        <ThemedText style={[styles.goalMeta, { color }]}>
+                          {status.projectedCompletion
+                            ? `Projected ${formatMonthYear(status.projectedCompletion.getFullYear(), status.projectedCompletion.getMonth())} · ${status.onTrack ? 'on track' : 'behind'}`
+                            : 'No recent contributions'}
+                        </ThemedText>
+                      </>
+                    )}
+                  </View>
+                </View>
+              );
+            })
+          )}
+        </ThemedView>
+      </Animated.View>
+
+      {/* Trend and year-over-year charts */}
+      {savings.length > 0 && (
+        <Animated.View entering={FadeInUp.delay(105).duration(500)} style={styles.cardContainer}>
+          <SavingsTrend
+            savings={savings}
+            selectedYear={selectedYear}
+            selectedMonth={selectedMonth}
+            onSelectMonth={handleChartSelect}
+          />
+        </Animated.View>
+      )}
+
+      {/* History */}
+      <Animated.View entering={FadeInUp.delay(120).duration(500)} style={styles.cardContainer}>
+        <ThemedView style={styles.monthCard}>
+          <View style={styles.monthCardHeader}>
+            <View style={styles.monthCardHeaderLeft}>
+              <View style={[styles.iconContainer, { backgroundColor: '#05966915' }]}>
+                <IconSymbol size={20} name="clock.arrow.circlepath" color="#059669" />
+              </View>
+              <View>
+                <ThemedText style={styles.monthLabel}>History</ThemedText>
+                <ThemedText style={styles.monthTitle}>
+                  {savings.length} {savings.length === 1 ? 'month' : 'months'}
+                </ThemedText>
+              </View>
+            </View>
+          </View>
+
+          {savings.length === 0 ? (
+            <ThemedText style={styles.emptyText}>No savings recorded yet</ThemedText>
+          ) : (
+            savings.map((entry) => {
+              const isSelected = entry.id === selectedEntry?.id;
+              return (
+                <TouchableOpacity
+                  key={entry.id}
+                  style={[styles.historyItem, isSelected && styles.historyItemActive]}
+                  onPress={() => handleSelectMonth(entry.year, entry.month - 1)}>
+                  <View style={styles.historyInfo}>
+                    <ThemedText style={styles.historyMonth}>
+                      {formatMonthYear(entry.year, entry.month - 1)}
+                    </ThemedText>
+                    {entry.description && (
+                      <ThemedText style={styles.historyDescription} numberOfLines={1}>
+                        {entry.description}
+                      </ThemedText>
+                    )}
+                  </View>
+                  <ThemedText style={styles.historyAmount}>{format(Number(entry.amount), entry.currency)}</ThemedText>
+                  <TouchableOpacity
+                    style={styles.editButton}
+                    onPress={() => handleDeleteSavings(entry)}
+                    hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                    <IconSymbol size={16} name="trash.fill" color={palette.danger} />
+                  </TouchableOpacity>
+                </TouchableOpacity>
+              );
+            })
+          )}
+        </ThemedView>
+      </Animated.View>
     </ScrollView>
   );
 }
@@ -464,6 +797,187 @@ const createStyles = (palette: ThemeColorSet, topInset: number) =>
     editButton: {
       padding: 4,
     },
+    monthActions: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    yearRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginBottom: 12,
+    },
+    yearButton: {
+      width: 36,
+      height: 36,
+      borderRadius: 10,
+      borderWidth: 1,
+      borderColor: palette.border,
+      backgroundColor: palette.surface,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    yearButtonDisabled: {
+      opacity: 0.4,
+    },
+    yearText: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: palette.text,
+      fontFamily: FontFamily.semiBold,
+    },
+    monthGrid: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+      marginBottom: 20,
+    },
+    monthChip: {
+      width: '22%',
+      flexGrow: 1,
+      alignItems: 'center',
+      paddingVertical: 8,
+      borderRadius: 10,
+      borderWidth: 1,
+      borderColor: palette.border,
+      backgroundColor: palette.surface,
+    },
+    monthChipActive: {
+      backgroundColor: '#1e40af',
+      borderColor: '#1e40af',
+    },
+    monthChipDisabled: {
+      opacity: 0.35,
+    },
+    monthChipText: {
+      fontSize: 13,
+      color: palette.text,
+      fontFamily: FontFamily.medium,
+    },
+    monthChipTextActive: {
+      color: '#fff',
+    },
+    monthChipDot: {
+      width: 4,
+      height: 4,
+      borderRadius: 2,
+      marginTop: 3,
+      backgroundColor: '#059669',
+    },
+    monthChipDotActive: {
+      backgroundColor: '#fff',
+    },
+    emptyText: {
+      fontSize: 14,
+      color: palette.muted,
+      textAlign: 'center',
+      paddingVertical: 12,
+      fontFamily: FontFamily.regular,
+    },
+    goalsHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+    },
+    manageLink: {
+      fontSize: 13,
+      color: palette.accent,
+      fontFamily: FontFamily.semiBold,
+    },
+    goalItem: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 14,
+      paddingVertical: 10,
+    },
+    goalPercent: {
+      fontSize: 12,
+      fontWeight: '700',
+      color: palette.text,
+      fontFamily: FontFamily.bold,
+    },
+    goalInfo: {
+      flex: 1,
+      gap: 2,
+    },
+    goalAmounts: {
+      fontSize: 13,
+      color: palette.text,
+      fontFamily: FontFamily.medium,
+    },
+    goalMeta: {
+      fontSize: 12,
+      color: palette.muted,
+      fontFamily: FontFamily.regular,
+    },
+    allocationSection: {
+      gap: 10,
+      marginTop: 12,
+      paddingTop: 16,
+      borderTopWidth: 1,
+      borderTopColor: palette.border,
+    },
+    allocationRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+    },
+    allocationGoal: {
+      flex: 1,
+      fontSize: 14,
+      color: palette.text,
+      fontFamily: FontFamily.medium,
+    },
+    allocationInput: {
+      width: 120,
+      paddingVertical: 10,
+    },
+    allocateButton: {
+      alignItems: 'center',
+      justifyContent: 'center',
+      paddingVertical: 12,
+      borderRadius: 12,
+      borderWidth: 1.5,
+      borderColor: palette.accent,
+    },
+    allocateButtonText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: palette.accent,
+      fontFamily: FontFamily.semiBold,
+    },
+    historyItem: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      paddingVertical: 12,
+      paddingHorizontal: 8,
+      borderRadius: 12,
+    },
+    historyItemActive: {
+      backgroundColor: '#1e40af15',
+    },
+    historyInfo: {
+      flex: 1,
+    },
+    historyMonth: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: palette.text,
+      fontFamily: FontFamily.semiBold,
+    },
+    historyDescription: {
+      fontSize: 12,
+      color: palette.muted,
+      fontFamily: FontFamily.regular,
+    },
+    historyAmount: {
+      fontSize: 15,
+      fontWeight: '700',
+      color: '#059669',
+      fontFamily: FontFamily.bold,
+    },
     monthAmountValue: {
       fontSize: 28,
       fontWeight: '700',
@@ -7,26 +7,12 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { IconSymbol } from '@/components/ui/icon-symbol';
-import { supabase } from '@/lib/supabase';
 import { Colors, FontFamily, type ThemeColorSet } from '@/constants/theme';
 import { useAppSelector } from '@/store/hooks';
 import { useModal } from '@/components/ui/modal';
-
-interface WorkEntry {
-  id: string;
-  project_name: string;
-  task: string;
-  screenshots: string[];
-  date: string;
-  month: number;
-  year: number;
-  created_at: string;
-}
-
-const MONTHS = [
-  'January', 'February', 'March', 'April', 'May', 'June',
-  'July', 'August', 'September', 'October', 'November', 'December'
-];
+import { useRepositories } from '@/contexts/DataContext';
+import type { WorkEntry } from '@/lib/data';
+import { formatLocalDate, formatMonthYear, toLocalDate, toLocalDateString } from '@/lib/local-date';
 
 export default function WorkTrackerScreen() {
   const [workEntries, setWorkEntries] = useState<WorkEntry[]>([]);
@@ -41,6 +27,7 @@ export default function WorkTrackerScreen() {
   const [task, setTask] = useState('');
   const [screenshots, setScreenshots] = useState<string[]>([]);
   const { showModal } = useModal();
+  const { workTracker: workTrackerRepository } = useRepositories();
   const insets = useSafeAreaInsets();
   const colorScheme = useAppSelector((state) => state.theme.colorScheme);
   const palette = Colors[colorScheme ?? 'dark'];
@@ -71,17 +58,8 @@ export default function WorkTrackerScreen() {
   const fetchWorkEntries = useCallback(async () => {
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from('work_tracker')
-        .select('*')
-        .eq('year', selectedYear)
-        .eq('month', selectedMonth + 1)
-        .order('date', { ascending: false })
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-
-      setWorkEntries(data || []);
+      const data = await workTrackerRepository.listForMonth(selectedYear, selectedMonth + 1);
+      setWorkEntries(data);
     } catch (error: any) {
       showModal({
         title: 'Error',
@@ -91,7 +69,7 @@ export default function WorkTrackerScreen() {
     } finally {
       setLoading(false);
     }
-  }, [selectedMonth, selectedYear]);
+  }, [selectedMonth, selectedYear, workTrackerRepository]);
 
   useEffect(() => {
     fetchWorkEntries();
@@ -150,21 +128,17 @@ export default function WorkTrackerScreen() {
       setAdding(true);
       const today = new Date();
       const date = selectedMonth === today.getMonth() && selectedYear === today.getFullYear()
-        ? today.toISOString().split('T')[0]
-        : new Date(selectedYear, selectedMonth, 1).toISOString().split('T')[0];
-
-      const { error } = await supabase
-        .from('work_tracker')
-        .insert({
-          project_name: projectName,
-          task: task,
-          screenshots: screenshots,
-          date,
-          month: selectedMonth + 1,
-          year: selectedYear,
-        });
-
-      if (error) throw error;
+        ? toLocalDateString(today)
+        : toLocalDateString(new Date(selectedYear, selectedMonth, 1));
+
+      await workTrackerRepository.add({
+        project_name: projectName,
+        task: task,
+        screenshots: screenshots,
+        date,
+        month: selectedMonth + 1,
+        year: selectedYear,
+      });
 
       showModal({
         title: 'Success',
@@ -216,16 +190,11 @@ export default function WorkTrackerScreen() {
 
     try {
       setUpdating(true);
-      const { error } = await supabase
-        .from('work_tracker')
-        .update({
-          project_name: projectName,
-          task: task,
-          screenshots: screenshots,
-        })
-        .eq('id', editingEntry.id);
-
-      if (error) throw error;
+      await workTrackerRepository.update(editingEntry.id, {
+        project_name: projectName,
+        task: task,
+        screenshots: screenshots,
+      });
 
       showModal({
         title: 'Success',
@@ -254,12 +223,7 @@ export default function WorkTrackerScreen() {
       cancelText: 'Cancel',
       onConfirm: async () => {
         try {
-          const { error } = await supabase
-            .from('work_tracker')
-            .delete()
-            .eq('id', id);
-
-          if (error) throw error;
+          await workTrackerRepository.remove(id);
           fetchWorkEntries();
         } catch (error: any) {
           showModal({
@@ -273,7 +237,7 @@ export default function WorkTrackerScreen() {
   };
 
   const filteredEntries = workEntries.filter(entry => {
-    const entryDate = new Date(entry.date);
+    const entryDate = toLocalDate(entry.date);
     return entryDate.getMonth() === selectedMonth && entryDate.getFullYear() === selectedYear;
   });
 
@@ -283,7 +247,7 @@ export default function WorkTrackerScreen() {
   const currentMonth = new Date().getMonth();
   const currentYear = new Date().getFullYear();
   const today = new Date();
-  const todayDateString = today.toISOString().split('T')[0];
+  const todayDateString = toLocalDateString(today);
   
   const todayEntry = workEntries.find(entry => entry.date === todayDateString);
   const hasTodayEntry = !!todayEntry;
@@ -304,7 +268,7 @@ export default function WorkTrackerScreen() {
             <View>
               <ThemedText style={styles.statsLabel}>This Month</ThemedText>
               <ThemedText style={styles.statsTitle}>
-                {MONTHS[selectedMonth]} {selectedYear}
+                {formatMonthYear(selectedYear, selectedMonth)}
               </ThemedText>
             </View>
           </View>
@@ -448,7 +412,7 @@ export default function WorkTrackerScreen() {
               </View>
               <View>
                 <ThemedText style={styles.listTitle}>
-                  {MONTHS[selectedMonth]} {selectedYear}
+                  {formatMonthYear(selectedYear, selectedMonth)}
                 </ThemedText>
                 <ThemedText style={styles.listSubtitle}>
                   {filteredEntries.length} {filteredEntries.length === 1 ? 'entry' : 'entries'}
@@ -480,11 +444,7 @@ export default function WorkTrackerScreen() {
                       <View style={styles.entryInfo}>
                         <ThemedText style={styles.entryProjectName}>{entry.project_name}</ThemedText>
                         <ThemedText style={styles.entryDate}>
-                          {new Date(entry.date).toLocaleDateString('en-US', {
-                            month: 'short',
-                            day: 'numeric',
-                            year: 'numeric'
-                          })}
+                          {formatLocalDate(entry.date)}
                         </ThemedText>
                       </View>
                     </View>
@@ -10,14 +10,22 @@ import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native
 import { Stack, useRouter, useSegments } from 'expo-router';
 import { SplashScreen } from 'expo-splash-screen';
 import { StatusBar } from 'expo-status-bar';
-import { useEffect } from 'react';
+import { useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
 import 'react-native-reanimated';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 
 import { Provider } from 'react-redux';
+import { LockScreen } from '@/components/lock-screen';
 import { ModalProvider } from '@/components/ui/modal';
 import { Colors } from '@/constants/theme';
+import { AppLockProvider, useAppLock } from '@/contexts/AppLockContext';
 import { AuthProvider, useAuth } from '@/contexts/AuthContext';
+import { CurrencyProvider } from '@/contexts/CurrencyContext';
+import { DataProvider, useRepositories } from '@/contexts/DataContext';
+import { PreferencesProvider } from '@/contexts/PreferencesContext';
+import { usePersistedColorScheme } from '@/hooks/use-persisted-color-scheme';
+import { startAutoSync, syncFor } from '@/lib/data';
 import { store } from '@/store';
 import { useAppSelector } from '@/store/hooks';
 
@@ -31,34 +39,84 @@ export const unstable_settings = {
 };
 
 function RootLayoutNav() {
-  const { isAuthenticated, isLoading } = useAuth();
+  const { session, isLoading, onAuthEvent } = useAuth();
+  const { locked } = useAppLock();
+  const { recurringExpenses } = useRepositories();
   const segments = useSegments();
   const router = useRouter();
+  const segmentsRef = useRef(segments);
+  segmentsRef.current = segments;
 
+  // Replay writes made offline as soon as Supabase is reachable again
+  const userId = session?.user.id;
+  useEffect(() => startAutoSync(syncFor(userId ?? null)), [userId]);
+
+  // Materialize recurring expenses for any cycles missed since the app was last open
+  useEffect(() => {
+    if (!session) return;
+
+    const materialize = () =>
+      recurringExpenses.materializeDue().catch((error) => console.error('Error generating recurring expenses:', error));
+    materialize();
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') materialize();
+    });
+    return () => subscription.remove();
+  }, [session, recurringExpenses]);
+
+  // Follow Supabase auth events: sign-in, sign-out and failed token refreshes
+  useEffect(
+    () =>
+      onAuthEvent((event) => {
+        if (event === 'SIGNED_IN' && segmentsRef.current[0] === 'login') {
+          router.replace('/(tabs)');
+        } else if (event === 'SIGNED_OUT') {
+          router.replace('/login');
+        }
+      }),
+    [onAuthEvent, router]
+  );
+
+  // Guard the initial route once the persisted session has been restored
   useEffect(() => {
     if (isLoading) return;
 
     const inAuthGroup = segments[0] === '(tabs)';
 
-    if (!isAuthenticated && inAuthGroup) {
+    if (!session && inAuthGroup) {
       router.replace('/login');
-    } else if (isAuthenticated && segments[0] === 'login') {
+    } else if (session && segments[0] === 'login') {
       router.replace('/(tabs)');
     }
-  }, [isAuthenticated, isLoading, segments, router]);
+  }, [session, isLoading, segments, router]);
 
   return (
-    <Stack>
-      <Stack.Screen name="login" options={{ headerShown: false }} />
-      <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-      <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
-    </Stack>
+    <>
+      <Stack>
+        <Stack.Screen name="login" options={{ headerShown: false }} />
+        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+        <Stack.Screen name="settings" options={{ title: 'Settings' }} />
+        <Stack.Screen name="categories" options={{ title: 'Categories' }} />
+        <Stack.Screen name="budgets" options={{ title: 'Budgets' }} />
+        <Stack.Screen name="recurring" options={{ title: 'Recurring Expenses' }} />
+        <Stack.Screen name="savings-goals" options={{ title: 'Savings Goals' }} />
+        <Stack.Screen name="accounts" options={{ title: 'Accounts' }} />
+        <Stack.Screen name="exchange-rates" options={{ title: 'Exchange Rates' }} />
+        <Stack.Screen name="import-expenses" options={{ title: 'Import Statement' }} />
+        <Stack.Screen name="export" options={{ title: 'Export Data' }} />
+        <Stack.Screen name="backup" options={{ title: 'Backup & Restore' }} />
+        <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
+      </Stack>
+      {/* Covers the restored session until biometrics or the device passcode succeed */}
+      {locked && <LockScreen />}
+    </>
   );
 }
 
 function RootLayoutContent() {
   const colorScheme = useAppSelector((state) => state.theme.colorScheme);
   const isDark = colorScheme === 'dark';
+  usePersistedColorScheme();
 
   const [fontsLoaded, fontError] = useFonts({
     Poppins_400Regular,
@@ -114,12 +172,20 @@ function RootLayoutContent() {
   return (
     <SafeAreaProvider>
       <AuthProvider>
-        <ThemeProvider value={isDark ? ModernDarkTheme : ModernLightTheme}>
-          <ModalProvider>
-            <RootLayoutNav />
-            <StatusBar style={isDark ? 'light' : 'dark'} animated backgroundColor="transparent" />
-          </ModalProvider>
-        </ThemeProvider>
+        <PreferencesProvider>
+          <DataProvider>
+            <CurrencyProvider>
+              <AppLockProvider>
+                <ThemeProvider value={isDark ? ModernDarkTheme : ModernLightTheme}>
+                  <ModalProvider>
+                    <RootLayoutNav />
+                    <StatusBar style={isDark ? 'light' : 'dark'} animated backgroundColor="transparent" />
+                  </ModalProvider>
+                </ThemeProvider>
+              </AppLockProvider>
+            </CurrencyProvider>
+          </DataProvider>
+        </PreferencesProvider>
       </AuthProvider>
     </SafeAreaProvider>
   );
@@ -0,0 +1,371 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+
+import { CurrencyPicker } from '@/components/currency-picker';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { IconSymbol, type IconSymbolName } from '@/components/ui/icon-symbol';
+import { useModal } from '@/components/ui/modal';
+import { ACCOUNT_COLORS, ACCOUNT_ICONS } from '@/constants/accounts';
+import { Colors, FontFamily, type ThemeColorSet } from '@/constants/theme';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { useRepositories } from '@/contexts/DataContext';
+import type { Account } from '@/lib/data';
+import { useAppSelector } from '@/store/hooks';
+
+export default function AccountsScreen() {
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [icon, setIcon] = useState<IconSymbolName>(ACCOUNT_ICONS[0]);
+  const [color, setColor] = useState(ACCOUNT_COLORS[0]);
+  const { baseCurrency } = useCurrency();
+  const [currency, setCurrency] = useState(baseCurrency);
+  const { showModal } = useModal();
+  const { accounts: accountsRepository } = useRepositories();
+  const colorScheme = useAppSelector((state) => state.theme.colorScheme);
+  const palette = Colors[colorScheme ?? 'dark'];
+  const styles = useMemo(() => createStyles(palette), [palette]);
+
+  const fetchAccounts = useCallback(async () => {
+    try {
+      setLoading(true);
+      setAccounts(await accountsRepository.ensureDefault());
+    } catch (error: any) {
+      showModal({
+        title: 'Error',
+        message: error.message || 'Failed to fetch accounts',
+        type: 'error',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [accountsRepository, showModal]);
+
+  useEffect(() => {
+    fetchAccounts();
+  }, [fetchAccounts]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setIcon(ACCOUNT_ICONS[0]);
+    setColor(ACCOUNT_COLORS[0]);
+    setCurrency(baseCurrency);
+  };
+
+  const startEditing = (account: Account) => {
+    setEditingId(account.id);
+    setName(account.name);
+    setIcon(account.icon as IconSymbolName);
+    setColor(account.color);
+    setCurrency(account.currency);
+  };
+
+  const handleSave = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      showModal({
+        title: 'Error',
+        message: 'Please enter an account name',
+        type: 'error',
+      });
+      return;
+    }
+    if (accounts.some((account) => account.id !== editingId && account.name.toLowerCase() === trimmed.toLowerCase())) {
+      showModal({
+        title: 'Error',
+        message: 'An account with this name already exists',
+        type: 'error',
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      if (editingId) {
+        await accountsRepository.update(editingId, { name: trimmed, icon, color });
+      } else {
+        await accountsRepository.add({ name: trimmed, icon, color, currency });
+      }
+      resetForm();
+      fetchAccounts();
+    } catch (error: any) {
+      showModal({
+        title: 'Error',
+        message: error.message || 'Failed to save account',
+        type: 'error',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = (account: Account) => {
+    showModal({
+      title: 'Delete Account',
+      message: `Delete "${account.name}"? Only accounts that were never used can be deleted.`,
+      type: 'confirm',
+      confirmText: 'Delete',
+      cancelText: 'Cancel',
+      onConfirm: async () => {
+        try {
+          await accountsRepository.remove(account.id);
+          if (editingId === account.id) resetForm();
+          fetchAccounts();
+        } catch (error: any) {
+          showModal({
+            title: 'Error',
+            message: error.message || 'Failed to delete account',
+            type: 'error',
+          });
+        }
+      },
+    });
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Animated.View entering={FadeInDown.duration(400)}>
+        <ThemedView style={styles.card}>
+          <ThemedText style={styles.cardTitle}>{editingId ? 'Edit Account' : 'New Account'}</ThemedText>
+
+          <View style={styles.previewRow}>
+            <View style={[styles.iconBadge, { backgroundColor: color + '20' }]}>
+              <IconSymbol size={22} name={icon} color={color} />
+            </View>
+            <TextInput
+              style={styles.input}
+              value={name}
+              onChangeText={setName}
+              placeholder="Cash, Bank, UPI..."
+              placeholderTextColor={palette.muted}
+            />
+          </View>
+
+          <ThemedText style={styles.fieldLabel}>Icon</ThemedText>
+          <View style={styles.optionGrid}>
+            {ACCOUNT_ICONS.map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.iconOption, icon === option && { borderColor: color, backgroundColor: color + '20' }]}
+                onPress={() => setIcon(option)}>
+                <IconSymbol size={18} name={option} color={icon === option ? color : palette.muted} />
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <ThemedText style={styles.fieldLabel}>Color</ThemedText>
+          <View style={styles.optionGrid}>
+            {ACCOUNT_COLORS.map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.colorOption, { backgroundColor: option }, color === option && styles.colorOptionSelected]}
+                onPress={() => setColor(option)}
+              />
+            ))}
+          </View>
+
+          <ThemedText style={styles.fieldLabel}>
+            Currency{editingId ? ' · fixed once the account exists' : ''}
+          </ThemedText>
+          <View style={styles.currencyRow}>
+            <CurrencyPicker value={currency} onChange={setCurrency} disabled={editingId !== null} />
+          </View>
+
+          <View style={styles.formActions}>
+            {editingId && (
+              <TouchableOpacity style={styles.secondaryButton} onPress={resetForm}>
+                <ThemedText style={styles.secondaryButtonText}>Cancel</ThemedText>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={[styles.primaryButton, saving && styles.buttonDisabled]}
+              disabled={saving}
+              onPress={handleSave}>
+              {saving ? (
+                <ActivityIndicator color="#fff" size="small" />
+              ) : (
+                <ThemedText style={styles.primaryButtonText}>{editingId ? 'Save Changes' : 'Add Account'}</ThemedText>
+              )}
+            </TouchableOpacity>
+          </View>
+        </ThemedView>
+      </Animated.View>
+
+      <Animated.View entering={FadeInDown.delay(100).duration(400)}>
+        <ThemedView style={styles.card}>
+          <ThemedText style={styles.cardTitle}>Your Accounts</ThemedText>
+          {loading ? (
+            <ActivityIndicator color={palette.accent} />
+          ) : (
+            accounts.map((account) => (
+              <View key={account.id} style={styles.accountRow}>
+                <View style={[styles.iconBadge, { backgroundColor: account.color + '20' }]}>
+                  <IconSymbol size={18} name={account.icon as IconSymbolName} color={account.color} />
+                </View>
+                <ThemedText style={styles.accountName}>{account.name}</ThemedText>
+                <ThemedText style={styles.accountCurrency}>{account.currency}</ThemedText>
+                <TouchableOpacity style={styles.rowAction} onPress={() => startEditing(account)}>
+                  <IconSymbol size={16} name="pencil.circle.fill" color={palette.muted} />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.rowAction} onPress={() => handleDelete(account)}>
+                  <IconSymbol size={16} name="trash.fill" color={palette.danger} />
+                </TouchableOpacity>
+              </View>
+            ))
+          )}
+        </ThemedView>
+      </Animated.View>
+    </ScrollView>
+  );
+}
+
+const createStyles = (palette: ThemeColorSet) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: palette.background,
+    },
+    content: {
+      padding: 20,
+      paddingBottom: 40,
+    },
+    card: {
+      borderRadius: 20,
+      borderWidth: 1,
+      borderColor: palette.border,
+      backgroundColor: palette.card,
+      padding: 16,
+      marginBottom: 16,
+    },
+    cardTitle: {
+      fontSize: 17,
+      fontWeight: '600',
+      color: palette.text,
+      marginBottom: 14,
+      fontFamily: FontFamily.semiBold,
+    },
+    previewRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      marginBottom: 16,
+    },
+    iconBadge: {
+      width: 40,
+      height: 40,
+      borderRadius: 12,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    input: {
+      flex: 1,
+      borderRadius: 12,
+      borderWidth: 1.5,
+      borderColor: palette.border,
+      backgroundColor: palette.surface,
+      paddingHorizontal: 14,
+      paddingVertical: 12,
+      fontSize: 15,
+      color: palette.text,
+      fontFamily: FontFamily.regular,
+    },
+    fieldLabel: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: palette.muted,
+      textTransform: 'uppercase',
+      letterSpacing: 0.5,
+      marginBottom: 8,
+      fontFamily: FontFamily.semiBold,
+    },
+    optionGrid: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+      marginBottom: 16,
+    },
+    currencyRow: {
+      marginBottom: 16,
+    },
+    iconOption: {
+      width: 40,
+      height: 40,
+      borderRadius: 10,
+      borderWidth: 1.5,
+      borderColor: palette.border,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    colorOption: {
+      width: 32,
+      height: 32,
+      borderRadius: 16,
+    },
+    colorOptionSelected: {
+      borderWidth: 3,
+      borderColor: palette.text,
+    },
+    formActions: {
+      flexDirection: 'row',
+      gap: 10,
+    },
+    primaryButton: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+      paddingVertical: 14,
+      borderRadius: 12,
+      backgroundColor: palette.accent,
+    },
+    primaryButtonText: {
+      color: '#fff',
+      fontSize: 15,
+      fontWeight: '600',
+      fontFamily: FontFamily.semiBold,
+    },
+    secondaryButton: {
+      alignItems: 'center',
+      justifyContent: 'center',
+      paddingVertical: 14,
+      paddingHorizontal: 18,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: palette.border,
+    },
+    secondaryButtonText: {
+      fontSize: 15,
+      color: palette.text,
+      fontFamily: FontFamily.medium,
+    },
+    buttonDisabled: {
+      opacity: 0.6,
+    },
+    accountRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      paddingVertical: 10,
+      borderBottomWidth: 1,
+      borderBottomColor: palette.border,
+    },
+    accountName: {
+      flex: 1,
+      fontSize: 15,
+      fontWeight: '500',
+      color: palette.text,
+      fontFamily: FontFamily.medium,
+    },
+    accountCurrency: {
+      fontSize: 12,
+      color: palette.muted,
+      fontFamily: FontFamily.medium,
+    },
+    rowAction: {
+      padding: 6,
+    },
+  });
@@ -0,0 +1,462 @@
+import * as DocumentPicker from 'expo-document-picker';
+import { useMemo, useState } from 'react';
+import { ActivityIndicator, Platform, ScrollView, StyleSheet, Switch, TouchableOpacity, View } from 'react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useModal } from '@/components/ui/modal';
+import { Colors, FontFamily, type ThemeColorSet } from '@/constants/theme';
+import { useAppLock } from '@/contexts/AppLockContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { useRepositories } from '@/contexts/DataContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { useSync } from '@/hooks/use-sync-status';
+import {
+  backupFile,
+  createArchive,
+  diffArchive,
+  parseArchive,
+  TABLE_LABELS,
+  type BackupArchive,
+  type TableDiff,
+} from '@/lib/backup';
+import type { RestoreMode } from '@/lib/data';
+import { readPickedText } from '@/lib/picked-file';
+import { shareFile } from '@/lib/share-file';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { setGlobalRingtone } from '@/store/prayerSlice';
+import { setColorScheme } from '@/store/themeSlice';
+
+const RESTORE_MODES: { key: RestoreMode; label: string; hint: string }[] = [
+  {
+    key: 'merge',
+    label: 'Merge',
+    hint: 'Adds what the backup has and this device is missing. Everything here is kept as it is, including rows that differ from the backup.',
+  },
+  {
+    key: 'replace',
+    label: 'Replace',
+    hint: 'Deletes everything in the tables the backup covers, then writes the backup back. Rows not in the backup are lost.',
+  },
+];
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+export default function BackupScreen() {
+  const [creating, setCreating] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [archive, setArchive] = useState<BackupArchive | null>(null);
+  const [diff, setDiff] = useState<TableDiff[]>([]);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [restoreSettings, setRestoreSettings] = useState(true);
+  const { showModal } = useModal();
+  const { backup, prayerReminders } = useRepositories();
+  const sync = useSync();
+  const { refreshRates } = useCurrency();
+  const { preferences, updatePreferences } = usePreferences();
+  const { settings: appLockSettings, updateSettings: updateAppLockSettings } = useAppLock();
+  const dispatch = useAppDispatch();
+  const globalRingtone = useAppSelector((state) => state.prayers.globalRingtone);
+  const colorScheme = useAppSelector((state) => state.theme.colorScheme);
+  const palette = Colors[colorScheme ?? 'dark'];
+  const styles = useMemo(() => createStyles(palette), [palette]);
+
+  const showError = (message: string) => showModal({ title: 'Error', message, type: 'error' });
+
+  const handleCreate = async () => {
+    try {
+      setCreating(true);
+      const tables = await backup.snapshot();
+      const settings = { theme: colorScheme, globalRingtone, preferences, appLock: appLockSettings };
+      await shareFile(backupFile(createArchive(tables, settings)));
+    } catch (error: any) {
+      showError(error.message || 'Failed to create backup');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handlePickFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({ type: 'application/json', copyToCacheDirectory: true });
+      if (result.canceled) return;
+
+      const asset = result.assets[0];
+      const picked = parseArchive(await readPickedText(asset));
+      setDiff(diffArchive(await backup.snapshot(), picked));
+      setFileName(asset.name);
+      setArchive(picked);
+      setRestoreSettings(picked.settings !== null);
+    } catch (error: any) {
+      showError(error.message || 'Failed to read the backup');
+    }
+  };
+
+  const restore = async (picked: BackupArchive) => {
+    try {
+      setRestoring(true);
+      const written = await backup.restore(picked.tables, mode);
+      if (restoreSettings && picked.settings) {
+        const { theme, globalRingtone: ringtone, preferences: restoredPreferences, appLock } = picked.settings;
+        dispatch(setColorScheme(theme));
+        // The prayer tab reloads the global ringtone from the reminders, so it's saved there first
+        if (ringtone) await prayerReminders.setRingtoneForAll(ringtone);
+        dispatch(setGlobalRingtone(ringtone));
+        await updatePreferences(restoredPreferences);
+        await updateAppLockSettings(appLock);
+      }
+      await refreshRates();
+
+      const total = Object.values(written).reduce((sum, count) => sum + (count ?? 0), 0);
+      setArchive(null);
+      setFileName(null);
+      setDiff([]);
+      showModal({
+        title: 'Success',
+        message: `Backup restored. ${plural(total, 'row')} written${restoreSettings && picked.settings ? ', settings included' : ''}.`,
+        type: 'success',
+      });
+    } catch (error: any) {
+      showError(error.message || 'Failed to restore backup');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const handleRestore = () => {
+    if (!archive) return;
+    const replacing = mode === 'replace';
+    // The restore is written to the server directly, so changes still queued here would be sent on top of it
+    if (sync.getStatus().pending > 0) {
+      showError("Some changes on this device haven't synced yet. Sync them first, then restore the backup.");
+      return;
+    }
+    // Budgets and goal targets are kept in the base currency, so the backup's can only take over when a
+    // replace brings both back in it; otherwise the ones here would be read in the wrong currency
+    const restoredBase = restoreSettings ? archive.settings?.preferences.baseCurrency : undefined;
+    const bringsBackAmounts = replacing && archive.tables.budgets && archive.tables.savings_goals;
+    if (restoredBase && restoredBase !== preferences.baseCurrency && !bringsBackAmounts) {
+      showError(
+        `The backup's base currency is ${restoredBase}, not ${preferences.baseCurrency}. Switch to ${restoredBase} in ` +
+          `Settings first${replacing ? '' : ', or restore with Replace'}.`
+      );
+      return;
+    }
+    showModal({
+      title: replacing ? 'Replace Data' : 'Merge Backup',
+      message: replacing
+        ? 'Everything in the tables this backup covers will be deleted and replaced with the backup. This cannot be undone.'
+        : 'Rows from the backup that are missing here will be added. Nothing here will be changed or deleted.',
+      type: 'confirm',
+      confirmText: replacing ? 'Replace' : 'Merge',
+      cancelText: 'Cancel',
+      onConfirm: () => restore(archive),
+    });
+  };
+
+  const renderDiffRow = (row: TableDiff, index: number) => {
+    const notes = [
+      row.added > 0 && `${row.added} new`,
+      row.changed > 0 && `${row.changed} changed`,
+      row.notInBackup > 0 && `${row.notInBackup} only here`,
+    ].filter(Boolean);
+    return (
+      <View key={row.table}>
+        {index > 0 && <View style={styles.divider} />}
+        <View style={styles.diffRow}>
+          <View style={styles.rowText}>
+            <ThemedText style={styles.rowTitle}>{TABLE_LABELS[row.table]}</ThemedText>
+            <ThemedText style={[styles.rowSubtitle, notes.length > 0 && { color: palette.accent }]}>
+              {notes.length > 0 ? notes.join(' · ') : 'Same as here'}
+            </ThemedText>
+          </View>
+          <View style={styles.diffCounts}>
+            <ThemedText style={styles.diffCount}>{row.inBackup}</ThemedText>
+            <ThemedText style={styles.rowSubtitle}>{row.current} here</ThemedText>
+          </View>
+        </View>
+      </View>
+    );
+  };
+
+  const modeHint = RESTORE_MODES.find((option) => option.key === mode)!.hint;
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Animated.View entering={FadeInDown.duration(400)}>
+        <ThemedView style={styles.card}>
+          <ThemedText style={styles.cardTitle}>Create Backup</ThemedText>
+          <ThemedText style={styles.hint}>
+            Every table, plus your theme, ringtone, preferences and app lock, in one file.{' '}
+            {Platform.OS === 'web'
+              ? 'The file is downloaded by your browser.'
+              : 'Save it somewhere off this device from the share sheet.'}{' '}
+            Work screenshots and ringtones are kept as links to the files, not the files themselves.
+          </ThemedText>
+          <TouchableOpacity
+            style={[styles.primaryButton, creating && styles.buttonDisabled]}
+            disabled={creating || restoring}
+            onPress={handleCreate}>
+            {creating ? (
+              <ActivityIndicator color="#fff" size="small" />
+            ) : (
+              <>
+                <IconSymbol size={18} name="externaldrive.fill" color="#fff" />
+                <ThemedText style={styles.primaryButtonText}>Create Backup</ThemedText>
+              </>
+            )}
+          </TouchableOpacity>
+        </ThemedView>
+      </Animated.View>
+
+      <Animated.View entering={FadeInDown.delay(100).duration(400)}>
+        <ThemedView style={styles.card}>
+          <ThemedText style={styles.cardTitle}>Restore</ThemedText>
+          <TouchableOpacity style={styles.secondaryButton} disabled={restoring} onPress={handlePickFile}>
+            <IconSymbol size={18} name="doc.text.fill" color={palette.accent} />
+            <ThemedText style={styles.secondaryButtonText}>
+              {archive ? 'Choose Another File' : 'Choose Backup File'}
+            </ThemedText>
+          </TouchableOpacity>
+
+          {archive && (
+            <>
+              <ThemedText style={styles.fileName}>{fileName}</ThemedText>
+              <ThemedText style={styles.hint}>
+                {archive.created_at
+                  ? `Made ${new Date(archive.created_at).toLocaleString('en-US', {
+                      month: 'short',
+                      day: 'numeric',
+                      year: 'numeric',
+                      hour: 'numeric',
+                      minute: '2-digit',
+                    })}`
+                  : 'Date unknown'}{' '}
+                · schema {archive.schema_version}
+              </ThemedText>
+
+              {diff.length === 0 ? (
+                <ThemedText style={styles.emptyText}>The backup holds no tables.</ThemedText>
+              ) : (
+                diff.map(renderDiffRow)
+              )}
+            </>
+          )}
+        </ThemedView>
+      </Animated.View>
+
+      {archive && (
+        <Animated.View entering={FadeInDown.delay(150).duration(400)}>
+          <ThemedView style={styles.card}>
+            <ThemedText style={styles.fieldLabel}>How to restore</ThemedText>
+            <View style={styles.chipWrap}>
+              {RESTORE_MODES.map((option) => {
+                const selected = option.key === mode;
+                return (
+                  <TouchableOpacity
+                    key={option.key}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    onPress={() => setMode(option.key)}>
+                    <ThemedText style={[styles.chipText, selected && styles.chipTextSelected]}>{option.label}</ThemedText>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <ThemedText style={[styles.hint, mode === 'replace' && { color: palette.warning }]}>{modeHint}</ThemedText>
+
+            <View style={styles.switchRow}>
+              <View style={styles.rowText}>
+                <ThemedText style={styles.rowTitle}>Restore settings</ThemedText>
+                <ThemedText style={styles.rowSubtitle}>
+                  {archive.settings
+                    ? 'Theme, ringtone, preferences and app lock from the backup'
+                    : 'This backup has no settings'}
+                </ThemedText>
+              </View>
+              <Switch
+                value={restoreSettings}
+                disabled={!archive.settings}
+                onValueChange={setRestoreSettings}
+                trackColor={{ false: palette.border, true: palette.accent }}
+              />
+            </View>
+
+            <TouchableOpacity
+              style={[styles.primaryButton, restoring && styles.buttonDisabled]}
+              disabled={restoring || creating}
+              onPress={handleRestore}>
+              {restoring ? (
+                <ActivityIndicator color="#fff" size="small" />
+              ) : (
+                <>
+                  <IconSymbol size={18} name="arrow.counterclockwise" color="#fff" />
+                  <ThemedText style={styles.primaryButtonText}>Restore Backup</ThemedText>
+                </>
+              )}
+            </TouchableOpacity>
+          </ThemedView>
+        </Animated.View>
+      )}
+    </ScrollView>
+  );
+}
+
+const createStyles = (palette: ThemeColorSet) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: palette.background,
+    },
+    content: {
+      padding: 20,
+      paddingBottom: 40,
+    },
+    card: {
+      borderRadius: 20,
+      borderWidth: 1,
+      borderColor: palette.border,
+      backgroundColor: palette.card,
+      padding: 16,
+      marginBottom: 16,
+    },
+    cardTitle: {
+      fontSize: 17,
+      fontWeight: '600',
+      color: palette.text,
+      marginBottom: 10,
+      fontFamily: FontFamily.semiBold,
+    },
+    hint: {
+      fontSize: 12,
+      color: palette.muted,
+      marginBottom: 12,
+      fontFamily: FontFamily.regular,
+    },
+    fieldLabel: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: palette.muted,
+      textTransform: 'uppercase',
+      letterSpacing: 0.5,
+      marginBottom: 8,
+      fontFamily: FontFamily.semiBold,
+    },
+    fileName: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: palette.text,
+      marginBottom: 2,
+      fontFamily: FontFamily.semiBold,
+    },
+    chipWrap: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+      marginBottom: 12,
+    },
+    chip: {
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: palette.border,
+      backgroundColor: palette.surfaceMuted,
+    },
+    chipSelected: {
+      backgroundColor: palette.accent,
+      borderColor: palette.accent,
+    },
+    chipText: {
+      fontSize: 13,
+      color: palette.text,
+      fontFamily: FontFamily.medium,
+    },
+    chipTextSelected: {
+      color: '#fff',
+    },
+    diffRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      paddingVertical: 10,
+    },
+    diffCounts: {
+      alignItems: 'flex-end',
+    },
+    diffCount: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: palette.text,
+      fontFamily: FontFamily.semiBold,
+    },
+    rowText: {
+      flex: 1,
+    },
+    rowTitle: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: palette.text,
+      fontFamily: FontFamily.semiBold,
+    },
+    rowSubtitle: {
+      fontSize: 12,
+      color: palette.muted,
+      fontFamily: FontFamily.regular,
+    },
+    divider: {
+      height: 1,
+      backgroundColor: palette.border,
+    },
+    emptyText: {
+      fontSize: 14,
+      color: palette.muted,
+      textAlign: 'center',
+      paddingVertical: 16,
+      fontFamily: FontFamily.regular,
+    },
+    switchRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+    },
+    secondaryButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 8,
+      paddingVertical: 14,
+      paddingHorizontal: 16,
+      borderRadius: 12,
+      borderWidth: 1.5,
+      borderColor: palette.accent,
+      marginBottom: 12,
+    },
+    secondaryButtonText: {
+      color: palette.accent,
+      fontSize: 15,
+      fontWeight: '600',
+      fontFamily: FontFamily.semiBold,
+    },
+    primaryButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 8,
+      paddingVertical: 14,
+      borderRadius: 12,
+      backgroundColor: palette.accent,
+      marginTop: 16,
+    },
+    primaryButtonText: {
+      color: '#fff',
+      fontSize: 15,
+      fontWeight: '600',
+      fontFamily: FontFamily.semiBold,
+    },
+    buttonDisabled: {
+      opacity: 0.6,
+    },
+  });
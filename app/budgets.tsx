@@ -0,0 +1,284 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+import { useRouter } from 'expo-router';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { IconSymbol, type IconSymbolName } from '@/components/ui/icon-symbol';
+import { useModal } from '@/components/ui/modal';
+import { Colors, FontFamily, type ThemeColorSet } from '@/constants/theme';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { useRepositories } from '@/contexts/DataContext';
+import { requestBudgetAlertPermission } from '@/lib/budgets';
+import type { Budget, ExpenseCategory } from '@/lib/data';
+import { compareMoney, parseMoney } from '@/lib/money';
+import { useAppSelector } from '@/store/hooks';
+
+// Budget inputs are keyed by category id, with this key for the overall budget
+const OVERALL_KEY = 'overall';
+
+export default function BudgetsScreen() {
+  const [categories, setCategories] = useState<ExpenseCategory[]>([]);
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [inputs, setInputs] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const router = useRouter();
+  const { showModal } = useModal();
+  const { budgets: budgetsRepository, expenseCategories: categoriesRepository } = useRepositories();
+  const { baseCurrency } = useCurrency();
+  const colorScheme = useAppSelector((state) => state.theme.colorScheme);
+  const palette = Colors[colorScheme ?? 'dark'];
+  const styles = useMemo(() => createStyles(palette), [palette]);
+
+  const fetchBudgets = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [categoryList, budgetList] = await Promise.all([categoriesRepository.list(), budgetsRepository.list()]);
+      setCategories(categoryList);
+      setBudgets(budgetList);
+      setInputs(
+        Object.fromEntries(
+          budgetList.map((budget) => [budget.category_id ?? OVERALL_KEY, Number(budget.amount).toString()])
+        )
+      );
+    } catch (error: any) {
+      showModal({
+        title: 'Error',
+        message: error.message || 'Failed to fetch budgets',
+        type: 'error',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [budgetsRepository, categoriesRepository, showModal]);
+
+  useEffect(() => {
+    fetchBudgets();
+  }, [fetchBudgets]);
+
+  const handleSave = async () => {
+    const keys = [OVERALL_KEY, ...categories.map((category) => category.id)];
+    const invalid = keys.find((key) => {
+      const value = inputs[key]?.trim();
+      return value && parseMoney(value) === null;
+    });
+    if (invalid) {
+      showModal({
+        title: 'Error',
+        message: 'Budgets must be positive amounts. Leave a field empty for no budget.',
+        type: 'error',
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      for (const key of keys) {
+        const categoryId = key === OVERALL_KEY ? null : key;
+        const value = inputs[key]?.trim();
+        const existing = budgets.find((budget) => budget.category_id === categoryId);
+        if (value) {
+          const amount = parseMoney(value)!;
+          if (!existing || compareMoney(existing.amount, amount) !== 0) {
+            await budgetsRepository.set(categoryId, amount);
+          }
+        } else if (existing) {
+          await budgetsRepository.remove(existing.id);
+        }
+      }
+      if (keys.some((key) => inputs[key]?.trim())) {
+        await requestBudgetAlertPermission();
+      }
+      showModal({
+        title: 'Success',
+        message: 'Budgets saved!',
+        type: 'success',
+        onConfirm: () => router.back(),
+      });
+    } catch (error: any) {
+      showModal({
+        title: 'Error',
+        message: error.message || 'Failed to save budgets',
+        type: 'error',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderBudgetRow = (key: string, label: string, icon: IconSymbolName, color: string) => (
+    <View key={key} style={styles.row}>
+      <View style={[styles.iconBadge, { backgroundColor: color + '20' }]}>
+        <IconSymbol size={18} name={icon} color={color} />
+      </View>
+      <ThemedText style={styles.rowLabel} numberOfLines={1}>
+        {label}
+      </ThemedText>
+      <View style={styles.inputContainer}>
+        <ThemedText style={styles.currency}>{baseCurrency}</ThemedText>
+        <TextInput
+          style={styles.input}
+          value={inputs[key] ?? ''}
+          onChangeText={(value) => setInputs((current) => ({ ...current, [key]: value }))}
+          keyboardType="decimal-pad"
+          placeholder="No limit"
+          placeholderTextColor={palette.muted}
+        />
+      </View>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.loading]}>
+        <ActivityIndicator color={palette.accent} />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Animated.View entering={FadeInDown.duration(400)}>
+        <ThemedText style={styles.sectionTitle}>Overall</ThemedText>
+        <ThemedView style={styles.card}>
+          {renderBudgetRow(OVERALL_KEY, 'All spending', 'dollarsign.circle.fill', palette.accent)}
+        </ThemedView>
+
+        <ThemedText style={styles.sectionTitle}>Per Category</ThemedText>
+        <ThemedView style={styles.card}>
+          {categories.length === 0 ? (
+            <TouchableOpacity onPress={() => router.push('/categories')}>
+              <ThemedText style={styles.emptyText}>Create categories to budget them separately.</ThemedText>
+            </TouchableOpacity>
+          ) : (
+            categories.map((category) =>
+              renderBudgetRow(category.id, category.name, category.icon as IconSymbolName, category.color)
+            )
+          )}
+        </ThemedView>
+
+        <ThemedText style={styles.hint}>
+          You&apos;ll get a notification when spending reaches 80% and 100% of a budget in a month.
+        </ThemedText>
+
+        <TouchableOpacity
+          style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+          disabled={saving}
+          onPress={handleSave}>
+          {saving ? (
+            <ActivityIndicator color="#fff" size="small" />
+          ) : (
+            <ThemedText style={styles.saveButtonText}>Save Budgets</ThemedText>
+          )}
+        </TouchableOpacity>
+      </Animated.View>
+    </ScrollView>
+  );
+}
+
+const createStyles = (palette: ThemeColorSet) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: palette.background,
+    },
+    loading: {
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    content: {
+      padding: 20,
+      paddingBottom: 40,
+    },
+    sectionTitle: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: palette.muted,
+      textTransform: 'uppercase',
+      letterSpacing: 0.5,
+      marginBottom: 8,
+      marginTop: 12,
+      fontFamily: FontFamily.semiBold,
+    },
+    card: {
+      borderRadius: 20,
+      borderWidth: 1,
+      borderColor: palette.border,
+      backgroundColor: palette.card,
+      paddingHorizontal: 16,
+      paddingVertical: 6,
+      marginBottom: 8,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      paddingVertical: 10,
+    },
+    iconBadge: {
+      width: 36,
+      height: 36,
+      borderRadius: 10,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    rowLabel: {
+      flex: 1,
+      fontSize: 15,
+      color: palette.text,
+      fontFamily: FontFamily.medium,
+    },
+    inputContainer: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      width: 130,
+      borderRadius: 10,
+      borderWidth: 1.5,
+      borderColor: palette.border,
+      backgroundColor: palette.surface,
+      paddingHorizontal: 10,
+    },
+    currency: {
+      fontSize: 14,
+      color: palette.muted,
+      fontFamily: FontFamily.medium,
+    },
+    input: {
+      flex: 1,
+      paddingVertical: 8,
+      paddingLeft: 4,
+      fontSize: 15,
+      color: palette.text,
+      fontFamily: FontFamily.semiBold,
+    },
+    emptyText: {
+      fontSize: 14,
+      color: palette.accent,
+      paddingVertical: 12,
+      fontFamily: FontFamily.medium,
+    },
+    hint: {
+      fontSize: 12,
+      color: palette.muted,
+      marginVertical: 12,
+      fontFamily: FontFamily.regular,
+    },
+    saveButton: {
+      alignItems: 'center',
+      justifyContent: 'center',
+      paddingVertical: 16,
+      borderRadius: 12,
+      backgroundColor: palette.accent,
+    },
+    saveButtonDisabled: {
+      opacity: 0.6,
+    },
+    saveButtonText: {
+      color: '#fff',
+      fontSize: 15,
+      fontWeight: '600',
+      fontFamily: FontFamily.semiBold,
+    },
+  });
@@ -0,0 +1,356 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { IconSymbol, type IconSymbolName } from '@/components/ui/icon-symbol';
+import { useModal } from '@/components/ui/modal';
+import { CATEGORY_COLORS, CATEGORY_ICONS } from '@/constants/categories';
+import { Colors, FontFamily, type ThemeColorSet } from '@/constants/theme';
+import { useRepositories } from '@/contexts/DataContext';
+import type { ExpenseCategory } from '@/lib/data';
+import { useAppSelector } from '@/store/hooks';
+
+export default function CategoriesScreen() {
+  const [categories, setCategories] = useState<ExpenseCategory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [icon, setIcon] = useState<IconSymbolName>(CATEGORY_ICONS[0]);
+  const [color, setColor] = useState(CATEGORY_COLORS[0]);
+  const { showModal } = useModal();
+  const { expenseCategories: categoriesRepository } = useRepositories();
+  const colorScheme = useAppSelector((state) => state.theme.colorScheme);
+  const palette = Colors[colorScheme ?? 'dark'];
+  const styles = useMemo(() => createStyles(palette), [palette]);
+
+  const fetchCategories = useCallback(async () => {
+    try {
+      setLoading(true);
+      setCategories(await categoriesRepository.list());
+    } catch (error: any) {
+      showModal({
+        title: 'Error',
+        message: error.message || 'Failed to fetch categories',
+        type: 'error',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [categoriesRepository, showModal]);
+
+  useEffect(() => {
+    fetchCategories();
+  }, [fetchCategories]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setIcon(CATEGORY_ICONS[0]);
+    setColor(CATEGORY_COLORS[0]);
+  };
+
+  const startEditing = (category: ExpenseCategory) => {
+    setEditingId(category.id);
+    setName(category.name);
+    setIcon(category.icon as IconSymbolName);
+    setColor(category.color);
+  };
+
+  const handleSave = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      showModal({
+        title: 'Error',
+        message: 'Please enter a category name',
+        type: 'error',
+      });
+      return;
+    }
+    if (categories.some((category) => category.id !== editingId && category.name.toLowerCase() === trimmed.toLowerCase())) {
+      showModal({
+        title: 'Error',
+        message: 'A category with this name already exists',
+        type: 'error',
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      if (editingId) {
+        await categoriesRepository.update(editingId, { name: trimmed, icon, color });
+      } else {
+        await categoriesRepository.add({ name: trimmed, icon, color });
+      }
+      resetForm();
+      fetchCategories();
+    } catch (error: any) {
+      showModal({
+        title: 'Error',
+        message: error.message || 'Failed to save category',
+        type: 'error',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = (category: ExpenseCategory) => {
+    showModal({
+      title: 'Delete Category',
+      message: `Delete "${category.name}"? Its expenses will become uncategorized.`,
+      type: 'confirm',
+      confirmText: 'Delete',
+      cancelText: 'Cancel',
+      onConfirm: async () => {
+        try {
+          await categoriesRepository.remove(category.id);
+          if (editingId === category.id) resetForm();
+          fetchCategories();
+        } catch (error: any) {
+          showModal({
+            title: 'Error',
+            message: error.message || 'Failed to delete category',
+            type: 'error',
+          });
+        }
+      },
+    });
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Animated.View entering={FadeInDown.duration(400)}>
+        <ThemedView style={styles.card}>
+          <ThemedText style={styles.cardTitle}>{editingId ? 'Edit Category' : 'New Category'}</ThemedText>
+
+          <View style={styles.previewRow}>
+            <View style={[styles.iconBadge, { backgroundColor: color + '20' }]}>
+              <IconSymbol size={22} name={icon} color={color} />
+            </View>
+            <TextInput
+              style={styles.input}
+              value={name}
+              onChangeText={setName}
+              placeholder="Groceries, Transport..."
+              placeholderTextColor={palette.muted}
+            />
+          </View>
+
+          <ThemedText style={styles.fieldLabel}>Icon</ThemedText>
+          <View style={styles.optionGrid}>
+            {CATEGORY_ICONS.map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.iconOption, icon === option && { borderColor: color, backgroundColor: color + '20' }]}
+                onPress={() => setIcon(option)}>
+                <IconSymbol size={18} name={option} color={icon === option ? color : palette.muted} />
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <ThemedText style={styles.fieldLabel}>Color</ThemedText>
+          <View style={styles.optionGrid}>
+            {CATEGORY_COLORS.map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.colorOption, { backgroundColor: option }, color === option && styles.colorOptionSelected]}
+                onPress={() => setColor(option)}
+              />
+            ))}
+          </View>
+
+          <View style={styles.formActions}>
+            {editingId && (
+              <TouchableOpacity style={styles.secondaryButton} onPress={resetForm}>
+                <ThemedText style={styles.secondaryButtonText}>Cancel</ThemedText>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={[styles.primaryButton, saving && styles.buttonDisabled]}
+              disabled={saving}
+              onPress={handleSave}>
+              {saving ? (
+                <ActivityIndicator color="#fff" size="small" />
+              ) : (
+                <ThemedText style={styles.primaryButtonText}>{editingId ? 'Save Changes' : 'Add Category'}</ThemedText>
+              )}
+            </TouchableOpacity>
+          </View>
+        </ThemedView>
+      </Animated.View>
+
+      <Animated.View entering={FadeInDown.delay(100).duration(400)}>
+        <ThemedView style={styles.card}>
+          <ThemedText style={styles.cardTitle}>Your Categories</ThemedText>
+          {loading ? (
+            <ActivityIndicator color={palette.accent} />
+          ) : categories.length === 0 ? (
+            <ThemedText style={styles.emptyText}>No categories yet. Create one above.</ThemedText>
+          ) : (
+            categories.map((category) => (
+              <View key={category.id} style={styles.categoryRow}>
+                <View style={[styles.iconBadge, { backgroundColor: category.color + '20' }]}>
+                  <IconSymbol size={18} name={category.icon as IconSymbolName} color={category.color} />
+                </View>
+                <ThemedText style={styles.categoryName}>{category.name}</ThemedText>
+                <TouchableOpacity style={styles.rowAction} onPress={() => startEditing(category)}>
+                  <IconSymbol size={16} name="pencil.circle.fill" color={palette.muted} />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.rowAction} onPress={() => handleDelete(category)}>
+                  <IconSymbol size={16} name="trash.fill" color={palette.danger} />
+                </TouchableOpacity>
+              </View>
+            ))
+          )}
+        </ThemedView>
+      </Animated.View>
+    </ScrollView>
+  );
+}
+
+const createStyles = (palette: ThemeColorSet) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: palette.background,
+    },
+    content: {
+      padding: 20,
+      paddingBottom: 40,
+    },
+    card: {
+      borderRadius: 20,
+      borderWidth: 1,
+      borderColor: palette.border,
+      backgroundColor: palette.card,
+      padding: 16,
+      marginBottom: 16,
+    },
+    cardTitle: {
+      fontSize: 17,
+      fontWeight: '600',
+      color: palette.text,
+      marginBottom: 14,
+      fontFamily: FontFamily.semiBold,
+    },
+    previewRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      marginBottom: 16,
+    },
+    iconBadge: {
+      width: 40,
+      height: 40,
+      borderRadius: 12,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    input: {
+      flex: 1,
+      borderRadius: 12,
+      borderWidth: 1.5,
+      borderColor: palette.border,
+      backgroundColor: palette.surface,
+      paddingHorizontal: 14,
+      paddingVertical: 12,
+      fontSize: 15,
+      color: palette.text,
+      fontFamily: FontFamily.regular,
+    },
+    fieldLabel: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: palette.muted,
+      textTransform: 'uppercase',
+      letterSpacing: 0.5,
+      marginBottom: 8,
+      fontFamily: FontFamily.semiBold,
+    },
+    optionGrid: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+      marginBottom: 16,
+    },
+    iconOption: {
+      width: 40,
+      height: 40,
+      borderRadius: 10,
+      borderWidth: 1.5,
+      borderColor: palette.border,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    colorOption: {
+      width: 32,
+      height: 32,
+      borderRadius: 16,
+    },
+    colorOptionSelected: {
+      borderWidth: 3,
+      borderColor: palette.text,
+    },
+    formActions: {
+      flexDirection: 'row',
+      gap: 10,
+    },
+    primaryButton: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+      paddingVertical: 14,
+      borderRadius: 12,
+      backgroundColor: palette.accent,
+    },
+    primaryButtonText: {
+      color: '#fff',
+      fontSize: 15,
+      fontWeight: '600',
+      fontFamily: FontFamily.semiBold,
+    },
+    secondaryButton: {
+      alignItems: 'center',
+      justifyContent: 'center',
+      paddingVertical: 14,
+      paddingHorizontal: 18,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: palette.border,
+    },
+    secondaryButtonText: {
+      fontSize: 15,
+      color: palette.text,
+      fontFamily: FontFamily.medium,
+    },
+    buttonDisabled: {
+      opacity: 0.6,
+    },
+    emptyText: {
+      fontSize: 14,
+      color: palette.muted,
+      fontFamily: FontFamily.regular,
+    },
+    categoryRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      paddingVertical: 10,
+      borderBottomWidth: 1,
+      borderBottomColor: palette.border,
+    },
+    categoryName: {
+      flex: 1,
+      fontSize: 15,
+      fontWeight: '500',
+      color: palette.text,
+      fontFamily: FontFamily.medium,
+    },
+    rowAction: {
+      padding: 6,
+    },
+  });
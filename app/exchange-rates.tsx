@@ -0,0 +1,282 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+
+import { CurrencyPicker } from '@/components/currency-picker';
+import { DateField } from '@/components/date-field';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useModal } from '@/components/ui/modal';
+import { Colors, FontFamily, type ThemeColorSet } from '@/constants/theme';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { useRepositories } from '@/contexts/DataContext';
+import { CURRENCIES } from '@/lib/currency';
+import type { ExchangeRate } from '@/lib/data';
+import { formatLocalDate, normalizeLocalDate, toLocalDateString } from '@/lib/local-date';
+import { useAppSelector } from '@/store/hooks';
+
+export default function ExchangeRatesScreen() {
+  const { baseCurrency, rates, refreshRates } = useCurrency();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [fromCurrency, setFromCurrency] = useState(
+    () => CURRENCIES.find((currency) => currency !== baseCurrency) ?? baseCurrency
+  );
+  const [toCurrency, setToCurrency] = useState(baseCurrency);
+  const [rateInput, setRateInput] = useState('');
+  const [effectiveDate, setEffectiveDate] = useState(() => toLocalDateString(new Date()));
+  const { showModal } = useModal();
+  const { exchangeRates: ratesRepository } = useRepositories();
+  const colorScheme = useAppSelector((state) => state.theme.colorScheme);
+  const palette = Colors[colorScheme ?? 'dark'];
+  const styles = useMemo(() => createStyles(palette), [palette]);
+
+  useEffect(() => {
+    refreshRates().finally(() => setLoading(false));
+  }, [refreshRates]);
+
+  const showError = (message: string) => showModal({ title: 'Error', message, type: 'error' });
+
+  const handleSave = async () => {
+    const rate = parseFloat(rateInput);
+    const normalizedDate = normalizeLocalDate(effectiveDate);
+    if (fromCurrency === toCurrency) return showError('Pick two different currencies');
+    if (isNaN(rate) || rate <= 0) return showError('Please enter a valid rate');
+    if (!normalizedDate) return showError('Please enter a valid date (YYYY-MM-DD)');
+
+    try {
+      setSaving(true);
+      await ratesRepository.set({
+        from_currency: fromCurrency,
+        to_currency: toCurrency,
+        rate,
+        effective_date: normalizedDate,
+      });
+      setRateInput('');
+      await refreshRates();
+    } catch (error: any) {
+      showError(error.message || 'Failed to save rate');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = (rate: ExchangeRate) => {
+    showModal({
+      title: 'Delete Rate',
+      message: `Delete the ${rate.from_currency} → ${rate.to_currency} rate from ${formatLocalDate(rate.effective_date)}? Amounts it applied to fall back to the nearest other rate.`,
+      type: 'confirm',
+      confirmText: 'Delete',
+      cancelText: 'Cancel',
+      onConfirm: async () => {
+        try {
+          await ratesRepository.remove(rate.id);
+          await refreshRates();
+        } catch (error: any) {
+          showError(error.message || 'Failed to delete rate');
+        }
+      },
+    });
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Animated.View entering={FadeInDown.duration(400)}>
+        <ThemedView style={styles.card}>
+          <ThemedText style={styles.cardTitle}>New Rate</ThemedText>
+
+          <ThemedText style={styles.fieldLabel}>From</ThemedText>
+          <View style={styles.pickerRow}>
+            <CurrencyPicker value={fromCurrency} onChange={setFromCurrency} />
+          </View>
+
+          <ThemedText style={styles.fieldLabel}>To</ThemedText>
+          <View style={styles.pickerRow}>
+            <CurrencyPicker value={toCurrency} onChange={setToCurrency} />
+          </View>
+
+          <View style={styles.inputRow}>
+            <View style={styles.inputHalf}>
+              <ThemedText style={styles.fieldLabel}>
+                1 {fromCurrency} in {toCurrency} *
+              </ThemedText>
+              <TextInput
+                style={styles.input}
+                value={rateInput}
+                onChangeText={setRateInput}
+                keyboardType="decimal-pad"
+                placeholder="83.25"
+                placeholderTextColor={palette.muted}
+              />
+            </View>
+            <View style={styles.inputHalf}>
+              <ThemedText style={styles.fieldLabel}>Effective from *</ThemedText>
+              <DateField value={effectiveDate} onChange={setEffectiveDate} />
+            </View>
+          </View>
+
+          <TouchableOpacity
+            style={[styles.primaryButton, saving && styles.buttonDisabled]}
+            disabled={saving}
+            onPress={handleSave}>
+            {saving ? (
+              <ActivityIndicator color="#fff" size="small" />
+            ) : (
+              <ThemedText style={styles.primaryButtonText}>Save Rate</ThemedText>
+            )}
+          </TouchableOpacity>
+        </ThemedView>
+      </Animated.View>
+
+      <Animated.View entering={FadeInDown.delay(100).duration(400)}>
+        <ThemedView style={styles.card}>
+          <ThemedText style={styles.cardTitle}>Your Rates</ThemedText>
+          <ThemedText style={styles.hint}>
+            Amounts are converted to {baseCurrency} at the latest rate on or before their date, either way
+            round. Amounts in currencies without any rate to {baseCurrency} are left out of totals.
+          </ThemedText>
+          {loading ? (
+            <ActivityIndicator color={palette.accent} />
+          ) : rates.length === 0 ? (
+            <ThemedText style={styles.emptyText}>No rates yet. Add one above.</ThemedText>
+          ) : (
+            rates.map((rate) => (
+              <View key={rate.id} style={styles.rateRow}>
+                <View style={[styles.iconBadge, { backgroundColor: palette.accent + '20' }]}>
+                  <IconSymbol size={18} name="arrow.left.arrow.right" color={palette.accent} />
+                </View>
+                <View style={styles.rateInfo}>
+                  <ThemedText style={styles.rateValue}>
+                    1 {rate.from_currency} = {Number(rate.rate)} {rate.to_currency}
+                  </ThemedText>
+                  <ThemedText style={styles.rateMeta}>From {formatLocalDate(rate.effective_date)}</ThemedText>
+                </View>
+                <TouchableOpacity style={styles.rowAction} onPress={() => handleDelete(rate)}>
+                  <IconSymbol size={16} name="trash.fill" color={palette.danger} />
+                </TouchableOpacity>
+              </View>
+            ))
+          )}
+        </ThemedView>
+      </Animated.View>
+    </ScrollView>
+  );
+}
+
+const createStyles = (palette: ThemeColorSet) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: palette.background,
+    },
+    content: {
+      padding: 20,
+      paddingBottom: 40,
+    },
+    card: {
+      borderRadius: 20,
+      borderWidth: 1,
+      borderColor: palette.border,
+      backgroundColor: palette.card,
+      padding: 16,
+      marginBottom: 16,
+    },
+    cardTitle: {
+      fontSize: 17,
+      fontWeight: '600',
+      color: palette.text,
+      marginBottom: 14,
+      fontFamily: FontFamily.semiBold,
+    },
+    fieldLabel: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: palette.muted,
+      textTransform: 'uppercase',
+      letterSpacing: 0.5,
+      marginBottom: 8,
+      fontFamily: FontFamily.semiBold,
+    },
+    pickerRow: {
+      marginBottom: 16,
+    },
+    input: {
+      borderRadius: 12,
+      borderWidth: 1.5,
+      borderColor: palette.border,
+      backgroundColor: palette.surface,
+      paddingHorizontal: 14,
+      paddingVertical: 12,
+      fontSize: 15,
+      color: palette.text,
+      marginBottom: 16,
+      fontFamily: FontFamily.regular,
+    },
+    inputRow: {
+      flexDirection: 'row',
+      gap: 12,
+    },
+    inputHalf: {
+      flex: 1,
+    },
+    primaryButton: {
+      alignItems: 'center',
+      justifyContent: 'center',
+      paddingVertical: 14,
+      borderRadius: 12,
+      backgroundColor: palette.accent,
+    },
+    primaryButtonText: {
+      color: '#fff',
+      fontSize: 15,
+      fontWeight: '600',
+      fontFamily: FontFamily.semiBold,
+    },
+    buttonDisabled: {
+      opacity: 0.6,
+    },
+    hint: {
+      fontSize: 12,
+      color: palette.muted,
+      marginBottom: 12,
+      fontFamily: FontFamily.regular,
+    },
+    emptyText: {
+      fontSize: 14,
+      color: palette.muted,
+      textAlign: 'center',
+      paddingVertical: 16,
+      fontFamily: FontFamily.regular,
+    },
+    rateRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      paddingVertical: 10,
+    },
+    iconBadge: {
+      width: 40,
+      height: 40,
+      borderRadius: 12,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    rateInfo: {
+      flex: 1,
+    },
+    rateValue: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: palette.text,
+      fontFamily: FontFamily.semiBold,
+    },
+    rateMeta: {
+      fontSize: 12,
+      color: palette.muted,
+      fontFamily: FontFamily.regular,
+    },
+    rowAction: {
+      padding: 6,
+    },
+  });
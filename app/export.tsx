@@ -0,0 +1,171 @@
+import { useMemo, useState } from 'react';
+import { ActivityIndicator, Platform, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { IconSymbol, type IconSymbolName } from '@/components/ui/icon-symbol';
+import { useModal } from '@/components/ui/modal';
+import { Colors, FontFamily, type ThemeColorSet } from '@/constants/theme';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { useRepositories } from '@/contexts/DataContext';
+import { collectExport, EXPORT_DATASETS, exportFile, type ExportDataset } from '@/lib/export';
+import { shareFile } from '@/lib/share-file';
+import { useAppSelector } from '@/store/hooks';
+
+type ExportFormat = ExportDataset | 'json';
+
+const DATASET_ICONS: Record<ExportDataset, IconSymbolName> = {
+  expenses: 'cart.fill',
+  savings: 'banknote.fill',
+  balance_history: 'clock.arrow.circlepath',
+  work_entries: 'briefcase.fill',
+  prayer_settings: 'moon.stars.fill',
+};
+
+export default function ExportScreen() {
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const { showModal } = useModal();
+  const repositories = useRepositories();
+  const { baseCurrency } = useCurrency();
+  const colorScheme = useAppSelector((state) => state.theme.colorScheme);
+  const palette = Colors[colorScheme ?? 'dark'];
+  const styles = useMemo(() => createStyles(palette), [palette]);
+
+  // Read fresh each time, so the file reflects anything recorded since the screen opened
+  const handleExport = async (format: ExportFormat) => {
+    try {
+      setExporting(format);
+      const bundle = await collectExport(repositories, baseCurrency);
+      await shareFile(exportFile(bundle, format));
+    } catch (error: any) {
+      showModal({
+        title: 'Error',
+        message: error.message || 'Failed to export data',
+        type: 'error',
+      });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const renderRow = (format: ExportFormat, icon: IconSymbolName, title: string, subtitle: string) => (
+    <TouchableOpacity
+      key={format}
+      style={styles.row}
+      disabled={exporting !== null}
+      onPress={() => handleExport(format)}>
+      <View style={[styles.iconBadge, { backgroundColor: palette.accent + '20' }]}>
+        <IconSymbol size={18} name={icon} color={palette.accent} />
+      </View>
+      <View style={styles.rowText}>
+        <ThemedText style={styles.rowTitle}>{title}</ThemedText>
+        <ThemedText style={styles.rowSubtitle}>{subtitle}</ThemedText>
+      </View>
+      {exporting === format ? (
+        <ActivityIndicator color={palette.accent} size="small" />
+      ) : (
+        <IconSymbol size={18} name="square.and.arrow.up" color={exporting ? palette.muted : palette.accent} />
+      )}
+    </TouchableOpacity>
+  );
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Animated.View entering={FadeInDown.duration(400)}>
+        <ThemedText style={styles.hint}>
+          {Platform.OS === 'web'
+            ? 'Files are downloaded by your browser.'
+            : 'Files open in the share sheet, so you can save them or send them to another app.'}{' '}
+          Amounts are in the currency they were recorded in.
+        </ThemedText>
+
+        <ThemedView style={styles.card}>
+          <ThemedText style={styles.cardTitle}>Everything</ThemedText>
+          {renderRow(
+            'json',
+            'curlybraces',
+            'JSON bundle',
+            'All of the data below in one versioned file, with accounts and categories'
+          )}
+        </ThemedView>
+      </Animated.View>
+
+      <Animated.View entering={FadeInDown.delay(100).duration(400)}>
+        <ThemedView style={styles.card}>
+          <ThemedText style={styles.cardTitle}>Spreadsheets (CSV)</ThemedText>
+          {EXPORT_DATASETS.map(({ key, label }, index) => (
+            <View key={key}>
+              {index > 0 && <View style={styles.divider} />}
+              {renderRow(key, DATASET_ICONS[key], label, `${label} as a CSV file`)}
+            </View>
+          ))}
+        </ThemedView>
+      </Animated.View>
+    </ScrollView>
+  );
+}
+
+const createStyles = (palette: ThemeColorSet) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: palette.background,
+    },
+    content: {
+      padding: 20,
+      paddingBottom: 40,
+    },
+    hint: {
+      fontSize: 13,
+      color: palette.muted,
+      marginBottom: 16,
+      fontFamily: FontFamily.regular,
+    },
+    card: {
+      borderRadius: 20,
+      borderWidth: 1,
+      borderColor: palette.border,
+      backgroundColor: palette.card,
+      padding: 16,
+      marginBottom: 16,
+    },
+    cardTitle: {
+      fontSize: 17,
+      fontWeight: '600',
+      color: palette.text,
+      marginBottom: 8,
+      fontFamily: FontFamily.semiBold,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      paddingVertical: 10,
+    },
+    iconBadge: {
+      width: 40,
+      height: 40,
+      borderRadius: 12,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    rowText: {
+      flex: 1,
+    },
+    rowTitle: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: palette.text,
+      fontFamily: FontFamily.semiBold,
+    },
+    rowSubtitle: {
+      fontSize: 12,
+      color: palette.muted,
+      fontFamily: FontFamily.regular,
+    },
+    divider: {
+      height: 1,
+      backgroundColor: palette.border,
+    },
+  });
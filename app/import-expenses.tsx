@@ -0,0 +1,680 @@
+import * as DocumentPicker from 'expo-document-picker';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { IconSymbol, type IconSymbolName } from '@/components/ui/icon-symbol';
+import { useModal } from '@/components/ui/modal';
+import { Colors, FontFamily, type ThemeColorSet } from '@/constants/theme';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { useRepositories } from '@/contexts/DataContext';
+import type { Account, Expense, ExpenseInput, StatementMapping } from '@/lib/data';
+import { formatLocalDate } from '@/lib/local-date';
+import { readPickedText } from '@/lib/picked-file';
+import {
+  applyMapping,
+  DATE_ORDERS,
+  findDuplicates,
+  guessMapping,
+  missingColumns,
+  readStatement,
+  type ColumnMapping,
+  type StatementTable,
+} from '@/lib/statement-import';
+import { useAppSelector } from '@/store/hooks';
+
+// Android reports CSV files under several MIME types depending on the app that saved them
+const STATEMENT_TYPES = ['text/csv', 'text/comma-separated-values', 'text/plain', 'application/vnd.ms-excel'];
+
+export default function ImportExpensesScreen() {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [table, setTable] = useState<StatementTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [bankName, setBankName] = useState('');
+  const [savedMappings, setSavedMappings] = useState<StatementMapping[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [accountId, setAccountId] = useState<string | null>(null);
+  const [debitBalance, setDebitBalance] = useState(false);
+  const [existing, setExisting] = useState<Expense[]>([]);
+  // Rows the user ticked or unticked, over the default of importing everything that isn't a duplicate
+  const [overrides, setOverrides] = useState<Record<number, boolean>>({});
+  const [failures, setFailures] = useState<Record<number, string>>({});
+  const [importing, setImporting] = useState(false);
+  const { showModal } = useModal();
+  const { format } = useCurrency();
+  const {
+    accounts: accountsRepository,
+    expenses: expensesRepository,
+    statementMappings: mappingsRepository,
+  } = useRepositories();
+  const colorScheme = useAppSelector((state) => state.theme.colorScheme);
+  const palette = Colors[colorScheme ?? 'dark'];
+  const styles = useMemo(() => createStyles(palette), [palette]);
+
+  const showError = (message: string) => showModal({ title: 'Error', message, type: 'error' });
+
+  const fetchMappings = useCallback(async () => {
+    try {
+      setSavedMappings(await mappingsRepository.list());
+    } catch (error) {
+      console.error('Error loading statement mappings:', error);
+    }
+  }, [mappingsRepository]);
+
+  const fetchAccounts = useCallback(async () => {
+    try {
+      const list = await accountsRepository.ensureDefault();
+      setAccounts(list);
+      setAccountId((current) => current ?? list[0]?.id ?? null);
+    } catch (error) {
+      console.error('Error loading accounts:', error);
+    }
+  }, [accountsRepository]);
+
+  useEffect(() => {
+    fetchMappings();
+    fetchAccounts();
+  }, [fetchMappings, fetchAccounts]);
+
+  const account = accounts.find((candidate) => candidate.id === accountId) ?? null;
+  const currency = account?.currency ?? null;
+
+  const missing = useMemo(() => (table && mapping ? missingColumns(table, mapping) : []), [table, mapping]);
+  const rows = useMemo(
+    () => (table && mapping && missing.length === 0 ? applyMapping(table, mapping) : []),
+    [table, mapping, missing]
+  );
+  const duplicates = useMemo(
+    () => (currency ? findDuplicates(rows, existing, currency) : new Set<number>()),
+    [rows, existing, currency]
+  );
+
+  // Only the statement's own date range is compared against
+  const fetchExisting = useCallback(async () => {
+    const dates = rows.flatMap((row) => (row.date ? [row.date] : [])).sort();
+    if (dates.length === 0) {
+      setExisting([]);
+      return;
+    }
+    try {
+      setExisting(await expensesRepository.listBetween(dates[0], dates[dates.length - 1]));
+    } catch (error) {
+      console.error('Error loading expenses:', error);
+    }
+  }, [rows, expensesRepository]);
+
+  useEffect(() => {
+    fetchExisting();
+  }, [fetchExisting]);
+
+  const isIncluded = (row: (typeof rows)[number]) =>
+    !row.error && (overrides[row.number] ?? !duplicates.has(row.number));
+  const selectedRows = rows.filter(isIncluded);
+
+  const handlePickFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({ type: STATEMENT_TYPES, copyToCacheDirectory: true });
+      if (result.canceled) return;
+
+      const asset = result.assets[0];
+      const statement = readStatement(await readPickedText(asset));
+      if (!statement) return showError("That file doesn't look like a CSV statement");
+
+      setFileName(asset.name);
+      setTable(statement);
+      setOverrides({});
+      setFailures({});
+      // A saved mapping whose columns are all there is most likely the same bank's format
+      const known = savedMappings.find((saved) => missingColumns(statement, saved).length === 0);
+      if (known) {
+        selectMapping(known);
+      } else {
+        setMapping(guessMapping(statement.headers));
+      }
+    } catch (error: any) {
+      showError(error.message || 'Failed to read the file');
+    }
+  };
+
+  const selectMapping = (saved: StatementMapping) => {
+    setBankName(saved.bank_name);
+    setMapping({
+      date_column: saved.date_column,
+      date_order: saved.date_order,
+      description_column: saved.description_column,
+      amount_column: saved.amount_column,
+      debit_column: saved.debit_column,
+      expenses_negative: saved.expenses_negative,
+    });
+  };
+
+  const handleForgetMapping = (saved: StatementMapping) => {
+    showModal({
+      title: 'Forget Mapping',
+      message: `Forget the column mapping saved for ${saved.bank_name}?`,
+      type: 'confirm',
+      confirmText: 'Forget',
+      cancelText: 'Cancel',
+      onConfirm: async () => {
+        try {
+          await mappingsRepository.remove(saved.id);
+          fetchMappings();
+        } catch (error: any) {
+          showError(error.message || 'Failed to forget mapping');
+        }
+      },
+    });
+  };
+
+  const updateMapping = (changes: Partial<ColumnMapping>) => {
+    setMapping((current) => (current ? { ...current, ...changes } : current));
+    setOverrides({});
+    setFailures({});
+  };
+
+  const handleImport = async () => {
+    if (!mapping || !account) return;
+    if (!bankName.trim()) return showError('Please enter the bank name, so the mapping can be saved for next time');
+    if (selectedRows.length === 0) return showError('Select at least one row to import');
+
+    try {
+      setImporting(true);
+      await mappingsRepository.save({ bank_name: bankName.trim(), ...mapping });
+      fetchMappings();
+
+      const inputs: ExpenseInput[] = selectedRows.map((row) => ({
+        name: row.name,
+        amount: row.amount!,
+        currency: account.currency,
+        type: 'daily',
+        date: row.date!,
+        category_id: null,
+        tags: ['imported'],
+        account_id: account.id,
+      }));
+      const { added, failed } = await expensesRepository.addMany(inputs, { debitBalance });
+
+      setFailures(Object.fromEntries(failed.map(({ index, message }) => [selectedRows[index].number, message])));
+      // Imported rows now match recorded expenses, so they show as duplicates if imported again
+      setOverrides({});
+      await fetchExisting();
+
+      showModal({
+        title: failed.length > 0 ? 'Partly Imported' : 'Success',
+        message:
+          failed.length > 0
+            ? `Imported ${added.length} of ${inputs.length} expenses. The rows that failed are marked below.`
+            : `Imported ${added.length} ${added.length === 1 ? 'expense' : 'expenses'}!`,
+        type: failed.length > 0 ? 'error' : 'success',
+      });
+    } catch (error: any) {
+      showError(error.message || 'Failed to import expenses');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const renderColumnChips = (value: string | null, onSelect: (column: string) => void) => (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+      {table?.headers.map((header) => {
+        const selected = header === value;
+        return (
+          <TouchableOpacity
+            key={header}
+            style={[styles.chip, selected && styles.chipSelected]}
+            onPress={() => onSelect(header)}>
+            <ThemedText style={[styles.chipText, selected && styles.chipTextSelected]}>{header}</ThemedText>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+
+  const renderOptionChips = <T extends string>(
+    options: { key: T; label: string }[],
+    value: T,
+    onSelect: (key: T) => void
+  ) => (
+    <View style={styles.chipWrap}>
+      {options.map((option) => {
+        const selected = option.key === value;
+        return (
+          <TouchableOpacity
+            key={option.key}
+            style={[styles.chip, selected && styles.chipSelected]}
+            onPress={() => onSelect(option.key)}>
+            <ThemedText style={[styles.chipText, selected && styles.chipTextSelected]}>{option.label}</ThemedText>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const duplicateCount = rows.filter((row) => duplicates.has(row.number)).length;
+  const errorCount = rows.filter((row) => row.error).length;
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Animated.View entering={FadeInDown.duration(400)}>
+        <ThemedView style={styles.card}>
+          <ThemedText style={styles.cardTitle}>Statement</ThemedText>
+          <ThemedText style={styles.hint}>
+            Pick a CSV export from your bank or UPI app. Withdrawals are imported as daily expenses; deposits are
+            skipped.
+          </ThemedText>
+          <TouchableOpacity style={styles.secondaryButton} onPress={handlePickFile}>
+            <IconSymbol size={18} name="doc.text.fill" color={palette.accent} />
+            <ThemedText style={styles.secondaryButtonText} numberOfLines={1}>
+              {fileName ?? 'Choose CSV file'}
+            </ThemedText>
+          </TouchableOpacity>
+          {table && (
+            <ThemedText style={styles.hint}>
+              {table.rows.length} {table.rows.length === 1 ? 'row' : 'rows'} · {table.headers.length} columns
+            </ThemedText>
+          )}
+        </ThemedView>
+      </Animated.View>
+
+      {table && mapping && (
+        <Animated.View entering={FadeInDown.delay(100).duration(400)}>
+          <ThemedView style={styles.card}>
+            <ThemedText style={styles.cardTitle}>Columns</ThemedText>
+
+            {savedMappings.length > 0 && (
+              <>
+                <ThemedText style={styles.fieldLabel}>Saved banks</ThemedText>
+                <View style={styles.chipWrap}>
+                  {savedMappings.map((saved) => {
+                    const selected = saved.bank_name === bankName.trim();
+                    return (
+                      <TouchableOpacity
+                        key={saved.id}
+                        style={[styles.chip, selected && styles.chipSelected]}
+                        onPress={() => selectMapping(saved)}
+                        onLongPress={() => handleForgetMapping(saved)}>
+                        <ThemedText style={[styles.chipText, selected && styles.chipTextSelected]}>
+                          {saved.bank_name}
+                        </ThemedText>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+                <ThemedText style={styles.hint}>Long-press a bank to forget its mapping.</ThemedText>
+              </>
+            )}
+
+            <ThemedText style={styles.fieldLabel}>Bank *</ThemedText>
+            <TextInput
+              style={styles.input}
+              value={bankName}
+              onChangeText={setBankName}
+              placeholder="e.g. HDFC Savings"
+              placeholderTextColor={palette.muted}
+            />
+
+            {missing.length > 0 && (
+              <ThemedText style={styles.warningText}>
+                This statement has no {missing.map((column) => `"${column}"`).join(', ')} column. Pick the columns
+                again below.
+              </ThemedText>
+            )}
+
+            <ThemedText style={styles.fieldLabel}>Date</ThemedText>
+            {renderColumnChips(mapping.date_column, (date_column) => updateMapping({ date_column }))}
+            {renderOptionChips(DATE_ORDERS, mapping.date_order, (date_order) => updateMapping({ date_order }))}
+
+            <ThemedText style={styles.fieldLabel}>Description</ThemedText>
+            {renderColumnChips(mapping.description_column, (description_column) =>
+              updateMapping({ description_column })
+            )}
+
+            <ThemedText style={styles.fieldLabel}>Amount</ThemedText>
+            {renderOptionChips(
+              [
+                { key: 'debit', label: 'Withdrawal column' },
+                { key: 'signed', label: 'Signed amount' },
+              ],
+              mapping.debit_column !== null ? 'debit' : 'signed',
+              (kind) => {
+                const column = mapping.debit_column ?? mapping.amount_column;
+                updateMapping(
+                  kind === 'debit'
+                    ? { debit_column: column ?? table.headers[0], amount_column: null }
+                    : { amount_column: column ?? table.headers[0], debit_column: null }
+                );
+              }
+            )}
+            {renderColumnChips(mapping.debit_column ?? mapping.amount_column, (column) =>
+              updateMapping(mapping.debit_column !== null ? { debit_column: column } : { amount_column: column })
+            )}
+            {mapping.debit_column === null &&
+              renderOptionChips(
+                [
+                  { key: 'negative', label: 'Spending is negative' },
+                  { key: 'positive', label: 'Spending is positive' },
+                ],
+                mapping.expenses_negative ? 'negative' : 'positive',
+                (sign) => updateMapping({ expenses_negative: sign === 'negative' })
+              )}
+          </ThemedView>
+        </Animated.View>
+      )}
+
+      {table && mapping && missing.length === 0 && (
+        <Animated.View entering={FadeInDown.delay(150).duration(400)}>
+          <ThemedView style={styles.card}>
+            <ThemedText style={styles.cardTitle}>Preview</ThemedText>
+
+            {accounts.length > 1 && (
+              <>
+                <ThemedText style={styles.fieldLabel}>Paid from</ThemedText>
+                <View style={styles.chipWrap}>
+                  {accounts.map((candidate) => {
+                    const selected = candidate.id === accountId;
+                    return (
+                      <TouchableOpacity
+                        key={candidate.id}
+                        style={[
+                          styles.chip,
+                          styles.accountChip,
+                          selected && { backgroundColor: candidate.color, borderColor: candidate.color },
+                        ]}
+                        onPress={() => {
+                          setAccountId(candidate.id);
+                          setOverrides({});
+                        }}>
+                        <IconSymbol
+                          size={14}
+                          name={candidate.icon as IconSymbolName}
+                          color={selected ? '#fff' : candidate.color}
+                        />
+                        <ThemedText style={[styles.chipText, selected && styles.chipTextSelected]}>
+                          {candidate.name} · {candidate.currency}
+                        </ThemedText>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </>
+            )}
+
+            <View style={styles.switchRow}>
+              <View style={styles.switchText}>
+                <ThemedText style={styles.rowTitle}>Debit {account?.name ?? 'balance'}</ThemedText>
+                <ThemedText style={styles.hint}>Leave off if the balance already reflects these withdrawals</ThemedText>
+              </View>
+              <Switch
+                value={debitBalance}
+                onValueChange={setDebitBalance}
+                trackColor={{ false: palette.border, true: palette.accent }}
+              />
+            </View>
+
+            <ThemedText style={styles.summaryText}>
+              {selectedRows.length} to import · {duplicateCount} already recorded · {errorCount} unreadable
+            </ThemedText>
+
+            {rows.length === 0 ? (
+              <ThemedText style={styles.emptyText}>No withdrawals found with these columns.</ThemedText>
+            ) : (
+              rows.map((row) => {
+                const included = isIncluded(row);
+                const failure = failures[row.number];
+                const note = row.error ?? failure ?? (duplicates.has(row.number) ? 'Already recorded' : null);
+                return (
+                  <TouchableOpacity
+                    key={row.number}
+                    style={styles.previewRow}
+                    disabled={row.error !== null}
+                    onPress={() => setOverrides((current) => ({ ...current, [row.number]: !included }))}>
+                    <IconSymbol
+                      size={20}
+                      name={row.error ? 'exclamationmark.triangle.fill' : included ? 'checkmark.circle.fill' : 'xmark.circle.fill'}
+                      color={row.error ? palette.danger : included ? palette.success : palette.muted}
+                    />
+                    <View style={styles.previewInfo}>
+                      <ThemedText style={[styles.previewName, !included && styles.previewMuted]} numberOfLines={1}>
+                        {row.name || '—'}
+                      </ThemedText>
+                      <ThemedText style={styles.previewMeta}>
+                        Row {row.number}
+                        {row.date ? ` · ${formatLocalDate(row.date)}` : ''}
+                      </ThemedText>
+                      {note && (
+                        <ThemedText style={[styles.previewNote, (row.error || failure) && { color: palette.danger }]}>
+                          {note}
+                        </ThemedText>
+                      )}
+                    </View>
+                    {row.amount !== null && currency && (
+                      <ThemedText style={[styles.previewAmount, !included && styles.previewMuted]}>
+                        {format(row.amount, currency)}
+                      </ThemedText>
+                    )}
+                  </TouchableOpacity>
+                );
+              })
+            )}
+
+            <TouchableOpacity
+              style={[styles.primaryButton, (importing || selectedRows.length === 0) && styles.buttonDisabled]}
+              disabled={importing || selectedRows.length === 0}
+              onPress={handleImport}>
+              {importing ? (
+                <ActivityIndicator color="#fff" size="small" />
+              ) : (
+                <ThemedText style={styles.primaryButtonText}>
+                  Import {selectedRows.length} {selectedRows.length === 1 ? 'Expense' : 'Expenses'}
+                </ThemedText>
+              )}
+            </TouchableOpacity>
+          </ThemedView>
+        </Animated.View>
+      )}
+    </ScrollView>
+  );
+}
+
+const createStyles = (palette: ThemeColorSet) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: palette.background,
+    },
+    content: {
+      padding: 20,
+      paddingBottom: 40,
+    },
+    card: {
+      borderRadius: 20,
+      borderWidth: 1,
+      borderColor: palette.border,
+      backgroundColor: palette.card,
+      padding: 16,
+      marginBottom: 16,
+    },
+    cardTitle: {
+      fontSize: 17,
+      fontWeight: '600',
+      color: palette.text,
+      marginBottom: 10,
+      fontFamily: FontFamily.semiBold,
+    },
+    hint: {
+      fontSize: 12,
+      color: palette.muted,
+      marginBottom: 12,
+      fontFamily: FontFamily.regular,
+    },
+    warningText: {
+      fontSize: 13,
+      color: palette.warning,
+      marginBottom: 12,
+      fontFamily: FontFamily.regular,
+    },
+    fieldLabel: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: palette.muted,
+      textTransform: 'uppercase',
+      letterSpacing: 0.5,
+      marginBottom: 8,
+      fontFamily: FontFamily.semiBold,
+    },
+    input: {
+      borderRadius: 12,
+      borderWidth: 1.5,
+      borderColor: palette.border,
+      backgroundColor: palette.surface,
+      paddingHorizontal: 14,
+      paddingVertical: 12,
+      fontSize: 15,
+      color: palette.text,
+      marginBottom: 16,
+      fontFamily: FontFamily.regular,
+    },
+    chipRow: {
+      gap: 8,
+      paddingBottom: 12,
+    },
+    chipWrap: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+      marginBottom: 12,
+    },
+    chip: {
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: palette.border,
+      backgroundColor: palette.surfaceMuted,
+    },
+    chipSelected: {
+      backgroundColor: palette.accent,
+      borderColor: palette.accent,
+    },
+    chipText: {
+      fontSize: 13,
+      color: palette.text,
+      fontFamily: FontFamily.medium,
+    },
+    chipTextSelected: {
+      color: '#fff',
+    },
+    accountChip: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+    },
+    secondaryButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 8,
+      paddingVertical: 14,
+      paddingHorizontal: 16,
+      borderRadius: 12,
+      borderWidth: 1.5,
+      borderColor: palette.accent,
+      marginBottom: 12,
+    },
+    secondaryButtonText: {
+      color: palette.accent,
+      fontSize: 15,
+      fontWeight: '600',
+      fontFamily: FontFamily.semiBold,
+    },
+    switchRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+    },
+    switchText: {
+      flex: 1,
+    },
+    rowTitle: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: palette.text,
+      fontFamily: FontFamily.semiBold,
+    },
+    summaryText: {
+      fontSize: 13,
+      color: palette.text,
+      marginBottom: 8,
+      fontFamily: FontFamily.medium,
+    },
+    emptyText: {
+      fontSize: 14,
+      color: palette.muted,
+      textAlign: 'center',
+      paddingVertical: 16,
+      fontFamily: FontFamily.regular,
+    },
+    previewRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      paddingVertical: 10,
+      borderBottomWidth: 1,
+      borderBottomColor: palette.border,
+    },
+    previewInfo: {
+      flex: 1,
+    },
+    previewName: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: palette.text,
+      fontFamily: FontFamily.semiBold,
+    },
+    previewMeta: {
+      fontSize: 12,
+      color: palette.muted,
+      fontFamily: FontFamily.regular,
+    },
+    previewNote: {
+      fontSize: 12,
+      color: palette.warning,
+      fontFamily: FontFamily.medium,
+    },
+    previewAmount: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: palette.text,
+      fontFamily: FontFamily.semiBold,
+    },
+    previewMuted: {
+      opacity: 0.5,
+    },
+    primaryButton: {
+      alignItems: 'center',
+      justifyContent: 'center',
+      paddingVertical: 14,
+      borderRadius: 12,
+      backgroundColor: palette.accent,
+      marginTop: 16,
+    },
+    primaryButtonText: {
+      color: '#fff',
+      fontSize: 15,
+      fontWeight: '600',
+      fontFamily: FontFamily.semiBold,
+    },
+    buttonDisabled: {
+      opacity: 0.6,
+    },
+  });
@@ -1,6 +1,5 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useMemo } from 'react';
 import { StyleSheet, TextInput, TouchableOpacity, Alert, ActivityIndicator, KeyboardAvoidingView, Platform, View } from 'react-native';
-import * as LocalAuthentication from 'expo-local-authentication';
 import { LinearGradient } from 'expo-linear-gradient';
 import Animated, { FadeInDown, FadeInUp } from 'react-native-reanimated';
 
@@ -8,47 +7,32 @@ import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { useAuth } from '@/contexts/AuthContext';
-import { router } from 'expo-router';
 import { Colors, Gradients, type ThemeColorSet } from '@/constants/theme';
 import { useAppSelector } from '@/store/hooks';
 
 export default function LoginScreen() {
-  const [username, setUsername] = useState('');
+  const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [mode, setMode] = useState<'signIn' | 'signUp'>('signIn');
   const [loading, setLoading] = useState(false);
-  const [fingerprintAvailable, setFingerprintAvailable] = useState(false);
-  const { login, loginWithFingerprint } = useAuth();
+  const { login, signUp, sessionExpired } = useAuth();
+  const isSignUp = mode === 'signUp';
   const colorScheme = useAppSelector((state) => state.theme.colorScheme);
   const palette = Colors[colorScheme ?? 'dark'];
   const styles = useMemo(() => createStyles(palette), [palette]);
 
-  useEffect(() => {
-    checkFingerprintAvailability();
-  }, []);
-
-  const checkFingerprintAvailability = async () => {
-    try {
-      const compatible = await LocalAuthentication.hasHardwareAsync();
-      const enrolled = await LocalAuthentication.isEnrolledAsync();
-      setFingerprintAvailable(compatible && enrolled);
-    } catch (error) {
-      console.error('Error checking fingerprint availability:', error);
-    }
-  };
-
+  // Navigation happens in RootLayoutNav once Supabase emits SIGNED_IN
   const handleLogin = async () => {
-    if (!username || !password) {
-      Alert.alert('Error', 'Please enter username and password');
+    if (!email || !password) {
+      Alert.alert('Error', 'Please enter email and password');
       return;
     }
 
     setLoading(true);
     try {
-      const success = await login(username, password);
-      if (success) {
-        router.replace('/(tabs)');
-      } else {
-        Alert.alert('Error', 'Invalid username or password');
+      const result = await login(email.trim(), password);
+      if (!result.success) {
+        Alert.alert('Error', result.error || 'Invalid email or password');
       }
     } catch (error: any) {
       Alert.alert('Error', error.message || 'Login failed');
@@ -57,17 +41,27 @@ export default function LoginScreen() {
     }
   };
 
-  const handleFingerprintLogin = async () => {
+  const handleSignUp = async () => {
+    if (!email || !password) {
+      Alert.alert('Error', 'Please enter email and password');
+      return;
+    }
+    if (password.length < 6) {
+      Alert.alert('Error', 'Password must be at least 6 characters');
+      return;
+    }
+
     setLoading(true);
     try {
-      const success = await loginWithFingerprint();
-      if (success) {
-        router.replace('/(tabs)');
-      } else {
-        Alert.alert('Error', 'Fingerprint authentication failed');
+      const result = await signUp(email.trim(), password);
+      if (!result.success) {
+        Alert.alert('Error', result.error || 'Sign up failed');
+      } else if (result.needsConfirmation) {
+        Alert.alert('Check your inbox', 'Confirm your email address, then sign in.');
+        setMode('signIn');
       }
     } catch (error: any) {
-      Alert.alert('Error', error.message || 'Fingerprint login failed');
+      Alert.alert('Error', error.message || 'Sign up failed');
     } finally {
       setLoading(false);
     }
@@ -86,22 +80,32 @@ export default function LoginScreen() {
             <ThemedText type="title" style={styles.heroTitle}>
               Sign in to Mraker
             </ThemedText>
-            <ThemedText style={styles.heroSubtitle}>Authed by Supabase · Protected by biometrics</ThemedText>
+            <ThemedText style={styles.heroSubtitle}>Authed by Supabase · Locked with biometrics</ThemedText>
           </View>
           <IconSymbol size={54} name="lock.shield.fill" color={palette.accent} />
         </Animated.View>
 
         <Animated.View entering={FadeInUp.delay(60).duration(600)} style={styles.formCard}>
+          {sessionExpired && (
+            <View style={styles.notice}>
+              <IconSymbol size={16} name="clock" color={palette.warning} />
+              <ThemedText style={styles.noticeText}>Your session expired. Please sign in again.</ThemedText>
+            </View>
+          )}
+
           <View style={styles.inputGroup}>
-            <ThemedText style={styles.label}>Username</ThemedText>
+            <ThemedText style={styles.label}>Email</ThemedText>
             <View style={styles.inputContainer}>
               <IconSymbol size={18} name="person.fill" color={palette.icon} />
               <TextInput
                 style={styles.input}
-                value={username}
-                onChangeText={setUsername}
-                placeholder="Enter username"
+                value={email}
+                onChangeText={setEmail}
+                placeholder="you@example.com"
                 placeholderTextColor={palette.muted}
+                keyboardType="email-address"
+                textContentType="emailAddress"
+                autoComplete="email"
                 autoCapitalize="none"
                 autoCorrect={false}
               />
@@ -119,6 +123,7 @@ export default function LoginScreen() {
                 placeholder="Enter password"
                 placeholderTextColor={palette.muted}
                 secureTextEntry
+                textContentType={isSignUp ? 'newPassword' : 'password'}
                 autoCapitalize="none"
                 autoCorrect={false}
               />
@@ -127,35 +132,29 @@ export default function LoginScreen() {
 
           <TouchableOpacity
             style={[styles.loginButton, loading && styles.loginButtonDisabled]}
-            onPress={handleLogin}
+            onPress={isSignUp ? handleSignUp : handleLogin}
             disabled={loading}>
             {loading ? (
               <ActivityIndicator color="#fff" />
             ) : (
               <>
                 <IconSymbol size={20} name="arrow.right.circle.fill" color="#fff" />
-                <ThemedText style={styles.loginButtonText}>Enter dashboard</ThemedText>
+                <ThemedText style={styles.loginButtonText}>
+                  {isSignUp ? 'Create account' : 'Enter dashboard'}
+                </ThemedText>
               </>
             )}
           </TouchableOpacity>
 
-          {fingerprintAvailable && (
-            <>
-              <View style={styles.divider}>
-                <View style={styles.dividerLine} />
-                <ThemedText style={styles.dividerText}>or</ThemedText>
-                <View style={styles.dividerLine} />
-              </View>
+          <TouchableOpacity
+            style={styles.modeToggle}
+            onPress={() => setMode(isSignUp ? 'signIn' : 'signUp')}
+            disabled={loading}>
+            <ThemedText style={styles.modeToggleText}>
+              {isSignUp ? 'Already have an account? Sign in' : 'New here? Create an account'}
+            </ThemedText>
+          </TouchableOpacity>
 
-              <TouchableOpacity
-                style={[styles.fingerprintButton, loading && styles.fingerprintButtonDisabled]}
-                onPress={handleFingerprintLogin}
-                disabled={loading}>
-                <IconSymbol size={32} name="touchid" color={palette.accentSecondary} />
-                <ThemedText style={styles.fingerprintButtonText}>Use fingerprint</ThemedText>
-              </TouchableOpacity>
-            </>
-          )}
         </Animated.View>
       </LinearGradient>
     </KeyboardAvoidingView>
@@ -242,39 +241,27 @@ const createStyles = (palette: ThemeColorSet) =>
       fontSize: 16,
       fontWeight: '600',
     },
-    divider: {
-      flexDirection: 'row',
+    modeToggle: {
       alignItems: 'center',
-      gap: 12,
-    },
-    dividerLine: {
-      flex: 1,
-      height: 1,
-      backgroundColor: palette.border,
+      paddingVertical: 4,
     },
-    dividerText: {
-      fontSize: 12,
-      color: palette.muted,
-      textTransform: 'uppercase',
-      letterSpacing: 1,
+    modeToggleText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: palette.accent,
     },
-    fingerprintButton: {
+    notice: {
+      flexDirection: 'row',
       alignItems: 'center',
-      justifyContent: 'center',
-      padding: 18,
-      borderRadius: 18,
-      borderWidth: 1,
-      borderColor: palette.accentSecondary,
-      backgroundColor: palette.surface,
       gap: 8,
+      padding: 12,
+      borderRadius: 12,
+      backgroundColor: palette.warning + '15',
     },
-    fingerprintButtonDisabled: {
-      opacity: 0.6,
-    },
-    fingerprintButtonText: {
-      fontSize: 16,
-      fontWeight: '600',
-      color: palette.accentSecondary,
+    noticeText: {
+      flex: 1,
+      fontSize: 13,
+      color: palette.text,
     },
     info: {
       marginTop: 32,
@@ -0,0 +1,599 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, ScrollView, StyleSheet, Switch, TextInput, TouchableOpacity, View } from 'react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+
+import { CurrencyPicker } from '@/components/currency-picker';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { IconSymbol, type IconSymbolName } from '@/components/ui/icon-symbol';
+import { useModal } from '@/components/ui/modal';
+import { Colors, FontFamily, type ThemeColorSet } from '@/constants/theme';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { useRepositories } from '@/contexts/DataContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { nextCycleDate, type Account, type ExpenseCategory, type RecurringExpense } from '@/lib/data';
+import { parseTags } from '@/lib/expense-breakdown';
+import { formatLocalDate, normalizeLocalDate, toLocalDateString } from '@/lib/local-date';
+import { parseMoney } from '@/lib/money';
+import { useAppSelector } from '@/store/hooks';
+
+export default function RecurringExpensesScreen() {
+  const { preferences } = usePreferences();
+  const { baseCurrency, format } = useCurrency();
+  const [templates, setTemplates] = useState<RecurringExpense[]>([]);
+  const [categories, setCategories] = useState<ExpenseCategory[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [amount, setAmount] = useState('');
+  const [currency, setCurrency] = useState(baseCurrency);
+  const [dayOfMonth, setDayOfMonth] = useState(String(new Date().getDate()));
+  const [startDate, setStartDate] = useState(toLocalDateString());
+  const [endDate, setEndDate] = useState('');
+  const [categoryId, setCategoryId] = useState<string | null>(null);
+  const [tagsInput, setTagsInput] = useState('');
+  const [debitBalance, setDebitBalance] = useState(preferences.debitExpensesByDefault);
+  const { showModal } = useModal();
+  const {
+    recurringExpenses: recurringRepository,
+    expenseCategories: categoriesRepository,
+    accounts: accountsRepository,
+  } = useRepositories();
+  const colorScheme = useAppSelector((state) => state.theme.colorScheme);
+  const palette = Colors[colorScheme ?? 'dark'];
+  const styles = useMemo(() => createStyles(palette), [palette]);
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [templateList, categoryList, accountList] = await Promise.all([
+        recurringRepository.list(),
+        categoriesRepository.list(),
+        accountsRepository.ensureDefault(),
+      ]);
+      setTemplates(templateList);
+      setCategories(categoryList);
+      setAccounts(accountList);
+    } catch (error: any) {
+      showModal({
+        title: 'Error',
+        message: error.message || 'Failed to fetch recurring expenses',
+        type: 'error',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [accountsRepository, categoriesRepository, recurringRepository, showModal]);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setAmount('');
+    setCurrency(baseCurrency);
+    setDayOfMonth(String(new Date().getDate()));
+    setStartDate(toLocalDateString());
+    setEndDate('');
+    setCategoryId(null);
+    setTagsInput('');
+    setDebitBalance(preferences.debitExpensesByDefault);
+  };
+
+  const startEditing = (template: RecurringExpense) => {
+    setEditingId(template.id);
+    setName(template.name);
+    setAmount(Number(template.amount).toString());
+    setCurrency(template.currency);
+    setDayOfMonth(String(template.day_of_month));
+    setStartDate(template.start_date);
+    setEndDate(template.end_date ?? '');
+    setCategoryId(template.category_id);
+    setTagsInput(template.tags.join(', '));
+    setDebitBalance(template.debit_balance);
+  };
+
+  const showError = (message: string) => showModal({ title: 'Error', message, type: 'error' });
+
+  const handleSave = async () => {
+    const amountNum = parseMoney(amount);
+    const day = parseInt(dayOfMonth, 10);
+    if (!name.trim()) return showError('Please enter a name');
+    if (amountNum === null) return showError('Please enter a valid amount');
+    if (isNaN(day) || day < 1 || day > 31) return showError('Day of month must be between 1 and 31');
+    const start = normalizeLocalDate(startDate);
+    const end = endDate.trim() ? normalizeLocalDate(endDate) : null;
+    if (!start) return showError('Start date must be a valid YYYY-MM-DD date');
+    if (endDate.trim() && !end) return showError('End date must be a valid YYYY-MM-DD date');
+    if (end && end < start) return showError('End date must be after the start date');
+    // Generated expenses are debited from the first account in their currency
+    if (debitBalance && !accounts.some((account) => account.currency === currency)) {
+      return showError(`Add an account kept in ${currency} to debit this expense, or turn off debiting`);
+    }
+
+    const input = {
+      name: name.trim(),
+      amount: amountNum,
+      currency,
+      day_of_month: day,
+      start_date: start,
+      end_date: end,
+      category_id: categoryId,
+      tags: parseTags(tagsInput),
+      debit_balance: debitBalance,
+    };
+
+    try {
+      setSaving(true);
+      if (editingId) {
+        await recurringRepository.update(editingId, input);
+      } else {
+        await recurringRepository.add(input);
+      }
+      // A start date in the past (or today) may already have cycles due
+      const created = await recurringRepository.materializeDue();
+      resetForm();
+      fetchTemplates();
+      if (created > 0) {
+        showModal({
+          title: 'Success',
+          message: `Recurring expense saved. ${created} past ${created === 1 ? 'cycle was' : 'cycles were'} added to your expenses.`,
+          type: 'success',
+        });
+      }
+    } catch (error: any) {
+      showError(error.message || 'Failed to save recurring expense');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+      fetchTemplates();
+    } catch (error: any) {
+      showError(error.message || failure);
+    }
+  };
+
+  const handleEnd = (template: RecurringExpense) => {
+    showModal({
+      title: 'End Recurrence',
+      message: `Stop generating "${template.name}" after today? Expenses already added are kept.`,
+      type: 'confirm',
+      confirmText: 'End',
+      cancelText: 'Cancel',
+      onConfirm: () => runAction(() => recurringRepository.end(template.id), 'Failed to end recurrence'),
+    });
+  };
+
+  const handleDelete = (template: RecurringExpense) => {
+    showModal({
+      title: 'Delete Recurrence',
+      message: `Delete "${template.name}"? Expenses already added are kept.`,
+      type: 'confirm',
+      confirmText: 'Delete',
+      cancelText: 'Cancel',
+      onConfirm: () => {
+        if (editingId === template.id) resetForm();
+        return runAction(() => recurringRepository.remove(template.id), 'Failed to delete recurrence');
+      },
+    });
+  };
+
+  const today = toLocalDateString();
+  const categoriesById = new Map(categories.map((category) => [category.id, category]));
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Animated.View entering={FadeInDown.duration(400)}>
+        <ThemedView style={styles.card}>
+          <ThemedText style={styles.cardTitle}>{editingId ? 'Edit Recurring Expense' : 'New Recurring Expense'}</ThemedText>
+
+          <ThemedText style={styles.inputLabel}>Name *</ThemedText>
+          <TextInput
+            style={styles.input}
+            value={name}
+            onChangeText={setName}
+            placeholder="Rent, Internet, Gym..."
+            placeholderTextColor={palette.muted}
+          />
+
+          <View style={styles.inputRow}>
+            <View style={styles.inputHalf}>
+              <ThemedText style={styles.inputLabel}>Amount ({currency}) *</ThemedText>
+              <TextInput
+                style={styles.input}
+                value={amount}
+                onChangeText={setAmount}
+                keyboardType="decimal-pad"
+                placeholder="0.00"
+                placeholderTextColor={palette.muted}
+              />
+            </View>
+            <View style={styles.inputHalf}>
+              <ThemedText style={styles.inputLabel}>Day of month *</ThemedText>
+              <TextInput
+                style={styles.input}
+                value={dayOfMonth}
+                onChangeText={setDayOfMonth}
+                keyboardType="number-pad"
+                placeholder="1-31"
+                placeholderTextColor={palette.muted}
+              />
+            </View>
+          </View>
+
+          <ThemedText style={styles.inputLabel}>Currency</ThemedText>
+          <View style={styles.currencyRow}>
+            <CurrencyPicker value={currency} onChange={setCurrency} />
+          </View>
+
+          <View style={styles.inputRow}>
+            <View style={styles.inputHalf}>
+              <ThemedText style={styles.inputLabel}>Starts *</ThemedText>
+              <TextInput
+                style={styles.input}
+                value={startDate}
+                onChangeText={setStartDate}
+                placeholder="YYYY-MM-DD"
+                placeholderTextColor={palette.muted}
+              />
+            </View>
+            <View style={styles.inputHalf}>
+              <ThemedText style={styles.inputLabel}>Ends</ThemedText>
+              <TextInput
+                style={styles.input}
+                value={endDate}
+                onChangeText={setEndDate}
+                placeholder="Never"
+                placeholderTextColor={palette.muted}
+              />
+            </View>
+          </View>
+
+          <ThemedText style={styles.inputLabel}>Category</ThemedText>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            <TouchableOpacity
+              style={[styles.chip, categoryId === null && styles.chipActive]}
+              onPress={() => setCategoryId(null)}>
+              <ThemedText style={[styles.chipText, categoryId === null && styles.chipTextActive]}>None</ThemedText>
+            </TouchableOpacity>
+            {categories.map((category) => {
+              const isActive = categoryId === category.id;
+              return (
+                <TouchableOpacity
+                  key={category.id}
+                  style={[styles.chip, isActive && { backgroundColor: category.color, borderColor: category.color }]}
+                  onPress={() => setCategoryId(category.id)}>
+                  <IconSymbol size={14} name={category.icon as IconSymbolName} color={isActive ? '#fff' : category.color} />
+                  <ThemedText style={[styles.chipText, isActive && styles.chipTextActive]}>{category.name}</ThemedText>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+
+          <ThemedText style={styles.inputLabel}>Tags</ThemedText>
+          <TextInput
+            style={styles.input}
+            value={tagsInput}
+            onChangeText={setTagsInput}
+            placeholder="home, bills"
+            placeholderTextColor={palette.muted}
+            autoCapitalize="none"
+          />
+
+          <View style={styles.switchRow}>
+            <ThemedText style={styles.switchLabel}>Debit from balance each cycle</ThemedText>
+            <Switch
+              value={debitBalance}
+              onValueChange={setDebitBalance}
+              trackColor={{ false: palette.border, true: palette.accent }}
+            />
+          </View>
+
+          <View style={styles.formActions}>
+            {editingId && (
+              <TouchableOpacity style={styles.secondaryButton} onPress={resetForm}>
+                <ThemedText style={styles.secondaryButtonText}>Cancel</ThemedText>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={[styles.primaryButton, saving && styles.buttonDisabled]}
+              disabled={saving}
+              onPress={handleSave}>
+              {saving ? (
+                <ActivityIndicator color="#fff" size="small" />
+              ) : (
+                <ThemedText style={styles.primaryButtonText}>{editingId ? 'Save Changes' : 'Add Recurring Expense'}</ThemedText>
+              )}
+            </TouchableOpacity>
+          </View>
+          {editingId && <ThemedText style={styles.hint}>Changes apply to future cycles only.</ThemedText>}
+        </ThemedView>
+      </Animated.View>
+
+      <Animated.View entering={FadeInDown.delay(100).duration(400)}>
+        {loading ? (
+          <ActivityIndicator color={palette.accent} />
+        ) : templates.length === 0 ? (
+          <ThemedText style={styles.emptyText}>No recurring expenses yet.</ThemedText>
+        ) : (
+          templates.map((template) => {
+            const ended = !!template.end_date && template.end_date < today;
+            const next = ended ? null : nextCycleDate(template, today);
+            const category = template.category_id ? categoriesById.get(template.category_id) : undefined;
+            const status = ended ? 'Ended' : template.paused ? 'Paused' : 'Active';
+            const statusColor = ended ? palette.muted : template.paused ? palette.warning : palette.success;
+
+            return (
+              <ThemedView key={template.id} style={[styles.card, ended && styles.cardEnded]}>
+                <View style={styles.templateHeader}>
+                  <View style={styles.templateInfo}>
+                    <ThemedText style={styles.templateName}>{template.name}</ThemedText>
+                    <ThemedText style={styles.templateMeta}>
+                      Day {template.day_of_month} of every month{category ? ` · ${category.name}` : ''}
+                    </ThemedText>
+                  </View>
+                  <ThemedText style={styles.templateAmount}>
+                    {format(Number(template.amount), template.currency)}
+                  </ThemedText>
+                </View>
+
+                <View style={styles.templateStatusRow}>
+                  <View style={[styles.statusDot, { backgroundColor: statusColor }]} />
+                  <ThemedText style={[styles.templateMeta, { color: statusColor }]}>{status}</ThemedText>
+                  <ThemedText style={styles.templateMeta}>
+                    {ended
+                      ? ` · ended ${formatLocalDate(template.end_date!)}`
+                      : template.paused
+                        ? ''
+                        : next
+                          ? ` · next ${formatLocalDate(next)}`
+                          : ''}
+                  </ThemedText>
+                </View>
+
+                {!ended && (
+                  <View style={styles.actionRow}>
+                    <TouchableOpacity style={styles.actionButton} onPress={() => startEditing(template)}>
+                      <ThemedText style={styles.actionText}>Edit</ThemedText>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.actionButton}
+                      onPress={() =>
+                        runAction(
+                          () => (template.paused ? recurringRepository.resume(template.id) : recurringRepository.pause(template.id)),
+                          'Failed to update recurrence'
+                        )
+                      }>
+                      <ThemedText style={styles.actionText}>{template.paused ? 'Resume' : 'Pause'}</ThemedText>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.actionButton} onPress={() => handleEnd(template)}>
+                      <ThemedText style={styles.actionText}>End</ThemedText>
+                    </TouchableOpacity>
+                  </View>
+                )}
+                <TouchableOpacity style={styles.deleteButton} onPress={() => handleDelete(template)}>
+                  <IconSymbol size={16} name="trash.fill" color={palette.danger} />
+                </TouchableOpacity>
+              </ThemedView>
+            );
+          })
+        )}
+      </Animated.View>
+    </ScrollView>
+  );
+}
+
+const createStyles = (palette: ThemeColorSet) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: palette.background,
+    },
+    content: {
+      padding: 20,
+      paddingBottom: 40,
+    },
+    card: {
+      borderRadius: 20,
+      borderWidth: 1,
+      borderColor: palette.border,
+      backgroundColor: palette.card,
+      padding: 16,
+      marginBottom: 16,
+    },
+    cardEnded: {
+      opacity: 0.6,
+    },
+    cardTitle: {
+      fontSize: 17,
+      fontWeight: '600',
+      color: palette.text,
+      marginBottom: 14,
+      fontFamily: FontFamily.semiBold,
+    },
+    inputLabel: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: palette.muted,
+      textTransform: 'uppercase',
+      letterSpacing: 0.5,
+      marginBottom: 8,
+      fontFamily: FontFamily.semiBold,
+    },
+    input: {
+      borderRadius: 12,
+      borderWidth: 1.5,
+      borderColor: palette.border,
+      backgroundColor: palette.surface,
+      paddingHorizontal: 14,
+      paddingVertical: 12,
+      fontSize: 15,
+      color: palette.text,
+      marginBottom: 14,
+      fontFamily: FontFamily.regular,
+    },
+    inputRow: {
+      flexDirection: 'row',
+      gap: 12,
+    },
+    inputHalf: {
+      flex: 1,
+    },
+    chipRow: {
+      gap: 8,
+      marginBottom: 14,
+    },
+    currencyRow: {
+      marginBottom: 14,
+    },
+    chip: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      borderRadius: 10,
+      borderWidth: 1.5,
+      borderColor: palette.border,
+      backgroundColor: palette.surface,
+    },
+    chipActive: {
+      backgroundColor: palette.accent,
+      borderColor: palette.accent,
+    },
+    chipText: {
+      fontSize: 13,
+      color: palette.text,
+      fontFamily: FontFamily.medium,
+    },
+    chipTextActive: {
+      color: '#fff',
+    },
+    switchRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginBottom: 16,
+    },
+    switchLabel: {
+      fontSize: 14,
+      color: palette.text,
+      fontFamily: FontFamily.medium,
+    },
+    formActions: {
+      flexDirection: 'row',
+      gap: 10,
+    },
+    primaryButton: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+      paddingVertical: 14,
+      borderRadius: 12,
+      backgroundColor: palette.accent,
+    },
+    primaryButtonText: {
+      color: '#fff',
+      fontSize: 15,
+      fontWeight: '600',
+      fontFamily: FontFamily.semiBold,
+    },
+    secondaryButton: {
+      alignItems: 'center',
+      justifyContent: 'center',
+      paddingVertical: 14,
+      paddingHorizontal: 18,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: palette.border,
+    },
+    secondaryButtonText: {
+      fontSize: 15,
+      color: palette.text,
+      fontFamily: FontFamily.medium,
+    },
+    buttonDisabled: {
+      opacity: 0.6,
+    },
+    hint: {
+      fontSize: 12,
+      color: palette.muted,
+      marginTop: 10,
+      fontFamily: FontFamily.regular,
+    },
+    emptyText: {
+      fontSize: 14,
+      color: palette.muted,
+      textAlign: 'center',
+      paddingVertical: 16,
+      fontFamily: FontFamily.regular,
+    },
+    templateHeader: {
+      flexDirection: 'row',
+      alignItems: 'flex-start',
+      gap: 12,
+      paddingRight: 28,
+    },
+    templateInfo: {
+      flex: 1,
+    },
+    templateName: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: palette.text,
+      fontFamily: FontFamily.semiBold,
+    },
+    templateMeta: {
+      fontSize: 12,
+      color: palette.muted,
+      fontFamily: FontFamily.regular,
+    },
+    templateAmount: {
+      fontSize: 16,
+      fontWeight: '700',
+      color: palette.text,
+      fontFamily: FontFamily.bold,
+    },
+    templateStatusRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      marginTop: 8,
+    },
+    statusDot: {
+      width: 6,
+      height: 6,
+      borderRadius: 3,
+    },
+    actionRow: {
+      flexDirection: 'row',
+      gap: 8,
+      marginTop: 12,
+    },
+    actionButton: {
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 10,
+      backgroundColor: palette.accent + '15',
+    },
+    actionText: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: palette.accent,
+      fontFamily: FontFamily.semiBold,
+    },
+    deleteButton: {
+      position: 'absolute',
+      top: 14,
+      right: 14,
+      padding: 4,
+    },
+  });
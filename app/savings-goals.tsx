@@ -0,0 +1,331 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+
+import { DateField } from '@/components/date-field';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useModal } from '@/components/ui/modal';
+import { Colors, FontFamily, type ThemeColorSet } from '@/constants/theme';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { useRepositories } from '@/contexts/DataContext';
+import type { SavingsGoal } from '@/lib/data';
+import { formatLocalDate, normalizeLocalDate, toLocalDateString } from '@/lib/local-date';
+import { parseMoney } from '@/lib/money';
+import { useAppSelector } from '@/store/hooks';
+
+// New goals default to a deadline a year out
+const defaultDeadline = () => {
+  const today = new Date();
+  return toLocalDateString(new Date(today.getFullYear() + 1, today.getMonth(), today.getDate()));
+};
+
+export default function SavingsGoalsScreen() {
+  const [goals, setGoals] = useState<SavingsGoal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [targetAmount, setTargetAmount] = useState('');
+  const [deadline, setDeadline] = useState(defaultDeadline);
+  const { showModal } = useModal();
+  const { savingsGoals: goalsRepository } = useRepositories();
+  const { baseCurrency, format } = useCurrency();
+  const colorScheme = useAppSelector((state) => state.theme.colorScheme);
+  const palette = Colors[colorScheme ?? 'dark'];
+  const styles = useMemo(() => createStyles(palette), [palette]);
+
+  const fetchGoals = useCallback(async () => {
+    try {
+      setLoading(true);
+      setGoals(await goalsRepository.list());
+    } catch (error: any) {
+      showModal({
+        title: 'Error',
+        message: error.message || 'Failed to fetch goals',
+        type: 'error',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [goalsRepository, showModal]);
+
+  useEffect(() => {
+    fetchGoals();
+  }, [fetchGoals]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setTargetAmount('');
+    setDeadline(defaultDeadline());
+  };
+
+  const startEditing = (goal: SavingsGoal) => {
+    setEditingId(goal.id);
+    setName(goal.name);
+    setTargetAmount(Number(goal.target_amount).toString());
+    setDeadline(goal.deadline);
+  };
+
+  const showError = (message: string) => showModal({ title: 'Error', message, type: 'error' });
+
+  const handleSave = async () => {
+    const trimmed = name.trim();
+    const target = parseMoney(targetAmount);
+    const normalizedDeadline = normalizeLocalDate(deadline);
+    if (!trimmed) return showError('Please enter a goal name');
+    if (target === null) return showError('Please enter a valid target amount');
+    if (!normalizedDeadline) return showError('Please enter a valid deadline (YYYY-MM-DD)');
+
+    try {
+      setSaving(true);
+      const input = { name: trimmed, target_amount: target, deadline: normalizedDeadline };
+      if (editingId) {
+        await goalsRepository.update(editingId, input);
+      } else {
+        await goalsRepository.add(input);
+      }
+      resetForm();
+      fetchGoals();
+    } catch (error: any) {
+      showError(error.message || 'Failed to save goal');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = (goal: SavingsGoal) => {
+    showModal({
+      title: 'Delete Goal',
+      message: `Delete "${goal.name}"? Savings allocated to it stay in your monthly totals.`,
+      type: 'confirm',
+      confirmText: 'Delete',
+      cancelText: 'Cancel',
+      onConfirm: async () => {
+        try {
+          await goalsRepository.remove(goal.id);
+          if (editingId === goal.id) resetForm();
+          fetchGoals();
+        } catch (error: any) {
+          showError(error.message || 'Failed to delete goal');
+        }
+      },
+    });
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Animated.View entering={FadeInDown.duration(400)}>
+        <ThemedView style={styles.card}>
+          <ThemedText style={styles.cardTitle}>{editingId ? 'Edit Goal' : 'New Goal'}</ThemedText>
+
+          <ThemedText style={styles.fieldLabel}>Name *</ThemedText>
+          <TextInput
+            style={styles.input}
+            value={name}
+            onChangeText={setName}
+            placeholder="Laptop, Emergency fund..."
+            placeholderTextColor={palette.muted}
+          />
+
+          <View style={styles.inputRow}>
+            <View style={styles.inputHalf}>
+              <ThemedText style={styles.fieldLabel}>Target ({baseCurrency}) *</ThemedText>
+              <TextInput
+                style={styles.input}
+                value={targetAmount}
+                onChangeText={setTargetAmount}
+                keyboardType="decimal-pad"
+                placeholder="80000"
+                placeholderTextColor={palette.muted}
+              />
+            </View>
+            <View style={styles.inputHalf}>
+              <ThemedText style={styles.fieldLabel}>Deadline *</ThemedText>
+              <DateField value={deadline} onChange={setDeadline} />
+            </View>
+          </View>
+
+          <View style={styles.formActions}>
+            {editingId && (
+              <TouchableOpacity style={styles.secondaryButton} onPress={resetForm}>
+                <ThemedText style={styles.secondaryButtonText}>Cancel</ThemedText>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={[styles.primaryButton, saving && styles.buttonDisabled]}
+              disabled={saving}
+              onPress={handleSave}>
+              {saving ? (
+                <ActivityIndicator color="#fff" size="small" />
+              ) : (
+                <ThemedText style={styles.primaryButtonText}>{editingId ? 'Save Changes' : 'Add Goal'}</ThemedText>
+              )}
+            </TouchableOpacity>
+          </View>
+        </ThemedView>
+      </Animated.View>
+
+      <Animated.View entering={FadeInDown.delay(100).duration(400)}>
+        <ThemedView style={styles.card}>
+          <ThemedText style={styles.cardTitle}>Your Goals</ThemedText>
+          {loading ? (
+            <ActivityIndicator color={palette.accent} />
+          ) : goals.length === 0 ? (
+            <ThemedText style={styles.emptyText}>No goals yet. Create one above.</ThemedText>
+          ) : (
+            goals.map((goal) => (
+              <View key={goal.id} style={styles.goalRow}>
+                <View style={[styles.iconBadge, { backgroundColor: '#05966920' }]}>
+                  <IconSymbol size={18} name="target" color="#059669" />
+                </View>
+                <View style={styles.goalInfo}>
+                  <ThemedText style={styles.goalName}>{goal.name}</ThemedText>
+                  <ThemedText style={styles.goalMeta}>
+                    {format(Number(goal.target_amount))} by {formatLocalDate(goal.deadline)}
+                  </ThemedText>
+                </View>
+                <TouchableOpacity style={styles.rowAction} onPress={() => startEditing(goal)}>
+                  <IconSymbol size={16} name="pencil.circle.fill" color={palette.muted} />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.rowAction} onPress={() => handleDelete(goal)}>
+                  <IconSymbol size={16} name="trash.fill" color={palette.danger} />
+                </TouchableOpacity>
+              </View>
+            ))
+          )}
+        </ThemedView>
+      </Animated.View>
+    </ScrollView>
+  );
+}
+
+const createStyles = (palette: ThemeColorSet) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: palette.background,
+    },
+    content: {
+      padding: 20,
+      paddingBottom: 40,
+    },
+    card: {
+      borderRadius: 20,
+      borderWidth: 1,
+      borderColor: palette.border,
+      backgroundColor: palette.card,
+      padding: 16,
+      marginBottom: 16,
+    },
+    cardTitle: {
+      fontSize: 17,
+      fontWeight: '600',
+      color: palette.text,
+      marginBottom: 14,
+      fontFamily: FontFamily.semiBold,
+    },
+    fieldLabel: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: palette.muted,
+      textTransform: 'uppercase',
+      letterSpacing: 0.5,
+      marginBottom: 8,
+      fontFamily: FontFamily.semiBold,
+    },
+    input: {
+      borderRadius: 12,
+      borderWidth: 1.5,
+      borderColor: palette.border,
+      backgroundColor: palette.surface,
+      paddingHorizontal: 14,
+      paddingVertical: 12,
+      fontSize: 15,
+      color: palette.text,
+      marginBottom: 16,
+      fontFamily: FontFamily.regular,
+    },
+    inputRow: {
+      flexDirection: 'row',
+      gap: 12,
+      marginBottom: 16,
+    },
+    inputHalf: {
+      flex: 1,
+    },
+    formActions: {
+      flexDirection: 'row',
+      gap: 10,
+    },
+    primaryButton: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+      paddingVertical: 14,
+      borderRadius: 12,
+      backgroundColor: palette.accent,
+    },
+    primaryButtonText: {
+      color: '#fff',
+      fontSize: 15,
+      fontWeight: '600',
+      fontFamily: FontFamily.semiBold,
+    },
+    secondaryButton: {
+      alignItems: 'center',
+      justifyContent: 'center',
+      paddingVertical: 14,
+      paddingHorizontal: 18,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: palette.border,
+    },
+    secondaryButtonText: {
+      fontSize: 15,
+      color: palette.text,
+      fontFamily: FontFamily.medium,
+    },
+    buttonDisabled: {
+      opacity: 0.6,
+    },
+    emptyText: {
+      fontSize: 14,
+      color: palette.muted,
+      textAlign: 'center',
+      paddingVertical: 16,
+      fontFamily: FontFamily.regular,
+    },
+    goalRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      paddingVertical: 10,
+    },
+    iconBadge: {
+      width: 40,
+      height: 40,
+      borderRadius: 12,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    goalInfo: {
+      flex: 1,
+    },
+    goalName: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: palette.text,
+      fontFamily: FontFamily.semiBold,
+    },
+    goalMeta: {
+      fontSize: 12,
+      color: palette.muted,
+      fontFamily: FontFamily.regular,
+    },
+    rowAction: {
+      padding: 6,
+    },
+  });
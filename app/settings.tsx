@@ -0,0 +1,326 @@
+import { router } from 'expo-router';
+import { useMemo } from 'react';
+import { ScrollView, StyleSheet, Switch, TouchableOpacity, View } from 'react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+
+import { CurrencyPicker } from '@/components/currency-picker';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useModal } from '@/components/ui/modal';
+import { Colors, FontFamily, type ThemeColorSet } from '@/constants/theme';
+import { AUTO_LOCK_TIMEOUTS, useAppLock } from '@/contexts/AppLockContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { useRepositories } from '@/contexts/DataContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { rateOn } from '@/lib/currency';
+import { toLocalDateString } from '@/lib/local-date';
+import { useAppSelector } from '@/store/hooks';
+
+const formatTimeout = (seconds: number) => {
+  if (seconds === 0) return 'Immediately';
+  if (seconds < 60) return `${seconds}s`;
+  return `${seconds / 60}m`;
+};
+
+export default function SettingsScreen() {
+  const { user, logout } = useAuth();
+  const { available, settings, updateSettings, lock } = useAppLock();
+  const { preferences, updatePreferences } = usePreferences();
+  const { baseCurrency, rates } = useCurrency();
+  const { budgets, savingsGoals } = useRepositories();
+  const { showModal } = useModal();
+  const colorScheme = useAppSelector((state) => state.theme.colorScheme);
+  const palette = Colors[colorScheme ?? 'dark'];
+  const styles = useMemo(() => createStyles(palette), [palette]);
+
+  const lockEnabled = available && settings.enabled;
+
+  // Budgets and goal targets are stored in the base currency, so they're converted at today's rate first
+  const handleBaseCurrencyChange = async (next: string) => {
+    if (next === baseCurrency) return;
+    const rate = rateOn(rates, baseCurrency, next, toLocalDateString());
+    if (rate === null) {
+      showModal({
+        title: 'Error',
+        message: `Add an exchange rate between ${baseCurrency} and ${next} first, so budgets and goal targets can be converted`,
+        type: 'error',
+      });
+      return;
+    }
+    try {
+      await Promise.all([budgets.rebase(rate), savingsGoals.rebase(rate)]);
+      await updatePreferences({ baseCurrency: next });
+    } catch (error: any) {
+      showModal({
+        title: 'Error',
+        message: error.message || 'Failed to change the base currency',
+        type: 'error',
+      });
+    }
+  };
+
+  const handleSignOut = () => {
+    showModal({
+      title: 'Sign Out',
+      message: 'You will need your email and password to sign back in.',
+      type: 'confirm',
+      confirmText: 'Sign Out',
+      cancelText: 'Cancel',
+      onConfirm: logout,
+    });
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Animated.View entering={FadeInDown.duration(400)}>
+        <ThemedText style={styles.sectionTitle}>Security</ThemedText>
+        <ThemedView style={styles.card}>
+          <View style={styles.row}>
+            <View style={[styles.iconContainer, { backgroundColor: palette.accent + '15' }]}>
+              <IconSymbol size={20} name="lock.shield.fill" color={palette.accent} />
+            </View>
+            <View style={styles.rowText}>
+              <ThemedText style={styles.rowTitle}>Biometric lock</ThemedText>
+              <ThemedText style={styles.rowSubtitle}>
+                {available
+                  ? 'Require Face ID, fingerprint or passcode to open the app'
+                  : 'Set up a screen lock on this device to enable'}
+              </ThemedText>
+            </View>
+            <Switch
+              value={lockEnabled}
+              disabled={!available}
+              onValueChange={(enabled) => updateSettings({ enabled })}
+              trackColor={{ false: palette.border, true: palette.accent }}
+            />
+          </View>
+
+          {lockEnabled && (
+            <>
+              <View style={styles.divider} />
+              <ThemedText style={styles.fieldLabel}>Lock after leaving the app</ThemedText>
+              <View style={styles.chipRow}>
+                {AUTO_LOCK_TIMEOUTS.map((seconds) => {
+                  const selected = settings.timeoutSeconds === seconds;
+                  return (
+                    <TouchableOpacity
+                      key={seconds}
+                      style={[styles.chip, selected && styles.chipSelected]}
+                      onPress={() => updateSettings({ timeoutSeconds: seconds })}>
+                      <ThemedText style={[styles.chipText, selected && styles.chipTextSelected]}>
+                        {formatTimeout(seconds)}
+                      </ThemedText>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              <View style={styles.divider} />
+              <TouchableOpacity style={styles.actionRow} onPress={lock}>
+                <IconSymbol size={18} name="lock.fill" color={palette.accent} />
+                <ThemedText style={[styles.actionText, { color: palette.accent }]}>Lock now</ThemedText>
+              </TouchableOpacity>
+            </>
+          )}
+        </ThemedView>
+      </Animated.View>
+
+      <Animated.View entering={FadeInDown.delay(100).duration(400)}>
+        <ThemedText style={styles.sectionTitle}>Expenses</ThemedText>
+        <ThemedView style={styles.card}>
+          <View style={styles.row}>
+            <View style={[styles.iconContainer, { backgroundColor: palette.accentTertiary + '15' }]}>
+              <IconSymbol size={20} name="dollarsign.circle.fill" color={palette.accentTertiary} />
+            </View>
+            <View style={styles.rowText}>
+              <ThemedText style={styles.rowTitle}>Debit balance by default</ThemedText>
+              <ThemedText style={styles.rowSubtitle}>New expenses subtract from your Home balance</ThemedText>
+            </View>
+            <Switch
+              value={preferences.debitExpensesByDefault}
+              onValueChange={(debitExpensesByDefault) => updatePreferences({ debitExpensesByDefault })}
+              trackColor={{ false: palette.border, true: palette.accent }}
+            />
+          </View>
+        </ThemedView>
+      </Animated.View>
+
+      <Animated.View entering={FadeInDown.delay(150).duration(400)}>
+        <ThemedText style={styles.sectionTitle}>Currency</ThemedText>
+        <ThemedView style={styles.card}>
+          <View style={styles.row}>
+            <View style={[styles.iconContainer, { backgroundColor: palette.accentSecondary + '15' }]}>
+              <IconSymbol size={20} name="globe" color={palette.accentSecondary} />
+            </View>
+            <View style={styles.rowText}>
+              <ThemedText style={styles.rowTitle}>Base currency</ThemedText>
+              <ThemedText style={styles.rowSubtitle}>
+                Totals, budgets and goals are shown in it; new entries start in it
+              </ThemedText>
+            </View>
+          </View>
+          <View style={styles.divider} />
+          <CurrencyPicker
+            value={preferences.baseCurrency}
+            onChange={handleBaseCurrencyChange}
+          />
+          <View style={styles.divider} />
+          <TouchableOpacity style={styles.actionRow} onPress={() => router.push('/exchange-rates')}>
+            <IconSymbol size={18} name="arrow.left.arrow.right" color={palette.accent} />
+            <ThemedText style={[styles.actionText, { color: palette.accent }]}>Exchange rates</ThemedText>
+          </TouchableOpacity>
+        </ThemedView>
+      </Animated.View>
+
+      <Animated.View entering={FadeInDown.delay(200).duration(400)}>
+        <ThemedText style={styles.sectionTitle}>Your Data</ThemedText>
+        <ThemedView style={styles.card}>
+          <View style={styles.row}>
+            <View style={[styles.iconContainer, { backgroundColor: palette.accentTertiary + '15' }]}>
+              <IconSymbol size={20} name="doc.text.fill" color={palette.accentTertiary} />
+            </View>
+            <View style={styles.rowText}>
+              <ThemedText style={styles.rowTitle}>Export</ThemedText>
+              <ThemedText style={styles.rowSubtitle}>
+                Expenses, savings, balance history, work entries and prayer settings as CSV or JSON
+              </ThemedText>
+            </View>
+          </View>
+          <View style={styles.divider} />
+          <TouchableOpacity style={styles.actionRow} onPress={() => router.push('/export')}>
+            <IconSymbol size={18} name="square.and.arrow.up" color={palette.accent} />
+            <ThemedText style={[styles.actionText, { color: palette.accent }]}>Export data</ThemedText>
+          </TouchableOpacity>
+          <View style={styles.divider} />
+          <TouchableOpacity style={styles.actionRow} onPress={() => router.push('/backup')}>
+            <IconSymbol size={18} name="externaldrive.fill" color={palette.accent} />
+            <ThemedText style={[styles.actionText, { color: palette.accent }]}>Backup & restore</ThemedText>
+          </TouchableOpacity>
+        </ThemedView>
+      </Animated.View>
+
+      <Animated.View entering={FadeInDown.delay(250).duration(400)}>
+        <ThemedText style={styles.sectionTitle}>Account</ThemedText>
+        <ThemedView style={styles.card}>
+          <View style={styles.row}>
+            <View style={[styles.iconContainer, { backgroundColor: palette.accentSecondary + '15' }]}>
+              <IconSymbol size={20} name="person.fill" color={palette.accentSecondary} />
+            </View>
+            <View style={styles.rowText}>
+              <ThemedText style={styles.rowTitle}>Signed in as</ThemedText>
+              <ThemedText style={styles.rowSubtitle}>{user?.email ?? '—'}</ThemedText>
+            </View>
+          </View>
+          <View style={styles.divider} />
+          <TouchableOpacity style={styles.actionRow} onPress={handleSignOut}>
+            <IconSymbol size={18} name="rectangle.portrait.and.arrow.right" color={palette.danger} />
+            <ThemedText style={[styles.actionText, { color: palette.danger }]}>Sign out</ThemedText>
+          </TouchableOpacity>
+        </ThemedView>
+      </Animated.View>
+    </ScrollView>
+  );
+}
+
+const createStyles = (palette: ThemeColorSet) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: palette.background,
+    },
+    content: {
+      padding: 20,
+      paddingBottom: 40,
+    },
+    sectionTitle: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: palette.muted,
+      textTransform: 'uppercase',
+      letterSpacing: 0.5,
+      marginBottom: 8,
+      marginTop: 12,
+      fontFamily: FontFamily.semiBold,
+    },
+    card: {
+      borderRadius: 20,
+      borderWidth: 1,
+      borderColor: palette.border,
+      backgroundColor: palette.card,
+      padding: 16,
+      marginBottom: 16,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+    },
+    iconContainer: {
+      width: 40,
+      height: 40,
+      borderRadius: 12,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    rowText: {
+      flex: 1,
+    },
+    rowTitle: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: palette.text,
+      fontFamily: FontFamily.semiBold,
+    },
+    rowSubtitle: {
+      fontSize: 12,
+      color: palette.muted,
+      fontFamily: FontFamily.regular,
+    },
+    divider: {
+      height: 1,
+      backgroundColor: palette.border,
+      marginVertical: 14,
+    },
+    fieldLabel: {
+      fontSize: 13,
+      color: palette.muted,
+      marginBottom: 10,
+      fontFamily: FontFamily.medium,
+    },
+    chipRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    chip: {
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: palette.border,
+      backgroundColor: palette.surfaceMuted,
+    },
+    chipSelected: {
+      backgroundColor: palette.accent,
+      borderColor: palette.accent,
+    },
+    chipText: {
+      fontSize: 13,
+      color: palette.text,
+      fontFamily: FontFamily.medium,
+    },
+    chipTextSelected: {
+      color: '#fff',
+    },
+    actionRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 10,
+    },
+    actionText: {
+      fontSize: 15,
+      fontWeight: '600',
+      fontFamily: FontFamily.semiBold,
+    },
+  });
@@ -0,0 +1,179 @@
+import { useMemo, useState } from 'react';
+import { StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { BarChart } from '@/components/ui/bar-chart';
+import { IconSymbol, type IconSymbolName } from '@/components/ui/icon-symbol';
+import { UNCATEGORIZED_COLOR, UNCATEGORIZED_ICON } from '@/constants/categories';
+import { Colors, FontFamily, type ThemeColorSet } from '@/constants/theme';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import type { ExpenseCategory, ExpenseSummary } from '@/lib/data';
+import { breakdownByCategory } from '@/lib/expense-breakdown';
+import { formatLocalDate } from '@/lib/local-date';
+import { sumMoney } from '@/lib/money';
+import { useAppSelector } from '@/store/hooks';
+
+/** Spending per category for the expenses it's given; the caller decides the period. */
+export function CategoryBreakdown({
+  expenses,
+  categories,
+}: {
+  expenses: ExpenseSummary[];
+  categories: ExpenseCategory[];
+}) {
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const colorScheme = useAppSelector((state) => state.theme.colorScheme);
+  const palette = Colors[colorScheme ?? 'dark'];
+  const styles = useMemo(() => createStyles(palette), [palette]);
+  const { convert, format } = useCurrency();
+
+  const breakdown = useMemo(
+    () => breakdownByCategory(expenses, categories, convert),
+    [expenses, categories, convert]
+  );
+  const periodTotal = sumMoney(breakdown.map((entry) => entry.total));
+  const selected = breakdown.find((entry) => entry.key === selectedKey) ?? null;
+
+  return (
+    <ThemedView style={styles.card}>
+      <View style={styles.header}>
+        <View style={[styles.iconContainer, { backgroundColor: palette.accent + '15' }]}>
+          <IconSymbol size={20} name="chart.bar.fill" color={palette.accent} />
+        </View>
+        <View>
+          <ThemedText style={styles.title}>Breakdown</ThemedText>
+          <ThemedText style={styles.subtitle}>{format(periodTotal)} by category</ThemedText>
+        </View>
+      </View>
+
+      {breakdown.length === 0 ? (
+        <ThemedText style={styles.emptyText}>No expenses in this period</ThemedText>
+      ) : (
+        <BarChart
+          items={breakdown.map((entry) => ({
+            key: entry.key,
+            label: entry.category?.name ?? 'Uncategorized',
+            value: entry.total,
+            color: entry.category?.color ?? UNCATEGORIZED_COLOR,
+            icon: (entry.category?.icon as IconSymbolName | undefined) ?? UNCATEGORIZED_ICON,
+          }))}
+          formatValue={(value) => format(value)}
+          selectedKey={selectedKey}
+          onSelect={(key) => setSelectedKey((current) => (current === key ? null : key))}
+        />
+      )}
+
+      {/* Drill-down: the expenses behind the selected bar */}
+      {selected && (
+        <View style={styles.drillDown}>
+          <ThemedText style={styles.drillDownTitle}>
+            {selected.category?.name ?? 'Uncategorized'} · {selected.expenses.length}{' '}
+            {selected.expenses.length === 1 ? 'expense' : 'expenses'}
+          </ThemedText>
+          {selected.expenses.map((expense) => (
+            <View key={expense.id} style={styles.drillDownItem}>
+              <View style={styles.drillDownInfo}>
+                <ThemedText style={styles.drillDownName} numberOfLines={1}>
+                  {expense.name}
+                </ThemedText>
+                <ThemedText style={styles.drillDownDate}>
+                  {formatLocalDate(expense.date)}
+                  {expense.tags.length > 0 ? ` · #${expense.tags.join(' #')}` : ''}
+                </ThemedText>
+              </View>
+              <ThemedText style={styles.drillDownAmount}>
+                {format(Number(expense.amount), expense.currency)}
+              </ThemedText>
+            </View>
+          ))}
+        </View>
+      )}
+    </ThemedView>
+  );
+}
+
+const createStyles = (palette: ThemeColorSet) =>
+  StyleSheet.create({
+    card: {
+      borderRadius: 20,
+      borderWidth: 1,
+      borderColor: palette.border,
+      backgroundColor: palette.card,
+      padding: 20,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 2 },
+      shadowOpacity: 0.05,
+      shadowRadius: 8,
+      elevation: 2,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      marginBottom: 16,
+    },
+    iconContainer: {
+      width: 40,
+      height: 40,
+      borderRadius: 10,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    title: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: palette.text,
+      fontFamily: FontFamily.semiBold,
+    },
+    subtitle: {
+      fontSize: 13,
+      color: palette.muted,
+      fontFamily: FontFamily.regular,
+    },
+    emptyText: {
+      fontSize: 14,
+      color: palette.muted,
+      textAlign: 'center',
+      paddingVertical: 16,
+      fontFamily: FontFamily.regular,
+    },
+    drillDown: {
+      marginTop: 16,
+      paddingTop: 12,
+      borderTopWidth: 1,
+      borderTopColor: palette.border,
+    },
+    drillDownTitle: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: palette.muted,
+      marginBottom: 6,
+      fontFamily: FontFamily.semiBold,
+    },
+    drillDownItem: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: 8,
+      gap: 12,
+    },
+    drillDownInfo: {
+      flex: 1,
+    },
+    drillDownName: {
+      fontSize: 14,
+      color: palette.text,
+      fontFamily: FontFamily.medium,
+    },
+    drillDownDate: {
+      fontSize: 12,
+      color: palette.muted,
+      fontFamily: FontFamily.regular,
+    },
+    drillDownAmount: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: palette.text,
+      fontFamily: FontFamily.semiBold,
+    },
+  });
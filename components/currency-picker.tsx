@@ -0,0 +1,73 @@
+import { useMemo } from 'react';
+import { StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { Colors, FontFamily, type ThemeColorSet } from '@/constants/theme';
+import { CURRENCIES } from '@/lib/currency';
+import { useAppSelector } from '@/store/hooks';
+
+/** A row of currency code chips. A `value` outside `CURRENCIES` (from another device, say) is still shown. */
+export function CurrencyPicker({
+  value,
+  onChange,
+  disabled = false,
+}: {
+  value: string;
+  onChange: (currency: string) => void;
+  disabled?: boolean;
+}) {
+  const colorScheme = useAppSelector((state) => state.theme.colorScheme);
+  const palette = Colors[colorScheme ?? 'dark'];
+  const styles = useMemo(() => createStyles(palette), [palette]);
+
+  const options = CURRENCIES.includes(value) ? CURRENCIES : [...CURRENCIES, value];
+
+  return (
+    <View style={styles.chipRow}>
+      {options.map((currency) => {
+        const selected = currency === value;
+        return (
+          <TouchableOpacity
+            key={currency}
+            style={[styles.chip, selected && styles.chipSelected, disabled && !selected && styles.chipDisabled]}
+            disabled={disabled}
+            onPress={() => onChange(currency)}>
+            <ThemedText style={[styles.chipText, selected && styles.chipTextSelected]}>{currency}</ThemedText>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const createStyles = (palette: ThemeColorSet) =>
+  StyleSheet.create({
+    chipRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    chip: {
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: palette.border,
+      backgroundColor: palette.surfaceMuted,
+    },
+    chipSelected: {
+      backgroundColor: palette.accent,
+      borderColor: palette.accent,
+    },
+    chipDisabled: {
+      opacity: 0.4,
+    },
+    chipText: {
+      fontSize: 13,
+      color: palette.text,
+      fontFamily: FontFamily.medium,
+    },
+    chipTextSelected: {
+      color: '#fff',
+    },
+  });
@@ -0,0 +1,188 @@
+import { useMemo, useState } from 'react';
+import { Modal, Platform, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+
+import { ThemedText } from '@/components/themed-text';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { Colors, FontFamily, type ThemeColorSet } from '@/constants/theme';
+import { parseLocalDate, toLocalDateString } from '@/lib/local-date';
+import { useAppSelector } from '@/store/hooks';
+
+/**
+ * A YYYY-MM-DD date input: the native picker on iOS and Android, free text on web
+ * (where the picker isn't available). Values are local calendar days.
+ */
+export function DateField({
+  value,
+  onChange,
+  maximumDate,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  maximumDate?: Date;
+}) {
+  const [showPicker, setShowPicker] = useState(false);
+  const [pendingDate, setPendingDate] = useState(new Date());
+  const colorScheme = useAppSelector((state) => state.theme.colorScheme);
+  const palette = Colors[colorScheme ?? 'dark'];
+  const styles = useMemo(() => createStyles(palette), [palette]);
+
+  const parsed = parseLocalDate(value);
+
+  if (Platform.OS === 'web') {
+    return (
+      <TextInput
+        style={styles.input}
+        value={value}
+        onChangeText={onChange}
+        placeholder="YYYY-MM-DD"
+        placeholderTextColor={palette.muted}
+      />
+    );
+  }
+
+  const openPicker = () => {
+    setPendingDate(parsed ?? new Date());
+    setShowPicker(true);
+  };
+
+  const handlePickerChange = (event: any, selectedDate?: Date) => {
+    if (Platform.OS === 'android') {
+      setShowPicker(false);
+      if (event.type === 'set' && selectedDate) {
+        onChange(toLocalDateString(selectedDate));
+      }
+    } else if (selectedDate) {
+      // iOS: wait for Done so scrolling through dates doesn't commit each one
+      setPendingDate(selectedDate);
+    }
+  };
+
+  const handleIOSDone = () => {
+    onChange(toLocalDateString(pendingDate));
+    setShowPicker(false);
+  };
+
+  return (
+    <>
+      <TouchableOpacity style={[styles.input, styles.button]} onPress={openPicker}>
+        <ThemedText style={[styles.buttonText, !parsed && { color: palette.muted }]} numberOfLines={1}>
+          {parsed
+            ? parsed.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+            : 'Pick a date'}
+        </ThemedText>
+        <IconSymbol size={16} name="calendar" color={palette.muted} />
+      </TouchableOpacity>
+
+      {showPicker && Platform.OS === 'android' && (
+        <DateTimePicker
+          value={pendingDate}
+          mode="date"
+          display="default"
+          maximumDate={maximumDate}
+          onChange={handlePickerChange}
+        />
+      )}
+
+      {Platform.OS === 'ios' && (
+        <Modal visible={showPicker} transparent animationType="fade" onRequestClose={() => setShowPicker(false)}>
+          <View style={styles.overlay}>
+            <View style={styles.pickerContainer}>
+              <DateTimePicker
+                value={pendingDate}
+                mode="date"
+                display="inline"
+                maximumDate={maximumDate}
+                onChange={handlePickerChange}
+                themeVariant={colorScheme ?? 'dark'}
+              />
+              <View style={styles.pickerButtons}>
+                <TouchableOpacity style={styles.cancelButton} onPress={() => setShowPicker(false)}>
+                  <ThemedText style={styles.cancelText}>Cancel</ThemedText>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.doneButton} onPress={handleIOSDone}>
+                  <ThemedText style={styles.doneText}>Done</ThemedText>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+        </Modal>
+      )}
+    </>
+  );
+}
+
+const createStyles = (palette: ThemeColorSet) =>
+  StyleSheet.create({
+    input: {
+      borderRadius: 12,
+      borderWidth: 1.5,
+      borderColor: palette.border,
+      backgroundColor: palette.surface,
+      padding: 14,
+      fontSize: 15,
+      color: palette.text,
+      fontFamily: FontFamily.regular,
+    },
+    button: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      gap: 8,
+    },
+    buttonText: {
+      flex: 1,
+      fontSize: 15,
+      color: palette.text,
+      fontFamily: FontFamily.regular,
+    },
+    overlay: {
+      flex: 1,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    pickerContainer: {
+      width: '90%',
+      maxWidth: 400,
+      backgroundColor: palette.card,
+      borderRadius: 20,
+      padding: 20,
+      borderWidth: 1,
+      borderColor: palette.border,
+    },
+    pickerButtons: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      paddingTop: 16,
+      gap: 12,
+    },
+    cancelButton: {
+      flex: 1,
+      padding: 12,
+      borderRadius: 12,
+      borderWidth: 1.5,
+      borderColor: palette.border,
+      backgroundColor: palette.surface,
+      alignItems: 'center',
+    },
+    cancelText: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: palette.text,
+      fontFamily: FontFamily.semiBold,
+    },
+    doneButton: {
+      flex: 1,
+      padding: 12,
+      borderRadius: 12,
+      backgroundColor: '#1e40af',
+      alignItems: 'center',
+    },
+    doneText: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: '#fff',
+      fontFamily: FontFamily.semiBold,
+    },
+  });
@@ -0,0 +1,137 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, StyleSheet, TouchableOpacity, View } from 'react-native';
+import Animated, { FadeIn } from 'react-native-reanimated';
+
+import { ThemedText } from '@/components/themed-text';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { Colors, FontFamily, type ThemeColorSet } from '@/constants/theme';
+import { useAppLock } from '@/contexts/AppLockContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAppSelector } from '@/store/hooks';
+
+export function LockScreen() {
+  const { unlock } = useAppLock();
+  const { user, logout } = useAuth();
+  const [unlocking, setUnlocking] = useState(false);
+  const [failed, setFailed] = useState(false);
+  const colorScheme = useAppSelector((state) => state.theme.colorScheme);
+  const palette = Colors[colorScheme ?? 'dark'];
+  const styles = useMemo(() => createStyles(palette), [palette]);
+
+  const handleUnlock = useCallback(async () => {
+    setUnlocking(true);
+    const success = await unlock();
+    setFailed(!success);
+    setUnlocking(false);
+  }, [unlock]);
+
+  // Prompt straight away instead of making the user tap first
+  useEffect(() => {
+    handleUnlock();
+  }, [handleUnlock]);
+
+  return (
+    <Animated.View entering={FadeIn.duration(200)} style={StyleSheet.absoluteFill}>
+      <View style={styles.container}>
+        <View style={styles.content}>
+          <View style={styles.iconContainer}>
+            <IconSymbol size={48} name="lock.shield.fill" color={palette.accent} />
+          </View>
+          <ThemedText style={styles.title}>Mraker is locked</ThemedText>
+          {user?.email && <ThemedText style={styles.subtitle}>{user.email}</ThemedText>}
+          {failed && (
+            <ThemedText style={styles.errorText}>Authentication failed. Try again or use your device passcode.</ThemedText>
+          )}
+        </View>
+
+        <TouchableOpacity
+          style={[styles.unlockButton, unlocking && styles.unlockButtonDisabled]}
+          onPress={handleUnlock}
+          disabled={unlocking}>
+          {unlocking ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <>
+              <IconSymbol size={22} name="touchid" color="#fff" />
+              <ThemedText style={styles.unlockButtonText}>Unlock</ThemedText>
+            </>
+          )}
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.signOutButton} onPress={logout} disabled={unlocking}>
+          <ThemedText style={styles.signOutText}>Sign in with password instead</ThemedText>
+        </TouchableOpacity>
+      </View>
+    </Animated.View>
+  );
+}
+
+const createStyles = (palette: ThemeColorSet) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      padding: 32,
+      backgroundColor: palette.background,
+      justifyContent: 'center',
+      gap: 16,
+    },
+    content: {
+      alignItems: 'center',
+      gap: 8,
+      marginBottom: 24,
+    },
+    iconContainer: {
+      width: 88,
+      height: 88,
+      borderRadius: 44,
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: palette.accent + '15',
+      marginBottom: 8,
+    },
+    title: {
+      fontSize: 24,
+      fontWeight: '700',
+      color: palette.text,
+      fontFamily: FontFamily.bold,
+    },
+    subtitle: {
+      fontSize: 14,
+      color: palette.muted,
+      fontFamily: FontFamily.regular,
+    },
+    errorText: {
+      fontSize: 13,
+      color: palette.danger,
+      textAlign: 'center',
+      marginTop: 8,
+      fontFamily: FontFamily.regular,
+    },
+    unlockButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: palette.accent,
+      padding: 16,
+      borderRadius: 18,
+      gap: 8,
+    },
+    unlockButtonDisabled: {
+      opacity: 0.6,
+    },
+    unlockButtonText: {
+      color: '#fff',
+      fontSize: 16,
+      fontWeight: '600',
+      fontFamily: FontFamily.semiBold,
+    },
+    signOutButton: {
+      alignItems: 'center',
+      paddingVertical: 8,
+    },
+    signOutText: {
+      fontSize: 14,
+      color: palette.muted,
+      fontFamily: FontFamily.medium,
+    },
+  });
@@ -0,0 +1,193 @@
+import { useEffect, useMemo, useState } from 'react';
+import { StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useModal } from '@/components/ui/modal';
+import { Colors, FontFamily, type ThemeColorSet } from '@/constants/theme';
+import {
+  EXPENSE_PERIODS,
+  formatPeriod,
+  selectionRange,
+  shiftPeriod,
+  type PeriodSelection,
+} from '@/lib/expense-breakdown';
+import { normalizeLocalDate } from '@/lib/local-date';
+import { useAppSelector } from '@/store/hooks';
+
+/** Period chips with previous/next navigation, or start/end inputs for a custom range. */
+export function PeriodSelector({
+  selection,
+  onChange,
+}: {
+  selection: PeriodSelection;
+  onChange: (selection: PeriodSelection) => void;
+}) {
+  const [customStart, setCustomStart] = useState(selection.custom.start);
+  const [customEnd, setCustomEnd] = useState(selection.custom.end);
+  const { showModal } = useModal();
+  const colorScheme = useAppSelector((state) => state.theme.colorScheme);
+  const palette = Colors[colorScheme ?? 'dark'];
+  const styles = useMemo(() => createStyles(palette), [palette]);
+
+  useEffect(() => {
+    setCustomStart(selection.custom.start);
+    setCustomEnd(selection.custom.end);
+  }, [selection.custom.start, selection.custom.end]);
+
+  const { period } = selection;
+  const range = selectionRange(selection);
+
+  const applyCustomRange = () => {
+    const start = normalizeLocalDate(customStart);
+    const end = normalizeLocalDate(customEnd);
+    if (!start || !end) {
+      showModal({ title: 'Error', message: 'Dates must be valid YYYY-MM-DD dates', type: 'error' });
+      return;
+    }
+    if (end < start) {
+      showModal({ title: 'Error', message: 'The end date must be on or after the start date', type: 'error' });
+      return;
+    }
+    onChange({ ...selection, custom: { start, end } });
+  };
+
+  return (
+    <View>
+      <View style={styles.periodRow}>
+        {EXPENSE_PERIODS.map(({ key, label }) => (
+          <TouchableOpacity
+            key={key}
+            style={[styles.periodChip, period === key && styles.periodChipActive]}
+            onPress={() => onChange({ ...selection, period: key })}>
+            <ThemedText style={[styles.periodChipText, period === key && styles.periodChipTextActive]}>
+              {label}
+            </ThemedText>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {period === 'custom' ? (
+        <View style={styles.customRow}>
+          <TextInput
+            style={styles.customInput}
+            value={customStart}
+            onChangeText={setCustomStart}
+            placeholder="YYYY-MM-DD"
+            placeholderTextColor={palette.muted}
+          />
+          <ThemedText style={styles.customSeparator}>to</ThemedText>
+          <TextInput
+            style={styles.customInput}
+            value={customEnd}
+            onChangeText={setCustomEnd}
+            placeholder="YYYY-MM-DD"
+            placeholderTextColor={palette.muted}
+          />
+          <TouchableOpacity style={styles.applyButton} onPress={applyCustomRange}>
+            <ThemedText style={styles.applyButtonText}>Apply</ThemedText>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <View style={styles.navigator}>
+          <TouchableOpacity
+            style={styles.navButton}
+            onPress={() => onChange({ ...selection, anchor: shiftPeriod(period, selection.anchor, -1) })}>
+            <IconSymbol size={18} name="chevron.left" color={palette.text} />
+          </TouchableOpacity>
+          <ThemedText style={styles.periodLabel}>{formatPeriod(period, range)}</ThemedText>
+          <TouchableOpacity
+            style={styles.navButton}
+            onPress={() => onChange({ ...selection, anchor: shiftPeriod(period, selection.anchor, 1) })}>
+            <IconSymbol size={18} name="chevron.right" color={palette.text} />
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (palette: ThemeColorSet) =>
+  StyleSheet.create({
+    periodRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+      marginBottom: 12,
+    },
+    periodChip: {
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 10,
+      borderWidth: 1,
+      borderColor: palette.border,
+      backgroundColor: palette.surface,
+    },
+    periodChipActive: {
+      backgroundColor: palette.accent,
+      borderColor: palette.accent,
+    },
+    periodChipText: {
+      fontSize: 12,
+      color: palette.text,
+      fontFamily: FontFamily.medium,
+    },
+    periodChipTextActive: {
+      color: '#fff',
+    },
+    navigator: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+    },
+    navButton: {
+      width: 36,
+      height: 36,
+      borderRadius: 10,
+      borderWidth: 1,
+      borderColor: palette.border,
+      backgroundColor: palette.surface,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    periodLabel: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: palette.text,
+      fontFamily: FontFamily.semiBold,
+    },
+    customRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    customInput: {
+      flex: 1,
+      borderRadius: 10,
+      borderWidth: 1.5,
+      borderColor: palette.border,
+      backgroundColor: palette.surface,
+      paddingHorizontal: 10,
+      paddingVertical: 8,
+      fontSize: 13,
+      color: palette.text,
+      fontFamily: FontFamily.regular,
+    },
+    customSeparator: {
+      fontSize: 12,
+      color: palette.muted,
+      fontFamily: FontFamily.regular,
+    },
+    applyButton: {
+      paddingHorizontal: 12,
+      paddingVertical: 9,
+      borderRadius: 10,
+      backgroundColor: palette.accent,
+    },
+    applyButtonText: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: '#fff',
+      fontFamily: FontFamily.semiBold,
+    },
+  });
@@ -0,0 +1,258 @@
+import { useMemo } from 'react';
+import { StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { BarChart } from '@/components/ui/bar-chart';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { Sparkline } from '@/components/ui/sparkline';
+import { Colors, FontFamily, type ThemeColorSet } from '@/constants/theme';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import type { SavingsEntry } from '@/lib/data';
+import { formatMonthYear, monthName } from '@/lib/local-date';
+import { monthlyTrend, yearOverYear } from '@/lib/savings-trend';
+import { useAppSelector } from '@/store/hooks';
+
+const CHART_HEIGHT = 140;
+const LINE_THICKNESS = 2;
+const BAR_COLOR = '#059669';
+const SELECTED_BAR_COLOR = '#1e40af';
+
+/**
+ * Monthly savings as columns with the running total drawn over them as a line, plus the selected
+ * month compared across years. Tapping a column or a year selects that month.
+ */
+export function SavingsTrend({
+  savings,
+  selectedYear,
+  selectedMonth,
+  onSelectMonth,
+}: {
+  savings: SavingsEntry[];
+  selectedYear: number;
+  /** 0-based. */
+  selectedMonth: number;
+  onSelectMonth: (year: number, monthIndex: number) => void;
+}) {
+  const colorScheme = useAppSelector((state) => state.theme.colorScheme);
+  const palette = Colors[colorScheme ?? 'dark'];
+  const styles = useMemo(() => createStyles(palette), [palette]);
+
+  const { convert, format } = useCurrency();
+
+  const trend = useMemo(() => monthlyTrend(savings, convert), [savings, convert]);
+  const comparison = useMemo(
+    () => yearOverYear(savings, selectedMonth, convert),
+    [savings, selectedMonth, convert]
+  );
+
+  // Bars and the line each get their own scale: the running total dwarfs any single month
+  const maxAmount = Math.max(...trend.map((point) => point.amount), 0);
+
+  const first = trend[0];
+  const last = trend[trend.length - 1];
+
+  return (
+    <ThemedView style={styles.card}>
+      <View style={styles.header}>
+        <View style={[styles.iconContainer, { backgroundColor: palette.accent + '15' }]}>
+          <IconSymbol size={20} name="chart.bar.fill" color={palette.accent} />
+        </View>
+        <View>
+          <ThemedText style={styles.title}>Trend</ThemedText>
+          {first && last && (
+            <ThemedText style={styles.subtitle}>
+              {formatMonthYear(first.year, first.monthIndex, 'short')} –{' '}
+              {formatMonthYear(last.year, last.monthIndex, 'short')}
+            </ThemedText>
+          )}
+        </View>
+      </View>
+
+      <View style={styles.legend}>
+        <View style={styles.legendItem}>
+          <View style={[styles.legendSwatch, { backgroundColor: BAR_COLOR }]} />
+          <ThemedText style={styles.legendText}>Monthly</ThemedText>
+        </View>
+        <View style={styles.legendItem}>
+          <View style={[styles.legendLine, { backgroundColor: palette.accent }]} />
+          <ThemedText style={styles.legendText}>Total {format(last?.cumulative ?? 0)}</ThemedText>
+        </View>
+      </View>
+
+      <View style={styles.chart}>
+        {trend.map((point) => {
+          const isSelected = point.year === selectedYear && point.monthIndex === selectedMonth;
+          return (
+            <TouchableOpacity
+              key={`${point.year}-${point.monthIndex}`}
+              style={styles.column}
+              onPress={() => onSelectMonth(point.year, point.monthIndex)}>
+              <View
+                style={[
+                  styles.bar,
+                  {
+                    height: maxAmount > 0 ? (point.amount / maxAmount) * CHART_HEIGHT : 0,
+                    backgroundColor: isSelected ? SELECTED_BAR_COLOR : BAR_COLOR,
+                    opacity: isSelected ? 1 : 0.7,
+                  },
+                ]}
+              />
+            </TouchableOpacity>
+          );
+        })}
+
+        {/* Running total, on its own scale over the bars */}
+        <Sparkline
+          values={trend.map((point) => point.cumulative)}
+          color={palette.accent}
+          height={CHART_HEIGHT}
+          thickness={LINE_THICKNESS}
+          showDots
+          style={StyleSheet.absoluteFill}
+        />
+      </View>
+
+      <View style={styles.axis}>
+        {trend.map((point) => (
+          <ThemedText key={`${point.year}-${point.monthIndex}`} style={styles.axisLabel} numberOfLines={1}>
+            {monthName(point.monthIndex, 'short')}
+          </ThemedText>
+        ))}
+      </View>
+
+      <View style={styles.comparison}>
+        <ThemedText style={styles.comparisonTitle}>{monthName(selectedMonth)} by year</ThemedText>
+        {comparison.length === 0 ? (
+          <ThemedText style={styles.emptyText}>Nothing saved in {monthName(selectedMonth)} yet</ThemedText>
+        ) : (
+          <BarChart
+            items={comparison.map((entry) => ({
+              key: String(entry.year),
+              label: String(entry.year),
+              value: entry.amount,
+              color: entry.year === selectedYear ? SELECTED_BAR_COLOR : BAR_COLOR,
+            }))}
+            formatValue={(value) => format(value)}
+            showShare={false}
+            onSelect={(key) => onSelectMonth(Number(key), selectedMonth)}
+          />
+        )}
+      </View>
+    </ThemedView>
+  );
+}
+
+const createStyles = (palette: ThemeColorSet) =>
+  StyleSheet.create({
+    card: {
+      borderRadius: 20,
+      borderWidth: 1,
+      borderColor: palette.border,
+      backgroundColor: palette.card,
+      padding: 20,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 2 },
+      shadowOpacity: 0.05,
+      shadowRadius: 8,
+      elevation: 2,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      marginBottom: 16,
+    },
+    iconContainer: {
+      width: 40,
+      height: 40,
+      borderRadius: 10,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    title: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: palette.text,
+      fontFamily: FontFamily.semiBold,
+    },
+    subtitle: {
+      fontSize: 13,
+      color: palette.muted,
+      fontFamily: FontFamily.regular,
+    },
+    legend: {
+      flexDirection: 'row',
+      gap: 16,
+      marginBottom: 12,
+    },
+    legendItem: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+    },
+    legendSwatch: {
+      width: 10,
+      height: 10,
+      borderRadius: 2,
+    },
+    legendLine: {
+      width: 14,
+      height: LINE_THICKNESS,
+      borderRadius: 1,
+    },
+    legendText: {
+      fontSize: 12,
+      color: palette.muted,
+      fontFamily: FontFamily.medium,
+    },
+    chart: {
+      height: CHART_HEIGHT,
+      flexDirection: 'row',
+      alignItems: 'flex-end',
+      borderBottomWidth: 1,
+      borderBottomColor: palette.border,
+    },
+    column: {
+      flex: 1,
+      height: '100%',
+      alignItems: 'center',
+      justifyContent: 'flex-end',
+    },
+    bar: {
+      width: '60%',
+      borderTopLeftRadius: 4,
+      borderTopRightRadius: 4,
+    },
+    axis: {
+      flexDirection: 'row',
+      marginTop: 6,
+    },
+    axisLabel: {
+      flex: 1,
+      fontSize: 10,
+      textAlign: 'center',
+      color: palette.muted,
+      fontFamily: FontFamily.regular,
+    },
+    comparison: {
+      marginTop: 20,
+      paddingTop: 16,
+      borderTopWidth: 1,
+      borderTopColor: palette.border,
+      gap: 12,
+    },
+    comparisonTitle: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: palette.text,
+      fontFamily: FontFamily.semiBold,
+    },
+    emptyText: {
+      fontSize: 14,
+      color: palette.muted,
+      textAlign: 'center',
+      paddingVertical: 12,
+      fontFamily: FontFamily.regular,
+    },
+  });
@@ -0,0 +1,124 @@
+import { useMemo } from 'react';
+import { StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { IconSymbol, type IconSymbolName } from '@/components/ui/icon-symbol';
+import { Colors, FontFamily, type ThemeColorSet } from '@/constants/theme';
+import { useAppSelector } from '@/store/hooks';
+
+export interface BarChartItem {
+  key: string;
+  label: string;
+  value: number;
+  color: string;
+  icon?: IconSymbolName;
+}
+
+/**
+ * Horizontal bar chart drawn with plain views. Bars are scaled against the largest value
+ * and, unless `showShare` is off, show their share of the total; pass `onSelect` to make rows tappable.
+ */
+export function BarChart({
+  items,
+  formatValue,
+  selectedKey,
+  onSelect,
+  showShare = true,
+}: {
+  items: BarChartItem[];
+  formatValue: (value: number) => string;
+  selectedKey?: string | null;
+  onSelect?: (key: string) => void;
+  showShare?: boolean;
+}) {
+  const colorScheme = useAppSelector((state) => state.theme.colorScheme);
+  const palette = Colors[colorScheme ?? 'dark'];
+  const styles = useMemo(() => createStyles(palette), [palette]);
+
+  const max = Math.max(...items.map((item) => item.value), 0);
+  const total = items.reduce((sum, item) => sum + item.value, 0);
+
+  return (
+    <View style={styles.container}>
+      {items.map((item) => {
+        const isSelected = selectedKey === item.key;
+        const isDimmed = !!selectedKey && !isSelected;
+        const share = total > 0 ? Math.round((item.value / total) * 100) : 0;
+        return (
+          <TouchableOpacity
+            key={item.key}
+            disabled={!onSelect}
+            onPress={() => onSelect?.(item.key)}
+            style={[styles.row, isDimmed && styles.rowDimmed]}>
+            <View style={styles.labelRow}>
+              <View style={styles.labelLeft}>
+                {item.icon && <IconSymbol size={14} name={item.icon} color={item.color} />}
+                <ThemedText style={styles.label} numberOfLines={1}>
+                  {item.label}
+                </ThemedText>
+              </View>
+              <ThemedText style={styles.value}>
+                {formatValue(item.value)}
+                {showShare && ` · ${share}%`}
+              </ThemedText>
+            </View>
+            <View style={styles.track}>
+              <View
+                style={[
+                  styles.bar,
+                  { width: `${max > 0 ? (item.value / max) * 100 : 0}%`, backgroundColor: item.color },
+                ]}
+              />
+            </View>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const createStyles = (palette: ThemeColorSet) =>
+  StyleSheet.create({
+    container: {
+      gap: 12,
+    },
+    row: {
+      gap: 6,
+    },
+    rowDimmed: {
+      opacity: 0.4,
+    },
+    labelRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      gap: 8,
+    },
+    labelLeft: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      flex: 1,
+    },
+    label: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: palette.text,
+      fontFamily: FontFamily.semiBold,
+    },
+    value: {
+      fontSize: 12,
+      color: palette.muted,
+      fontFamily: FontFamily.medium,
+    },
+    track: {
+      height: 10,
+      borderRadius: 5,
+      backgroundColor: palette.surfaceMuted,
+      overflow: 'hidden',
+    },
+    bar: {
+      height: '100%',
+      borderRadius: 5,
+    },
+  });
@@ -6,7 +6,7 @@ import { ComponentProps } from 'react';
 import { OpaqueColorValue, type StyleProp, type TextStyle } from 'react-native';
 
 type IconMapping = Record<SymbolViewProps['name'], ComponentProps<typeof MaterialIcons>['name']>;
-type IconSymbolName = keyof typeof MAPPING;
+export type IconSymbolName = keyof typeof MAPPING;
 
 /**
  * Add your SF Symbols to Material Icons mappings here.
@@ -17,6 +17,7 @@ const MAPPING = {
   'house.fill': 'home',
   'paperplane.fill': 'send',
   'chevron.left.forwardslash.chevron.right': 'code',
+  'chevron.left': 'chevron-left',
   'chevron.right': 'chevron-right',
   'banknote.fill': 'attach-money',
   'briefcase.fill': 'work',
@@ -32,6 +33,7 @@ const MAPPING = {
   'list.bullet': 'format-list-bulleted',
   tray: 'inventory-2',
   'trash.fill': 'delete',
+  repeat: 'repeat',
   'sun.max.fill': 'wb-sunny',
   'mic.fill': 'mic',
   'stop.fill': 'stop-circle',
@@ -50,6 +52,36 @@ const MAPPING = {
   'lock.fill': 'lock',
   clock: 'schedule',
   'creditcard.fill': 'credit-card',
+  'gearshape.fill': 'settings',
+  'rectangle.portrait.and.arrow.right': 'logout',
+  'arrow.up.circle.fill': 'arrow-circle-up',
+  'arrow.uturn.backward': 'undo',
+  'clock.arrow.circlepath': 'history',
+  'exclamationmark.triangle.fill': 'warning',
+  'cart.fill': 'shopping-cart',
+  'fork.knife': 'restaurant',
+  'car.fill': 'directions-car',
+  'bolt.fill': 'bolt',
+  'heart.fill': 'favorite',
+  'gamecontroller.fill': 'sports-esports',
+  'bag.fill': 'shopping-bag',
+  'tag.fill': 'local-offer',
+  'book.fill': 'menu-book',
+  'gift.fill': 'card-giftcard',
+  'airplane': 'flight',
+  'chart.bar.fill': 'bar-chart',
+  'square.grid.2x2.fill': 'category',
+  target: 'track-changes',
+  'building.columns.fill': 'account-balance',
+  'wallet.pass.fill': 'account-balance-wallet',
+  iphone: 'smartphone',
+  globe: 'public',
+  'arrow.left.arrow.right': 'swap-horiz',
+  'square.and.arrow.up': 'ios-share',
+  'doc.text.fill': 'description',
+  curlybraces: 'data-object',
+  'externaldrive.fill': 'backup',
+  'arrow.counterclockwise': 'restore',
 } as IconMapping;
 
 /**
@@ -1,4 +1,4 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
+import React, { createContext, useCallback, useContext, useMemo, useState, ReactNode } from 'react';
 import { Modal, StyleSheet, TouchableOpacity, View, Animated } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { ThemedText } from '@/components/themed-text';
@@ -30,18 +30,22 @@ export function ModalProvider({ children }: { children: ReactNode }) {
   const colorScheme = useAppSelector((state) => state.theme.colorScheme);
   const palette = Colors[colorScheme ?? 'dark'];
 
-  const showModal = (modalConfig: ModalConfig) => {
-    setConfig(modalConfig);
-    setVisible(true);
-    Animated.spring(scaleAnim, {
-      toValue: 1,
-      useNativeDriver: true,
-      tension: 50,
-      friction: 7,
-    }).start();
-  };
+  // Stable across renders, so screens can list them as effect dependencies
+  const showModal = useCallback(
+    (modalConfig: ModalConfig) => {
+      setConfig(modalConfig);
+      setVisible(true);
+      Animated.spring(scaleAnim, {
+        toValue: 1,
+        useNativeDriver: true,
+        tension: 50,
+        friction: 7,
+      }).start();
+    },
+    [scaleAnim]
+  );
 
-  const hideModal = () => {
+  const hideModal = useCallback(() => {
     Animated.timing(scaleAnim, {
       toValue: 0,
       duration: 200,
@@ -50,7 +54,9 @@ export function ModalProvider({ children }: { children: ReactNode }) {
       setVisible(false);
       setConfig(null);
     });
-  };
+  }, [scaleAnim]);
+
+  const value = useMemo(() => ({ showModal, hideModal }), [showModal, hideModal]);
 
   const handleConfirm = () => {
     if (config?.onConfirm) {
@@ -112,7 +118,7 @@ export function ModalProvider({ children }: { children: ReactNode }) {
   };
 
   return (
-    <ModalContext.Provider value={{ showModal, hideModal }}>
+    <ModalContext.Provider value={value}>
       {children}
       <Modal
         visible={visible}
@@ -0,0 +1,90 @@
+import { useMemo, type ReactNode } from 'react';
+import { StyleSheet, View } from 'react-native';
+
+import { Colors } from '@/constants/theme';
+import { useAppSelector } from '@/store/hooks';
+
+/**
+ * Circular progress drawn with plain views: each half of the ring is a clipped circle whose
+ * top and right borders form a 180° arc, rotated to reveal as much of the half as `progress` covers.
+ */
+export function ProgressRing({
+  progress,
+  color,
+  size = 64,
+  thickness = 6,
+  children,
+}: {
+  /** 0 to 1; values outside are clamped. */
+  progress: number;
+  color: string;
+  size?: number;
+  thickness?: number;
+  children?: ReactNode;
+}) {
+  const colorScheme = useAppSelector((state) => state.theme.colorScheme);
+  const palette = Colors[colorScheme ?? 'dark'];
+  const styles = useMemo(() => createStyles(size, thickness), [size, thickness]);
+
+  const clamped = Math.min(Math.max(progress, 0), 1);
+  // At -135° the arc sits entirely in the other half; at 45° it fills this one
+  const rightRotation = -135 + Math.min(clamped, 0.5) * 360;
+  const leftRotation = 45 + Math.max(clamped - 0.5, 0) * 360;
+  const arc = { borderTopColor: color, borderRightColor: color };
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.circle, { borderColor: palette.border }]} />
+      {clamped > 0 && (
+        <>
+          <View style={[styles.half, styles.rightHalf]}>
+            <View style={[styles.circle, styles.arc, arc, styles.rightArc, { transform: [{ rotate: `${rightRotation}deg` }] }]} />
+          </View>
+          {clamped > 0.5 && (
+            <View style={styles.half}>
+              <View style={[styles.circle, styles.arc, arc, { transform: [{ rotate: `${leftRotation}deg` }] }]} />
+            </View>
+          )}
+        </>
+      )}
+      <View style={styles.center}>{children}</View>
+    </View>
+  );
+}
+
+const createStyles = (size: number, thickness: number) =>
+  StyleSheet.create({
+    container: {
+      width: size,
+      height: size,
+    },
+    circle: {
+      position: 'absolute',
+      width: size,
+      height: size,
+      borderRadius: size / 2,
+      borderWidth: thickness,
+    },
+    arc: {
+      borderColor: 'transparent',
+    },
+    half: {
+      position: 'absolute',
+      top: 0,
+      left: 0,
+      width: size / 2,
+      height: size,
+      overflow: 'hidden',
+    },
+    rightHalf: {
+      left: size / 2,
+    },
+    rightArc: {
+      left: -size / 2,
+    },
+    center: {
+      ...StyleSheet.absoluteFillObject,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+  });
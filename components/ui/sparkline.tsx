@@ -0,0 +1,101 @@
+import { useMemo, useState } from 'react';
+import { StyleSheet, View, type StyleProp, type ViewStyle } from 'react-native';
+
+const DOT_SIZE = 6;
+
+/**
+ * Line chart drawn with plain views: each pair of neighbouring points is joined by a rotated bar.
+ * Points sit at the centre of equal-width columns, so the line lines up with a row of bars of
+ * the same count. Values are scaled between `min` (default 0 or the lowest value, if negative)
+ * and `max` (default the highest value).
+ */
+export function Sparkline({
+  values,
+  color,
+  height,
+  thickness = 2,
+  showDots = false,
+  min,
+  max,
+  style,
+}: {
+  values: number[];
+  color: string;
+  height: number;
+  thickness?: number;
+  showDots?: boolean;
+  min?: number;
+  max?: number;
+  style?: StyleProp<ViewStyle>;
+}) {
+  const [width, setWidth] = useState(0);
+  const styles = useMemo(() => createStyles(height, thickness), [height, thickness]);
+
+  const low = min ?? Math.min(...values, 0);
+  const high = max ?? Math.max(...values, low);
+  const span = high - low;
+  const columnWidth = values.length > 0 ? width / values.length : 0;
+  const points = values.map((value, index) => ({
+    x: columnWidth * (index + 0.5),
+    y: span > 0 ? height - ((value - low) / span) * height : height,
+  }));
+
+  return (
+    <View
+      pointerEvents="none"
+      style={[styles.container, style]}
+      onLayout={(event) => setWidth(event.nativeEvent.layout.width)}>
+      {width > 0 &&
+        points.slice(1).map((point, index) => {
+          const previous = points[index];
+          const dx = point.x - previous.x;
+          const dy = point.y - previous.y;
+          const length = Math.sqrt(dx * dx + dy * dy);
+          return (
+            <View
+              key={`segment-${index}`}
+              style={[
+                styles.segment,
+                {
+                  width: length,
+                  left: (previous.x + point.x) / 2 - length / 2,
+                  top: (previous.y + point.y) / 2 - thickness / 2,
+                  backgroundColor: color,
+                  transform: [{ rotate: `${Math.atan2(dy, dx)}rad` }],
+                },
+              ]}
+            />
+          );
+        })}
+      {width > 0 &&
+        showDots &&
+        points.map((point, index) => (
+          <View
+            key={`dot-${index}`}
+            style={[
+              styles.dot,
+              { left: point.x - DOT_SIZE / 2, top: point.y - DOT_SIZE / 2, backgroundColor: color },
+            ]}
+          />
+        ))}
+    </View>
+  );
+}
+
+const createStyles = (height: number, thickness: number) =>
+  StyleSheet.create({
+    container: {
+      height,
+    },
+    segment: {
+      position: 'absolute',
+      height: thickness,
+      borderRadius: thickness / 2,
+    },
+    dot: {
+      position: 'absolute',
+      width: DOT_SIZE,
+      height: DOT_SIZE,
+      borderRadius: DOT_SIZE / 2,
+    },
+  });
@@ -0,0 +1,12 @@
+import type { IconSymbolName } from '@/components/ui/icon-symbol';
+
+export { CATEGORY_COLORS as ACCOUNT_COLORS } from './categories';
+
+export const ACCOUNT_ICONS: IconSymbolName[] = [
+  'banknote.fill',
+  'building.columns.fill',
+  'wallet.pass.fill',
+  'creditcard.fill',
+  'iphone',
+  'house.fill',
+];
@@ -0,0 +1,33 @@
+import type { IconSymbolName } from '@/components/ui/icon-symbol';
+
+export const CATEGORY_ICONS: IconSymbolName[] = [
+  'cart.fill',
+  'fork.knife',
+  'house.fill',
+  'car.fill',
+  'bolt.fill',
+  'heart.fill',
+  'bag.fill',
+  'gamecontroller.fill',
+  'book.fill',
+  'gift.fill',
+  'airplane',
+  'creditcard.fill',
+  'tag.fill',
+];
+
+export const CATEGORY_COLORS = [
+  '#F87171',
+  '#FB923C',
+  '#FACC15',
+  '#4ADE80',
+  '#22D3EE',
+  '#38BDF8',
+  '#8B5CF6',
+  '#EC4899',
+  '#94A3B8',
+];
+
+// Shown for expenses without a category, or whose category was deleted
+export const UNCATEGORIZED_ICON: IconSymbolName = 'square.grid.2x2.fill';
+export const UNCATEGORIZED_COLOR = '#94A3B8';
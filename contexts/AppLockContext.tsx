@@ -0,0 +1,163 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { AppState, Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as LocalAuthentication from 'expo-local-authentication';
+
+import { useAuth } from '@/contexts/AuthContext';
+
+export interface AppLockSettings {
+  enabled: boolean;
+  /** Seconds the app may sit in the background before it locks; 0 locks immediately. */
+  timeoutSeconds: number;
+}
+
+interface AppLockContextType {
+  locked: boolean;
+  /** Whether the device has biometrics or a PIN/passcode that can gate the app. */
+  available: boolean;
+  settings: AppLockSettings;
+  updateSettings: (changes: Partial<AppLockSettings>) => Promise<void>;
+  unlock: () => Promise<boolean>;
+  lock: () => void;
+}
+
+export const AUTO_LOCK_TIMEOUTS = [0, 30, 60, 300, 900];
+
+const SETTINGS_KEY = 'appLock:settings';
+
+const DEFAULT_SETTINGS: AppLockSettings = {
+  enabled: true,
+  timeoutSeconds: 60,
+};
+
+const AppLockContext = createContext<AppLockContextType | undefined>(undefined);
+
+export function AppLockProvider({ children }: { children: React.ReactNode }) {
+  const { session, isLoading } = useAuth();
+  const [settings, setSettings] = useState<AppLockSettings>(DEFAULT_SETTINGS);
+  const [settingsLoaded, setSettingsLoaded] = useState(false);
+  const [available, setAvailable] = useState(false);
+  const [availabilityChecked, setAvailabilityChecked] = useState(false);
+  const [locked, setLocked] = useState(false);
+  const backgroundedAt = useRef<number | null>(null);
+  const coldStartChecked = useRef(false);
+
+  useEffect(() => {
+    loadSettings();
+    checkAvailability();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      const stored = await AsyncStorage.getItem(SETTINGS_KEY);
+      if (stored) {
+        setSettings({ ...DEFAULT_SETTINGS, ...JSON.parse(stored) });
+      }
+    } catch (error) {
+      console.error('Error loading app lock settings:', error);
+    } finally {
+      setSettingsLoaded(true);
+    }
+  };
+
+  const checkAvailability = async () => {
+    try {
+      if (Platform.OS !== 'web') {
+        // SECRET covers a PIN/passcode/pattern even without enrolled biometrics
+        const level = await LocalAuthentication.getEnrolledLevelAsync();
+        setAvailable(level !== LocalAuthentication.SecurityLevel.NONE);
+      }
+    } catch (error) {
+      console.error('Error checking device security:', error);
+    } finally {
+      setAvailabilityChecked(true);
+    }
+  };
+
+  const shouldLock = available && settings.enabled && !!session;
+
+  // A restored session on cold start is gated just like returning from the background
+  useEffect(() => {
+    if (coldStartChecked.current || isLoading || !settingsLoaded || !availabilityChecked) return;
+    coldStartChecked.current = true;
+    if (shouldLock) setLocked(true);
+  }, [isLoading, settingsLoaded, availabilityChecked, shouldLock]);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      // 'inactive' also fires while the biometric prompt is showing, so only 'background' counts
+      if (state === 'background') {
+        backgroundedAt.current = Date.now();
+      } else if (state === 'active' && backgroundedAt.current !== null) {
+        const elapsedSeconds = (Date.now() - backgroundedAt.current) / 1000;
+        backgroundedAt.current = null;
+        if (shouldLock && elapsedSeconds >= settings.timeoutSeconds) {
+          setLocked(true);
+        }
+      }
+    });
+    return () => subscription.remove();
+  }, [shouldLock, settings.timeoutSeconds]);
+
+  // Signing out drops the gate along with the session
+  useEffect(() => {
+    if (!session) setLocked(false);
+  }, [session]);
+
+  const updateSettings = async (changes: Partial<AppLockSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    try {
+      await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+    } catch (error) {
+      console.error('Error saving app lock settings:', error);
+    }
+  };
+
+  const unlock = useCallback(async (): Promise<boolean> => {
+    try {
+      const result = await LocalAuthentication.authenticateAsync({
+        promptMessage: 'Unlock Mraker',
+        cancelLabel: 'Cancel',
+        // Falls back to the device PIN/passcode when biometrics fail or aren't enrolled
+        fallbackLabel: 'Use passcode',
+        disableDeviceFallback: false,
+      });
+      if (result.success) {
+        setLocked(false);
+        return true;
+      }
+      return false;
+    } catch (error) {
+      console.error('Unlock error:', error);
+      return false;
+    }
+  }, []);
+
+  const lock = useCallback(() => {
+    if (shouldLock) setLocked(true);
+  }, [shouldLock]);
+
+  return (
+    <AppLockContext.Provider
+      value={{
+        locked,
+        available,
+        settings,
+        updateSettings,
+        unlock,
+        lock,
+      }}
+    >
+      {children}
+    </AppLockContext.Provider>
+  );
+}
+
+export function useAppLock() {
+  const context = useContext(AppLockContext);
+  if (context === undefined) {
+    throw new Error('useAppLock must be used within an AppLockProvider');
+  }
+  return context;
+}
@@ -1,130 +1,138 @@
-import React, { createContext, useState, useContext, useEffect } from 'react';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import * as LocalAuthentication from 'expo-local-authentication';
+import React, { createContext, useState, useContext, useEffect, useRef, useCallback } from 'react';
+import type { AuthChangeEvent, Session, User } from '@supabase/supabase-js';
 import { supabase } from '@/lib/supabase';
 
+interface AuthResult {
+  success: boolean;
+  error?: string;
+}
+
 interface AuthContextType {
-  isAuthenticated: boolean;
-  login: (username: string, password: string) => Promise<boolean>;
-  loginWithFingerprint: () => Promise<boolean>;
+  session: Session | null;
+  user: User | null;
+  login: (email: string, password: string) => Promise<AuthResult>;
+  signUp: (email: string, password: string) => Promise<AuthResult & { needsConfirmation?: boolean }>;
   logout: () => Promise<void>;
+  onAuthEvent: (listener: (event: AuthChangeEvent, session: Session | null) => void) => () => void;
+  sessionExpired: boolean;
   isLoading: boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Treat a session as expired slightly early so requests don't race the refresh
+const EXPIRY_MARGIN_SECONDS = 30;
+
+const isExpired = (session: Session) =>
+  !!session.expires_at && session.expires_at - EXPIRY_MARGIN_SECONDS <= Date.now() / 1000;
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [session, setSession] = useState<Session | null>(null);
+  const [sessionExpired, setSessionExpired] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [listeners] = useState(() => new Set<(event: AuthChangeEvent, session: Session | null) => void>());
+  const explicitLogout = useRef(false);
 
   useEffect(() => {
-    checkAuthStatus();
-  }, []);
+    restoreSession();
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, nextSession) => {
+      setSession(nextSession);
+      if (event === 'SIGNED_IN' || event === 'TOKEN_REFRESHED') {
+        setSessionExpired(false);
+      } else if (event === 'SIGNED_OUT') {
+        // A sign-out we didn't ask for means the refresh token was rejected
+        setSessionExpired(!explicitLogout.current);
+        explicitLogout.current = false;
+      }
+      listeners.forEach((listener) => listener(event, nextSession));
+    });
 
-  const checkAuthStatus = async () => {
+    return () => subscription.unsubscribe();
+  }, [listeners]);
+
+  const restoreSession = async () => {
     try {
-      const authStatus = await AsyncStorage.getItem('isAuthenticated');
-      if (authStatus === 'true') {
-        setIsAuthenticated(true);
+      const { data, error } = await supabase.auth.getSession();
+      if (error) throw error;
+
+      let current = data.session;
+      if (current && isExpired(current)) {
+        // The stored access token is stale; try the refresh token before giving up
+        const { data: refreshed, error: refreshError } = await supabase.auth.refreshSession();
+        if (refreshError || !refreshed.session) {
+          await supabase.auth.signOut({ scope: 'local' });
+          setSessionExpired(true);
+          current = null;
+        } else {
+          current = refreshed.session;
+        }
       }
+      setSession(current);
     } catch (error) {
-      console.error('Error checking auth status:', error);
+      console.error('Error restoring session:', error);
     } finally {
       setIsLoading(false);
     }
   };
 
-  const login = async (username: string, password: string): Promise<boolean> => {
+  const login = async (email: string, password: string): Promise<AuthResult> => {
     try {
-      // Check credentials against database
-      const { data, error } = await supabase
-        .from('users')
-        .select('*')
-        .eq('username', username)
-        .eq('password', password)
-        .single();
-
-      if (error || !data) {
-        return false;
+      const { error } = await supabase.auth.signInWithPassword({ email, password });
+      if (error) {
+        return { success: false, error: error.message };
       }
-
-      await AsyncStorage.setItem('isAuthenticated', 'true');
-      await AsyncStorage.setItem('username', username);
-      setIsAuthenticated(true);
-      return true;
-    } catch (error) {
+      return { success: true };
+    } catch (error: any) {
       console.error('Login error:', error);
-      return false;
+      return { success: false, error: error.message };
     }
   };
 
-  const loginWithFingerprint = async (): Promise<boolean> => {
+  const signUp = async (email: string, password: string) => {
     try {
-      // Check if device supports biometric authentication
-      const compatible = await LocalAuthentication.hasHardwareAsync();
-      if (!compatible) {
-        return false;
-      }
-
-      // Check if biometrics are enrolled
-      const enrolled = await LocalAuthentication.isEnrolledAsync();
-      if (!enrolled) {
-        return false;
-      }
-
-      // Authenticate with biometrics
-      const result = await LocalAuthentication.authenticateAsync({
-        promptMessage: 'Authenticate to login',
-        cancelLabel: 'Cancel',
-        fallbackLabel: 'Use password',
-      });
-
-      if (result.success) {
-        // If biometric auth succeeds, verify user credentials
-        const username = 'ejaz';
-        const password = '123';
-        
-        const { data, error } = await supabase
-          .from('users')
-          .select('*')
-          .eq('username', username)
-          .eq('password', password)
-          .single();
-
-        if (error || !data) {
-          return false;
-        }
-
-        await AsyncStorage.setItem('isAuthenticated', 'true');
-        await AsyncStorage.setItem('username', username);
-        setIsAuthenticated(true);
-        return true;
+      const { data, error } = await supabase.auth.signUp({ email, password });
+      if (error) {
+        return { success: false, error: error.message };
       }
-
-      return false;
-    } catch (error) {
-      console.error('Fingerprint login error:', error);
-      return false;
+      // Projects with email confirmation enabled return no session until the link is opened
+      return { success: true, needsConfirmation: !data.session };
+    } catch (error: any) {
+      console.error('Sign up error:', error);
+      return { success: false, error: error.message };
     }
   };
 
   const logout = async (): Promise<void> => {
     try {
-      await AsyncStorage.removeItem('isAuthenticated');
-      await AsyncStorage.removeItem('username');
-      setIsAuthenticated(false);
+      explicitLogout.current = true;
+      const { error } = await supabase.auth.signOut();
+      if (error) throw error;
     } catch (error) {
       console.error('Logout error:', error);
     }
   };
 
+  const onAuthEvent = useCallback(
+    (listener: (event: AuthChangeEvent, session: Session | null) => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    [listeners]
+  );
+
   return (
     <AuthContext.Provider
       value={{
-        isAuthenticated,
+        session,
+        user: session?.user ?? null,
         login,
-        loginWithFingerprint,
+        signUp,
         logout,
+        onAuthEvent,
+        sessionExpired,
         isLoading,
       }}
     >
@@ -140,4 +148,3 @@ export function useAuth() {
   }
   return context;
 }
-
@@ -0,0 +1,60 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { useRepositories } from '@/contexts/DataContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { createConverter, formatMoney, type Convert } from '@/lib/currency';
+import type { ExchangeRate } from '@/lib/data';
+
+interface CurrencyContextType {
+  baseCurrency: string;
+  rates: ExchangeRate[];
+  /** Converts an amount to the base currency at the rate effective on `date`. */
+  convert: Convert;
+  /** Formats an amount in `currency`, the base currency by default. */
+  format: (amount: number, currency?: string, options?: { signed?: boolean }) => string;
+  /** Reloads the rates after they were changed. */
+  refreshRates: () => Promise<void>;
+}
+
+const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
+
+export function CurrencyProvider({ children }: { children: React.ReactNode }) {
+  const { exchangeRates } = useRepositories();
+  const { preferences } = usePreferences();
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+
+  const refreshRates = useCallback(async () => {
+    try {
+      setRates(await exchangeRates.list());
+    } catch (error) {
+      console.error('Error loading exchange rates:', error);
+    }
+  }, [exchangeRates]);
+
+  // The repositories change with the signed-in user
+  useEffect(() => {
+    refreshRates();
+  }, [refreshRates]);
+
+  const baseCurrency = preferences.baseCurrency;
+  const value = useMemo(
+    () => ({
+      baseCurrency,
+      rates,
+      convert: createConverter(rates, baseCurrency),
+      format: (amount: number, currency = baseCurrency, options?: { signed?: boolean }) =>
+        formatMoney(amount, currency, options),
+      refreshRates,
+    }),
+    [baseCurrency, rates, refreshRates]
+  );
+
+  return <CurrencyContext.Provider value={value}>{children}</CurrencyContext.Provider>;
+}
+
+export function useCurrency() {
+  const context = useContext(CurrencyContext);
+  if (context === undefined) {
+    throw new Error('useCurrency must be used within a CurrencyProvider');
+  }
+  return context;
+}
@@ -0,0 +1,32 @@
+import React, { createContext, useContext, useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { createUserRepositories, type Repositories } from '@/lib/data';
+
+const DataContext = createContext<Repositories | undefined>(undefined);
+
+// Scopes the app repositories to the signed-in user, opening their default account in the base currency.
+// Pass `repositories` to swap in another backend (e.g. createMemoryBackend) for a subtree.
+export function DataProvider({
+  repositories,
+  children,
+}: {
+  repositories?: Repositories;
+  children: React.ReactNode;
+}) {
+  const { user } = useAuth();
+  const { preferences } = usePreferences();
+  const userId = user?.id ?? null;
+  const baseCurrency = preferences.baseCurrency;
+  const userRepositories = useMemo(() => createUserRepositories(userId, baseCurrency), [userId, baseCurrency]);
+
+  return <DataContext.Provider value={repositories ?? userRepositories}>{children}</DataContext.Provider>;
+}
+
+export function useRepositories() {
+  const context = useContext(DataContext);
+  if (context === undefined) {
+    throw new Error('useRepositories must be used within a DataProvider');
+  }
+  return context;
+}
@@ -0,0 +1,67 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DEFAULT_CURRENCY } from '@/lib/currency';
+
+export interface Preferences {
+  /** Whether new expenses debit the Home balance unless switched off per expense. */
+  debitExpensesByDefault: boolean;
+  /** ISO 4217 code that totals are converted to and new entries default to. */
+  baseCurrency: string;
+}
+
+interface PreferencesContextType {
+  preferences: Preferences;
+  updatePreferences: (changes: Partial<Preferences>) => Promise<void>;
+}
+
+const PREFERENCES_KEY = 'preferences';
+
+const DEFAULT_PREFERENCES: Preferences = {
+  debitExpensesByDefault: true,
+  baseCurrency: DEFAULT_CURRENCY,
+};
+
+const PreferencesContext = createContext<PreferencesContextType | undefined>(undefined);
+
+export function PreferencesProvider({ children }: { children: React.ReactNode }) {
+  const [preferences, setPreferences] = useState<Preferences>(DEFAULT_PREFERENCES);
+
+  useEffect(() => {
+    loadPreferences();
+  }, []);
+
+  const loadPreferences = async () => {
+    try {
+      const stored = await AsyncStorage.getItem(PREFERENCES_KEY);
+      if (stored) {
+        setPreferences({ ...DEFAULT_PREFERENCES, ...JSON.parse(stored) });
+      }
+    } catch (error) {
+      console.error('Error loading preferences:', error);
+    }
+  };
+
+  const updatePreferences = async (changes: Partial<Preferences>) => {
+    const next = { ...preferences, ...changes };
+    setPreferences(next);
+    try {
+      await AsyncStorage.setItem(PREFERENCES_KEY, JSON.stringify(next));
+    } catch (error) {
+      console.error('Error saving preferences:', error);
+    }
+  };
+
+  return (
+    <PreferencesContext.Provider value={{ preferences, updatePreferences }}>
+      {children}
+    </PreferencesContext.Provider>
+  );
+}
+
+export function usePreferences() {
+  const context = useContext(PreferencesContext);
+  if (context === undefined) {
+    throw new Error('usePreferences must be used within a PreferencesProvider');
+  }
+  return context;
+}
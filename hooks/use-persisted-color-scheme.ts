@@ -0,0 +1,29 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useEffect, useState } from 'react';
+
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { setColorScheme } from '@/store/themeSlice';
+
+const COLOR_SCHEME_KEY = 'theme:colorScheme';
+
+/** Loads the saved theme on launch and saves it whenever it changes, whether toggled or restored from a backup. */
+export function usePersistedColorScheme() {
+  const dispatch = useAppDispatch();
+  const colorScheme = useAppSelector((state) => state.theme.colorScheme);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    AsyncStorage.getItem(COLOR_SCHEME_KEY)
+      .then((stored) => {
+        if (stored === 'light' || stored === 'dark') dispatch(setColorScheme(stored));
+      })
+      .catch((error) => console.error('Error loading theme:', error))
+      .finally(() => setLoaded(true));
+  }, [dispatch]);
+
+  // Nothing is saved until the stored theme is read, so the default can't overwrite it
+  useEffect(() => {
+    if (!loaded) return;
+    AsyncStorage.setItem(COLOR_SCHEME_KEY, colorScheme).catch((error) => console.error('Error saving theme:', error));
+  }, [loaded, colorScheme]);
+}
@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+
+import { useAuth } from '@/contexts/AuthContext';
+import { syncFor, type SyncController, type SyncStatus } from '@/lib/data';
+
+/** Sync controls for the signed-in user's outbox. */
+export function useSync(): SyncController {
+  const { user } = useAuth();
+  return syncFor(user?.id ?? null);
+}
+
+export function useSyncStatus(): SyncStatus {
+  const sync = useSync();
+  const [status, setStatus] = useState(sync.getStatus);
+
+  useEffect(() => {
+    setStatus(sync.getStatus());
+    return sync.subscribe(setStatus);
+  }, [sync]);
+
+  return status;
+}
@@ -0,0 +1,20 @@
+// Test environment that lets a test switch the device time zone with `setTimeZone('Asia/Kolkata')`.
+// Node re-reads TZ whenever process.env.TZ changes, but tests only see a copy of process.env,
+// so the switch has to happen out here.
+const ReactNativeEnvironment = require('react-native/jest/react-native-env');
+
+module.exports = class TimeZoneEnvironment extends ReactNativeEnvironment {
+  constructor(config, context) {
+    super(config, context);
+    this.originalTimeZone = process.env.TZ;
+    this.global.setTimeZone = (timeZone) => {
+      if (timeZone === undefined) delete process.env.TZ;
+      else process.env.TZ = timeZone;
+    };
+  }
+
+  async teardown() {
+    this.global.setTimeZone(this.originalTimeZone);
+    await super.teardown();
+  }
+};
@@ -0,0 +1,44 @@
+import type { DataBackend } from '@/lib/data/backend';
+import { createMemoryBackend } from '@/lib/data/memory-backend';
+import { createBackupRepository } from '@/lib/data/repositories/backup';
+import type { ExpenseCategory } from '@/lib/data/types';
+
+const category = (id: string, name: string): ExpenseCategory => ({
+  id,
+  user_id: 'user',
+  name,
+  icon: 'tag.fill',
+  color: '#888888',
+  created_at: '2026-10-01T00:00:00.000Z',
+});
+
+// The server, refusing to insert any row named `name`
+const rejectingName = (backend: DataBackend, name: string): DataBackend => ({
+  ...backend,
+  insert: (table, values) =>
+    values.some((value: Record<string, unknown>) => value.name === name)
+      ? Promise.reject(Object.assign(new Error('new row violates check constraint'), { code: '23514' }))
+      : backend.insert(table, values),
+});
+
+describe('replacing from a backup', () => {
+  it('puts the tables back as they were when the server rejects a row', async () => {
+    const server = createMemoryBackend({ expense_categories: [category('current', 'Food')] });
+    const backup = createBackupRepository(server, rejectingName(server, 'Travel'));
+
+    await expect(backup.restore({ expense_categories: [category('restored', 'Travel')] }, 'replace')).rejects.toThrow(
+      'your data was put back as it was'
+    );
+    expect((await server.select('expense_categories')).map((row) => row.id)).toEqual(['current']);
+  });
+
+  it('writes the backup when the server accepts it', async () => {
+    const server = createMemoryBackend({ expense_categories: [category('current', 'Food')] });
+    const backup = createBackupRepository(server, rejectingName(server, 'Other'));
+
+    await expect(backup.restore({ expense_categories: [category('restored', 'Travel')] }, 'replace')).resolves.toEqual({
+      expense_categories: 1,
+    });
+    expect((await server.select('expense_categories')).map((row) => row.id)).toEqual(['restored']);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * @jest-environment ./jest/time-zone-environment.js
+ */
+import {
+  addDays,
+  daysInMonth,
+  normalizeLocalDate,
+  parseLocalDate,
+  toLocalDate,
+  toLocalDateString,
+  toLocalMonthString,
+} from '@/lib/local-date';
+
+declare function setTimeZone(timeZone: string | undefined): void;
+
+// Runs `run` as if the device were set to `timeZone`
+const inTimeZone = (timeZone: string, run: () => void) =>
+  describe(timeZone, () => {
+    beforeAll(() => setTimeZone(timeZone));
+    afterAll(() => setTimeZone(undefined));
+    run();
+  });
+
+// Far west and far east of UTC, plus zones with DST and a half-hour offset
+const TIME_ZONES = ['Pacific/Pago_Pago', 'America/New_York', 'UTC', 'Asia/Kolkata', 'Pacific/Kiritimati'];
+
+TIME_ZONES.forEach((timeZone) =>
+  inTimeZone(timeZone, () => {
+    it('keeps the local day at the first and last moment of it', () => {
+      expect(toLocalDateString(new Date(2026, 9, 18, 0, 0, 0))).toBe('2026-10-18');
+      expect(toLocalDateString(new Date(2026, 9, 18, 23, 59, 59, 999))).toBe('2026-10-18');
+      expect(toLocalDateString(new Date(2026, 9, 19, 0, 0, 0))).toBe('2026-10-19');
+    });
+
+    it('reads a stored date as local midnight of that day', () => {
+      const date = toLocalDate('2026-10-18');
+      expect([date.getFullYear(), date.getMonth(), date.getDate(), date.getHours()]).toEqual([2026, 9, 18, 0]);
+      expect(toLocalDateString(date)).toBe('2026-10-18');
+    });
+
+    it('round-trips the first and last days of the year', () => {
+      expect(toLocalDateString(toLocalDate('2026-01-01'))).toBe('2026-01-01');
+      expect(toLocalDateString(toLocalDate('2026-12-31'))).toBe('2026-12-31');
+      expect(toLocalMonthString(toLocalDate('2026-12-31'))).toBe('2026-12');
+    });
+
+    it('moves by whole calendar days', () => {
+      expect(toLocalDateString(addDays(toLocalDate('2026-12-31'), 1))).toBe('2027-01-01');
+      expect(toLocalDateString(addDays(toLocalDate('2026-03-01'), -1))).toBe('2026-02-28');
+    });
+
+    it('parses user input as a local day', () => {
+      expect(toLocalDateString(parseLocalDate(' 2026-1-5 ')!)).toBe('2026-01-05');
+      expect(normalizeLocalDate('2028-2-29')).toBe('2028-02-29');
+      expect(parseLocalDate('2026-02-29')).toBeNull();
+      expect(parseLocalDate('2026-13-01')).toBeNull();
+      expect(parseLocalDate('18/10/2026')).toBeNull();
+    });
+  })
+);
+
+inTimeZone('Asia/Kolkata', () => {
+  it('uses the local day where UTC is still on the previous one', () => {
+    const instant = new Date('2026-10-18T20:00:00Z'); // 01:30 on the 19th in India
+    expect(instant.toISOString().slice(0, 10)).toBe('2026-10-18');
+    expect(toLocalDateString(instant)).toBe('2026-10-19');
+  });
+
+  it('reads stored dates without sliding back a day', () => {
+    expect(toLocalDate('2026-10-18').toISOString()).toBe('2026-10-17T18:30:00.000Z');
+    expect(toLocalDateString(toLocalDate('2026-10-18'))).toBe('2026-10-18');
+  });
+});
+
+inTimeZone('America/New_York', () => {
+  it('uses the local day where UTC has already moved on', () => {
+    const instant = new Date('2026-10-19T02:00:00Z'); // 22:00 on the 18th in New York
+    expect(instant.toISOString().slice(0, 10)).toBe('2026-10-19');
+    expect(toLocalDateString(instant)).toBe('2026-10-18');
+    expect(toLocalMonthString(new Date('2026-11-01T03:00:00Z'))).toBe('2026-10');
+  });
+
+  it('steps over daylight saving changes one day at a time', () => {
+    // Clocks go forward on 2026-03-08 and back on 2026-11-01
+    expect(toLocalDateString(addDays(toLocalDate('2026-03-07'), 1))).toBe('2026-03-08');
+    expect(toLocalDateString(addDays(toLocalDate('2026-03-08'), 1))).toBe('2026-03-09');
+    expect(toLocalDateString(addDays(toLocalDate('2026-11-01'), 1))).toBe('2026-11-02');
+    expect(toLocalDateString(addDays(toLocalDate('2026-11-02'), -1))).toBe('2026-11-01');
+  });
+});
+
+describe('daysInMonth', () => {
+  it('handles leap years and month indexes past December', () => {
+    expect(daysInMonth(2026, 1)).toBe(28);
+    expect(daysInMonth(2028, 1)).toBe(29);
+    expect(daysInMonth(2026, 12)).toBe(31);
+  });
+});
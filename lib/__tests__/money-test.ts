@@ -0,0 +1,81 @@
+import { fromMinor, roundMoney, scaleMoney, sumMoney, toMinor } from '@/lib/money';
+
+describe('toMinor', () => {
+  it('rounds half a minor unit away from zero', () => {
+    expect(toMinor(0.125)).toBe(13);
+    expect(toMinor(-0.125)).toBe(-13);
+    expect(toMinor(0.005)).toBe(1);
+    expect(toMinor(-0.005)).toBe(-1);
+  });
+
+  it('rounds amounts whose binary value sits just under the half', () => {
+    // 1.005 * 100 and 2.675 * 100 are 100.49999999999999 and 267.49999999999997 in floating point
+    expect(toMinor(1.005)).toBe(101);
+    expect(toMinor(-1.005)).toBe(-101);
+    expect(toMinor(2.675)).toBe(268);
+  });
+
+  it('absorbs floating point noise', () => {
+    expect(toMinor(0.1 + 0.2)).toBe(30);
+    expect(toMinor(1.1 * 3)).toBe(330);
+  });
+
+  it('reads numeric strings', () => {
+    expect(toMinor('1.005')).toBe(101);
+    expect(toMinor('-42.10')).toBe(-4210);
+  });
+
+  it('never returns negative zero', () => {
+    expect(Object.is(toMinor(-0.004), 0)).toBe(true);
+    expect(Object.is(toMinor(-0), 0)).toBe(true);
+  });
+
+  it('handles amounts written in exponent form', () => {
+    expect(toMinor(1e-7)).toBe(0);
+    expect(toMinor(1e21)).toBe(1e23);
+  });
+});
+
+describe('fromMinor', () => {
+  it('turns minor units back into the amount', () => {
+    expect(fromMinor(101)).toBe(1.01);
+    expect(fromMinor(-13)).toBe(-0.13);
+    expect(fromMinor(30)).toBe(0.3);
+    expect(fromMinor(0)).toBe(0);
+  });
+
+  it('round-trips through toMinor', () => {
+    [0.01, 0.3, 1.01, 19.99, 1234.56, -0.07].forEach((amount) => expect(fromMinor(toMinor(amount))).toBe(amount));
+  });
+
+  it('gives exact sums where adding the amounts would not', () => {
+    expect(0.1 + 0.2).not.toBe(0.3);
+    expect(sumMoney([0.1, 0.2])).toBe(0.3);
+    expect(roundMoney(0.1 + 0.2)).toBe(0.3);
+  });
+});
+
+describe('scaleMoney', () => {
+  it('rounds the product to whole minor units', () => {
+    expect(scaleMoney(10, 1 / 3)).toBe(3.33);
+    expect(scaleMoney(-10, 1 / 3)).toBe(-3.33);
+    expect(scaleMoney(1000, 82.3456)).toBe(82345.6);
+  });
+
+  it('rounds a half-cent product away from zero', () => {
+    expect(scaleMoney(0.01, 0.5)).toBe(0.01);
+    expect(scaleMoney(-0.01, 0.5)).toBe(-0.01);
+    expect(scaleMoney(2.01, 0.5)).toBe(1.01);
+    expect(scaleMoney(100, 0.01205)).toBe(1.21);
+  });
+
+  it('rounds 1.005 up at a rate of 1', () => {
+    expect(scaleMoney(1.005, 1)).toBe(1.01);
+    expect(scaleMoney('1.005', 1)).toBe(1.01);
+  });
+
+  it('absorbs floating point noise in the amount', () => {
+    expect(scaleMoney(0.1 + 0.2, 1)).toBe(0.3);
+    expect(scaleMoney(0.1 + 0.2, 10)).toBe(3);
+  });
+});
@@ -0,0 +1,136 @@
+import { desc, type DataBackend } from '@/lib/data/backend';
+import { createMemoryBackend } from '@/lib/data/memory-backend';
+import { createOfflineBackend, type KeyValueStorage } from '@/lib/data/offline-backend';
+import { createAccountsRepository } from '@/lib/data/repositories/accounts';
+import { createBalanceRepository } from '@/lib/data/repositories/balance';
+import { createExpensesRepository } from '@/lib/data/repositories/expenses';
+import type { Expense } from '@/lib/data/types';
+
+const memoryStorage = (): KeyValueStorage => {
+  const items = new Map<string, string>();
+  return {
+    getItem: async (key) => items.get(key) ?? null,
+    setItem: async (key, value) => {
+      items.set(key, value);
+    },
+  };
+};
+
+// A remote that can be taken offline and, like Postgres, rejects a local id written to a uuid column
+const flakyRemote = (backend: DataBackend) => {
+  let reachable = false;
+  const call = <T>(payload: unknown, run: () => Promise<T>) => {
+    if (!reachable) return Promise.reject(new Error('Network request failed'));
+    const local = JSON.stringify(payload ?? null).match(/"(local-[^"]+)"/);
+    if (local) {
+      return Promise.reject(
+        Object.assign(new Error(`invalid input syntax for type uuid: "${local[1]}"`), { code: '22P02' })
+      );
+    }
+    return run();
+  };
+  const remote: DataBackend = {
+    select: (table, options) => call(options, () => backend.select(table, options)),
+    insert: (table, values) => call(values, () => backend.insert(table, values)),
+    update: (table, values, filters) => call([values, filters], () => backend.update(table, values, filters)),
+    upsert: (table, values, onConflict) => call(values, () => backend.upsert(table, values, onConflict)),
+    remove: (table, filters) => call(filters, () => backend.remove(table, filters)),
+  };
+  return {
+    remote,
+    goOnline: () => (reachable = true),
+    goOffline: () => (reachable = false),
+  };
+};
+
+const expense = (id: string, date: string): Expense => ({
+  id,
+  user_id: 'user',
+  name: `Expense ${id}`,
+  amount: 100,
+  currency: 'INR',
+  type: 'daily',
+  date,
+  category_id: null,
+  tags: [],
+  account_id: null,
+  balance_transaction_id: null,
+  recurring_expense_id: null,
+  created_at: `${date}T00:00:00.000Z`,
+});
+
+describe('adding a debited expense offline', () => {
+  it('links the synced expense to its synced debit', async () => {
+    const server = createMemoryBackend();
+    const { remote, goOnline } = flakyRemote(server);
+    const backend = createOfflineBackend(remote, memoryStorage());
+    const accounts = createAccountsRepository(backend, 'INR');
+    const balance = createBalanceRepository(backend, accounts);
+    const expenses = createExpensesRepository(backend, balance, accounts);
+
+    await expenses.add(
+      {
+        name: 'Groceries',
+        amount: 250,
+        currency: 'INR',
+        type: 'daily',
+        date: '2026-10-18',
+        category_id: null,
+        tags: [],
+      },
+      { debitBalance: true }
+    );
+    // Let the attempts made while offline give up before reconnecting
+    await backend.flush();
+    goOnline();
+    await backend.flush();
+
+    expect(backend.getStatus().failed).toEqual([]);
+    const [expense] = await server.select('expenses');
+    const [debit] = await server.select('balance_transactions');
+    expect(expense).toMatchObject({ name: 'Groceries', balance_transaction_id: debit.id });
+    expect(debit).toMatchObject({ kind: 'debit', amount: 250, source: 'expense' });
+  });
+});
+
+describe('reading a page', () => {
+  const order = [desc<Expense>('date')];
+
+  it('drops cached rows deleted elsewhere within the page', async () => {
+    const server = createMemoryBackend({
+      expenses: [
+        expense('a', '2026-10-05'),
+        expense('b', '2026-10-04'),
+        expense('c', '2026-10-03'),
+        expense('d', '2026-10-02'),
+      ],
+    });
+    const { remote, goOnline, goOffline } = flakyRemote(server);
+    const backend = createOfflineBackend(remote, memoryStorage());
+    goOnline();
+    await backend.select('expenses', { order });
+
+    await server.remove('expenses', [{ column: 'id', op: 'in', value: ['a', 'c'] }]);
+    const page = await backend.select('expenses', { order, limit: 2 });
+    expect(page.map((row) => row.id)).toEqual(['b', 'd']);
+
+    goOffline();
+    const cached = await backend.select('expenses', { order });
+    expect(cached.map((row) => row.id)).toEqual(['b', 'd']);
+  });
+
+  it('keeps cached rows beyond the page', async () => {
+    const server = createMemoryBackend({
+      expenses: [expense('a', '2026-10-05'), expense('b', '2026-10-04'), expense('c', '2026-10-03')],
+    });
+    const { remote, goOnline, goOffline } = flakyRemote(server);
+    const backend = createOfflineBackend(remote, memoryStorage());
+    goOnline();
+    await backend.select('expenses', { order });
+
+    await backend.select('expenses', { order, limit: 1 });
+    goOffline();
+    const cached = await backend.select('expenses', { order });
+    expect(cached.map((row) => row.id)).toEqual(['a', 'b', 'c']);
+  });
+});
@@ -0,0 +1,41 @@
+import { parseStatementAmount } from '@/lib/statement-import';
+
+describe('parseStatementAmount', () => {
+  it('reads plain amounts with thousands separators', () => {
+    expect(parseStatementAmount('1234.5')).toBe(1234.5);
+    expect(parseStatementAmount('1,00,000.50')).toBe(100000.5);
+    expect(parseStatementAmount('.75')).toBe(0.75);
+  });
+
+  it('ignores currency prefixes, including ones ending in a dot', () => {
+    expect(parseStatementAmount('Rs. 1,234.00')).toBe(1234);
+    expect(parseStatementAmount('Rs.1,234.00')).toBe(1234);
+    expect(parseStatementAmount('Rs 1,234.00')).toBe(1234);
+    expect(parseStatementAmount('INR 250')).toBe(250);
+    expect(parseStatementAmount('₹1,250.75')).toBe(1250.75);
+    expect(parseStatementAmount('US$40.00')).toBe(40);
+    expect(parseStatementAmount('$.50')).toBe(0.5);
+  });
+
+  it('ignores currency suffixes', () => {
+    expect(parseStatementAmount('1,234.00 INR')).toBe(1234);
+    expect(parseStatementAmount('1,234.00 Rs.')).toBe(1234);
+  });
+
+  it('reads money going out as negative', () => {
+    expect(parseStatementAmount('-1,234.00')).toBe(-1234);
+    expect(parseStatementAmount('Rs. -1,234.00')).toBe(-1234);
+    expect(parseStatementAmount('-Rs. 1,234.00')).toBe(-1234);
+    expect(parseStatementAmount('(Rs. 500)')).toBe(-500);
+    expect(parseStatementAmount('500.00 Dr')).toBe(-500);
+    expect(parseStatementAmount('Rs. 500.00 Dr.')).toBe(-500);
+    expect(parseStatementAmount('500.00 Cr')).toBe(500);
+  });
+
+  it('returns null for anything else', () => {
+    expect(parseStatementAmount('')).toBeNull();
+    expect(parseStatementAmount('Rs.')).toBeNull();
+    expect(parseStatementAmount('1.2.3')).toBeNull();
+    expect(parseStatementAmount('12.345')).toBeNull();
+  });
+});
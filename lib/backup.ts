@@ -0,0 +1,192 @@
+import { AUTO_LOCK_TIMEOUTS, type AppLockSettings } from '@/contexts/AppLockContext';
+import type { Preferences } from '@/contexts/PreferencesContext';
+import { CURRENCIES } from '@/lib/currency';
+import { BACKUP_TABLES, type TableName, type TableSnapshot } from '@/lib/data';
+import type { ExportFile } from '@/lib/export';
+import { toLocalDateString } from '@/lib/local-date';
+
+/** Bumped whenever the archive's own layout changes. */
+export const BACKUP_VERSION = 1;
+
+/** The newest migration in supabase/migrations; bump it with every migration that changes a table. */
+export const SCHEMA_VERSION = '20261018110000';
+
+/** Settings kept on the device rather than in the database. */
+export interface LocalSettings {
+  theme: 'light' | 'dark';
+  globalRingtone: string | null;
+  preferences: Preferences;
+  appLock: AppLockSettings;
+}
+
+export interface BackupArchive {
+  app: 'mraker';
+  kind: 'backup';
+  version: number;
+  /** The migration the tables were written under. */
+  schema_version: string;
+  /** ISO timestamp. */
+  created_at: string;
+  /** Rows as stored, ids included. An archive from an older schema may lack newer tables. */
+  tables: Partial<TableSnapshot>;
+  settings: LocalSettings | null;
+}
+
+export const TABLE_LABELS: Record<TableName, string> = {
+  accounts: 'Accounts',
+  expense_categories: 'Expense categories',
+  savings: 'Savings',
+  savings_goals: 'Savings goals',
+  savings_allocations: 'Goal allocations',
+  balance_transactions: 'Balance history',
+  recurring_expenses: 'Recurring expenses',
+  expenses: 'Expenses',
+  budgets: 'Budgets',
+  exchange_rates: 'Exchange rates',
+  statement_mappings: 'Statement mappings',
+  work_tracker: 'Work entries',
+  prayer_reminders: 'Prayer reminders',
+};
+
+export function createArchive(tables: TableSnapshot, settings: LocalSettings, now = new Date()): BackupArchive {
+  return {
+    app: 'mraker',
+    kind: 'backup',
+    version: BACKUP_VERSION,
+    schema_version: SCHEMA_VERSION,
+    created_at: now.toISOString(),
+    tables,
+    settings,
+  };
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Settings are applied as they are, so only values this version of the app could have saved are accepted
+function parseSettings(value: unknown): LocalSettings | null {
+  if (value === undefined || value === null) return null;
+  if (isObject(value) && isObject(value.preferences) && isObject(value.appLock)) {
+    const { theme, globalRingtone, preferences, appLock } = value;
+    if (
+      (theme === 'light' || theme === 'dark') &&
+      (globalRingtone === null || typeof globalRingtone === 'string') &&
+      typeof preferences.debitExpensesByDefault === 'boolean' &&
+      CURRENCIES.includes(preferences.baseCurrency) &&
+      typeof appLock.enabled === 'boolean' &&
+      AUTO_LOCK_TIMEOUTS.includes(appLock.timeoutSeconds)
+    ) {
+      return {
+        theme,
+        globalRingtone,
+        preferences: {
+          debitExpensesByDefault: preferences.debitExpensesByDefault,
+          baseCurrency: preferences.baseCurrency,
+        },
+        appLock: { enabled: appLock.enabled, timeoutSeconds: appLock.timeoutSeconds },
+      };
+    }
+  }
+  throw new Error("The backup's settings are damaged");
+}
+
+/**
+ * Reads a backup file, throwing an error worth showing the user if it isn't one this version of the app
+ * can restore. Tables the app doesn't know are ignored.
+ */
+export function parseArchive(text: string): BackupArchive {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("That file isn't valid JSON");
+  }
+
+  if (!isObject(data) || data.app !== 'mraker') throw new Error("That file isn't a backup from this app");
+  if (data.kind !== 'backup') {
+    throw new Error('That file is a data export, not a backup. Choose a file made with Create Backup.');
+  }
+  if (typeof data.version !== 'number' || typeof data.schema_version !== 'string' || !isObject(data.tables)) {
+    throw new Error('The backup file is damaged');
+  }
+  // Migration names start with their timestamp, so they compare as strings
+  if (data.version > BACKUP_VERSION || data.schema_version > SCHEMA_VERSION) {
+    throw new Error('The backup was made by a newer version of the app. Update the app, then restore it.');
+  }
+
+  const tables: Partial<TableSnapshot> = {};
+  BACKUP_TABLES.forEach((table) => {
+    const rows = data.tables[table];
+    if (rows === undefined) return;
+    if (!Array.isArray(rows) || !rows.every((row) => isObject(row) && typeof row.id === 'string')) {
+      throw new Error(`The backup's ${TABLE_LABELS[table].toLowerCase()} are damaged`);
+    }
+    tables[table] = rows;
+  });
+
+  return {
+    app: 'mraker',
+    kind: 'backup',
+    version: data.version,
+    schema_version: data.schema_version,
+    created_at: typeof data.created_at === 'string' ? data.created_at : '',
+    tables,
+    settings: parseSettings(data.settings),
+  };
+}
+
+export interface TableDiff {
+  table: TableName;
+  /** Rows in the backup. */
+  inBackup: number;
+  /** Rows stored now. */
+  current: number;
+  /** Backup rows that aren't stored now. */
+  added: number;
+  /** Rows stored now that the backup doesn't have. */
+  notInBackup: number;
+  /** Rows in both whose contents differ. */
+  changed: number;
+}
+
+// The owner is left out, so a backup restored into another account doesn't show every row as changed
+const comparable = ({ user_id: _owner, ...row }: Record<string, any>) =>
+  JSON.stringify(Object.keys(row).sort().map((key) => [key, row[key]]));
+
+/** How each table in the archive compares with what's stored now, matching rows by id. */
+export function diffArchive(current: Partial<TableSnapshot>, archive: BackupArchive): TableDiff[] {
+  return BACKUP_TABLES.flatMap((table): TableDiff[] => {
+    const backupRows = archive.tables[table] as Record<string, any>[] | undefined;
+    if (!backupRows) return [];
+    const currentRows = new Map(
+      ((current[table] ?? []) as Record<string, any>[]).map((row) => [row.id as string, row])
+    );
+    const backupIds = new Set(backupRows.map((row) => row.id as string));
+
+    let added = 0;
+    let changed = 0;
+    backupRows.forEach((row) => {
+      const stored = currentRows.get(row.id);
+      if (!stored) added++;
+      else if (comparable(stored) !== comparable(row)) changed++;
+    });
+    return [
+      {
+        table,
+        inBackup: backupRows.length,
+        current: currentRows.size,
+        added,
+        notInBackup: [...currentRows.keys()].filter((id) => !backupIds.has(id)).length,
+        changed,
+      },
+    ];
+  });
+}
+
+export function backupFile(archive: BackupArchive): ExportFile {
+  return {
+    name: `mraker-backup-${toLocalDateString(new Date(archive.created_at))}.json`,
+    mimeType: 'application/json',
+    contents: JSON.stringify(archive, null, 2),
+  };
+}
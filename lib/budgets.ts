@@ -0,0 +1,116 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+
+import type { Budget, ExpenseCategory, ExpenseSummary } from '@/lib/data';
+import { expenseInBase, formatMoney, type Convert } from '@/lib/currency';
+import { expensesInRange, periodRange } from '@/lib/expense-breakdown';
+import { toLocalMonthString } from '@/lib/local-date';
+import { sumMoney } from '@/lib/money';
+
+/** Share of a budget at which an alert fires, in ascending order. */
+export const BUDGET_ALERT_THRESHOLDS = [0.8, 1];
+
+export interface BudgetProgress {
+  budget: Budget;
+  /** Null for the overall budget. */
+  category: ExpenseCategory | null;
+  /** In the base currency, like budget amounts. */
+  spent: number;
+  ratio: number;
+}
+
+/** This month's spending against each budget, overall budget first. */
+export function budgetProgress(
+  budgets: Budget[],
+  expenses: ExpenseSummary[],
+  categories: ExpenseCategory[],
+  convert: Convert,
+  today = new Date()
+): BudgetProgress[] {
+  const monthExpenses = expensesInRange(expenses, periodRange('month', today));
+  const categoriesById = new Map(categories.map((category) => [category.id, category]));
+
+  return budgets
+    // A budget whose category is gone has nothing left to track
+    .filter((budget) => budget.category_id === null || categoriesById.has(budget.category_id))
+    .map((budget) => {
+      const spent = sumMoney(
+        monthExpenses
+          .filter((expense) => budget.category_id === null || expense.category_id === budget.category_id)
+          .map((expense) => expenseInBase(expense, convert))
+      );
+      const amount = Number(budget.amount);
+      return {
+        budget,
+        category: budget.category_id ? categoriesById.get(budget.category_id)! : null,
+        spent,
+        ratio: amount > 0 ? spent / amount : 0,
+      };
+    })
+    .sort((a, b) => Number(a.category !== null) - Number(b.category !== null) || b.ratio - a.ratio);
+}
+
+const ALERTS_KEY = 'budgets:sent-alerts';
+
+/** Asks for notification permission so budget alerts can be delivered; resolves whether it was granted. */
+export async function requestBudgetAlertPermission(): Promise<boolean> {
+  const { status: existingStatus } = await Notifications.getPermissionsAsync();
+  if (existingStatus === 'granted') return true;
+  const { status } = await Notifications.requestPermissionsAsync();
+  return status === 'granted';
+}
+
+/**
+ * Sends a local notification the first time a budget crosses 80% or 100% in a month.
+ * Sent alerts are remembered per month, so reopening the app doesn't repeat them.
+ */
+export async function notifyBudgetThresholds(
+  progress: BudgetProgress[],
+  baseCurrency: string,
+  today = new Date()
+): Promise<void> {
+  const month = toLocalMonthString(today);
+  let sent: { month: string; keys: string[] } = { month, keys: [] };
+  try {
+    const stored = await AsyncStorage.getItem(ALERTS_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (parsed.month === month) sent = parsed;
+    }
+  } catch (error) {
+    console.error('Error loading budget alerts:', error);
+  }
+
+  const due = progress.flatMap((entry) => {
+    // Only the highest threshold crossed is announced
+    const threshold = [...BUDGET_ALERT_THRESHOLDS].reverse().find((t) => entry.ratio >= t);
+    if (threshold === undefined) return [];
+    const key = `${entry.budget.id}:${threshold}`;
+    return sent.keys.includes(key) ? [] : [{ entry, threshold, key }];
+  });
+  if (due.length === 0) return;
+
+  const { status } = await Notifications.getPermissionsAsync();
+  if (status !== 'granted') return;
+
+  for (const { entry, threshold, key } of due) {
+    const name = entry.category?.name ?? 'Overall';
+    const amount = Number(entry.budget.amount);
+    await Notifications.scheduleNotificationAsync({
+      content: {
+        title: threshold >= 1 ? `${name} budget exceeded` : `${name} budget at ${Math.round(threshold * 100)}%`,
+        body: `You've spent ${formatMoney(entry.spent, baseCurrency)} of your ${formatMoney(amount, baseCurrency)} monthly budget.`,
+        data: { categoryId: 'budget_alert', budgetId: entry.budget.id },
+      },
+      trigger: null,
+    });
+    // Crossing 100% also covers the 80% alert
+    sent.keys.push(key, ...BUDGET_ALERT_THRESHOLDS.filter((t) => t < threshold).map((t) => `${entry.budget.id}:${t}`));
+  }
+
+  try {
+    await AsyncStorage.setItem(ALERTS_KEY, JSON.stringify(sent));
+  } catch (error) {
+    console.error('Error saving budget alerts:', error);
+  }
+}
@@ -0,0 +1,105 @@
+import { DEFAULT_CURRENCY, expenseInBase, savingsInBase, type Convert } from '@/lib/currency';
+import type { AccountBalance, Expense, LedgerEntry, SavingsEntry } from '@/lib/data';
+import { addDays, toLocalDateString } from '@/lib/local-date';
+import { scaleMoney, subtractMoney, sumMoney } from '@/lib/money';
+
+/** Days of spending the burn rate averages over, and the span of the balance sparkline. */
+export const BURN_WINDOW_DAYS = 30;
+
+/** Amounts are in the base currency, each converted at the rate of its own day. */
+export interface CashFlowSummary {
+  /** All accounts together, at today's rates. */
+  balance: number;
+  /** Money added to the balance this month; transfers, adjustments and reversed expenses don't count. */
+  monthIncome: number;
+  /** Expenses dated this month, whether or not they were debited from the balance. */
+  monthSpend: number;
+  /** This month's savings entry, if any. */
+  monthSavings: number;
+  /** Income minus spend; savings are reported separately since they aren't drawn from the balance. */
+  netFlow: number;
+  /** Average spend per day over the last `BURN_WINDOW_DAYS` days. */
+  dailyBurn: number;
+  /** Whole days until the balance runs out at `dailyBurn`; null when nothing was spent recently. */
+  runwayDays: number | null;
+  /** Combined closing balance of each of the last `BURN_WINDOW_DAYS` days, oldest first. */
+  balanceTrend: number[];
+}
+
+/** The first day whose expenses `cashFlowSummary` needs: the month start or the burn window, whichever is earlier. */
+export function cashFlowStart(today = new Date()): string {
+  const monthStart = toLocalDateString(new Date(today.getFullYear(), today.getMonth(), 1));
+  const windowStart = toLocalDateString(addDays(today, -(BURN_WINDOW_DAYS - 1)));
+  return monthStart < windowStart ? monthStart : windowStart;
+}
+
+/** This month's money in and out, the recent burn rate and how long the balance lasts at it. */
+export function cashFlowSummary({
+  accounts,
+  ledger,
+  expenses,
+  savings,
+  convert,
+  today = new Date(),
+}: {
+  accounts: AccountBalance[];
+  /** Newest first, as returned by `getLedger`. */
+  ledger: LedgerEntry[];
+  /** At least everything from `cashFlowStart(today)` through today. */
+  expenses: Expense[];
+  savings: SavingsEntry[];
+  convert: Convert;
+  today?: Date;
+}): CashFlowSummary {
+  const todayString = toLocalDateString(today);
+  const monthPrefix = todayString.slice(0, 8);
+  const windowStart = toLocalDateString(addDays(today, -(BURN_WINDOW_DAYS - 1)));
+
+  const pastExpenses = expenses.filter((expense) => expense.date <= todayString);
+  const monthSpend = sumMoney(
+    pastExpenses.filter((expense) => expense.date.startsWith(monthPrefix)).map((expense) => expenseInBase(expense, convert))
+  );
+  const windowSpend = sumMoney(
+    pastExpenses.filter((expense) => expense.date >= windowStart).map((expense) => expenseInBase(expense, convert))
+  );
+
+  const currencies = new Map(accounts.map((account) => [account.id, account.currency]));
+
+  // Ledger timestamps are instants; bucket them by the device's calendar day
+  const ledgerDays = ledger.map((entry) => ({ entry, day: toLocalDateString(new Date(entry.created_at)) }));
+  const monthIncome = sumMoney(
+    ledgerDays
+      .filter(({ entry, day }) => entry.kind === 'credit' && entry.source === 'manual' && day.startsWith(monthPrefix))
+      .map(({ entry, day }) => convert(Number(entry.amount), currencies.get(entry.account_id) ?? DEFAULT_CURRENCY, day))
+  );
+
+  const monthEntry = savings.find(
+    (entry) => entry.year === today.getFullYear() && entry.month === today.getMonth() + 1
+  );
+
+  const balance = sumMoney(accounts.map((account) => convert(account.balance, account.currency, todayString)));
+
+  const balanceTrend = Array.from({ length: BURN_WINDOW_DAYS }, (_, offset) => {
+    const day = toLocalDateString(addDays(today, offset - (BURN_WINDOW_DAYS - 1)));
+    // Newest first, so each account's first entry on or before the day holds its closing balance
+    return sumMoney(
+      accounts.map((account) => {
+        const entry = ledgerDays.find((item) => item.entry.account_id === account.id && item.day <= day)?.entry;
+        return entry ? convert(entry.runningTotal, account.currency, day) : 0;
+      })
+    );
+  });
+
+  const dailyBurn = scaleMoney(windowSpend, 1 / BURN_WINDOW_DAYS);
+
+  return {
+    balance,
+    monthIncome,
+    monthSpend,
+    monthSavings: monthEntry ? savingsInBase(monthEntry, convert) : 0,
+    netFlow: subtractMoney(monthIncome, monthSpend),
+    dailyBurn,
+    runwayDays: dailyBurn > 0 ? Math.max(Math.floor(balance / dailyBurn), 0) : null,
+    balanceTrend,
+  };
+}
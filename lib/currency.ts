@@ -0,0 +1,76 @@
+import type { ExchangeRate, Expense, SavingsEntry } from '@/lib/data';
+import { toLocalDateString } from '@/lib/local-date';
+import { scaleMoney } from '@/lib/money';
+
+export const DEFAULT_CURRENCY = 'INR';
+
+/** Currencies offered in pickers; stored values are ISO 4217 codes. */
+export const CURRENCIES = ['INR', 'USD', 'AED', 'EUR', 'GBP', 'SAR'];
+
+/** Converts an amount in `currency` on `date` (YYYY-MM-DD) to the base currency. */
+export type Convert = (amount: number, currency: string, date: string) => number;
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+const formatterFor = (currency: string) => {
+  let formatter = formatters.get(currency);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(undefined, { style: 'currency', currency });
+    formatters.set(currency, formatter);
+  }
+  return formatter;
+};
+
+/** The one place amounts become text, e.g. "₹1,250.00" or "US$40.00" depending on the device locale. */
+export function formatMoney(amount: number, currency = DEFAULT_CURRENCY, options: { signed?: boolean } = {}): string {
+  const formatted = formatterFor(currency).format(Math.abs(amount));
+  if (amount < 0) return `−${formatted}`;
+  return options.signed ? `+${formatted}` : formatted;
+}
+
+/**
+ * How many units of `to` one unit of `from` was worth on `date`: the latest rate entered for the pair
+ * (or its inverse) effective on or before that day, falling back to the earliest one after it.
+ * Null when no rate was ever entered for the pair.
+ */
+export function rateOn(rates: ExchangeRate[], from: string, to: string, date: string): number | null {
+  if (from === to) return 1;
+
+  const candidates = rates
+    .map((rate) => {
+      if (rate.from_currency === from && rate.to_currency === to) return { date: rate.effective_date, value: Number(rate.rate) };
+      if (rate.from_currency === to && rate.to_currency === from) return { date: rate.effective_date, value: 1 / Number(rate.rate) };
+      return null;
+    })
+    .filter((candidate): candidate is { date: string; value: number } => candidate !== null)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  if (candidates.length === 0) return null;
+
+  const effective = candidates.filter((candidate) => candidate.date <= date);
+  return (effective[effective.length - 1] ?? candidates[0]).value;
+}
+
+/**
+ * A `Convert` into `base`. Amounts in currencies without any rate to it are left out (counted as 0)
+ * rather than guessed at; `currenciesWithoutRate` names them so screens can say so.
+ */
+export function createConverter(rates: ExchangeRate[], base: string): Convert {
+  return (amount, currency, date) => {
+    const rate = rateOn(rates, currency, base, date);
+    return rate === null ? 0 : scaleMoney(amount, rate);
+  };
+}
+
+/** Which of `currencies` have no rate to `base` at all, in the order first seen. */
+export function currenciesWithoutRate(rates: ExchangeRate[], base: string, currencies: string[]): string[] {
+  const date = toLocalDateString();
+  return [...new Set(currencies)].filter((currency) => rateOn(rates, currency, base, date) === null);
+}
+
+/** A savings entry's amount in the base currency, at the rate of the first day of its month. */
+export const savingsInBase = (entry: Pick<SavingsEntry, 'amount' | 'currency' | 'year' | 'month'>, convert: Convert) =>
+  convert(Number(entry.amount), entry.currency, toLocalDateString(new Date(entry.year, entry.month - 1, 1)));
+
+/** An expense's amount in the base currency, at the rate of the day it was spent. */
+export const expenseInBase = (expense: Pick<Expense, 'amount' | 'currency' | 'date'>, convert: Convert) =>
+  convert(Number(expense.amount), expense.currency, expense.date);
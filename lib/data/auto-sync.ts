@@ -0,0 +1,23 @@
+import { AppState } from 'react-native';
+
+import type { SyncController } from './offline-backend';
+
+const RETRY_INTERVAL_MS = 30_000;
+
+// Flushes the outbox now, whenever the app returns to the foreground, and
+// periodically while writes are pending. Returns a cleanup function.
+export function startAutoSync(controller: SyncController, intervalMs = RETRY_INTERVAL_MS) {
+  const subscription = AppState.addEventListener('change', (state) => {
+    if (state === 'active') void controller.flush();
+  });
+  const timer = setInterval(() => {
+    if (controller.getStatus().pending > 0) void controller.flush();
+  }, intervalMs);
+
+  void controller.flush();
+
+  return () => {
+    subscription.remove();
+    clearInterval(timer);
+  };
+}
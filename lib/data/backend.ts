@@ -0,0 +1,51 @@
+import type { TableName, Tables } from './types';
+
+export type FilterOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in';
+
+export interface Filter<T> {
+  column: keyof T & string;
+  op: FilterOperator;
+  value: unknown;
+}
+
+export interface Order<T> {
+  column: keyof T & string;
+  ascending: boolean;
+}
+
+export interface SelectOptions<T> {
+  filters?: Filter<T>[];
+  order?: Order<T>[];
+  limit?: number;
+  /** Rows to skip before `limit` applies, for paging through ordered results. */
+  offset?: number;
+  /** Only these columns are read; the rows hold nothing else. All of them when left out. */
+  columns?: (keyof T & string)[];
+}
+
+/**
+ * Storage primitives the repositories are written against.
+ * Implementations: `createSupabaseBackend` (production) and `createMemoryBackend` (tests, previews).
+ */
+export interface DataBackend {
+  select<K extends TableName>(table: K, options?: SelectOptions<Tables[K]>): Promise<Tables[K][]>;
+  insert<K extends TableName>(table: K, values: Partial<Tables[K]>[]): Promise<Tables[K][]>;
+  update<K extends TableName>(
+    table: K,
+    values: Partial<Tables[K]>,
+    filters: Filter<Tables[K]>[]
+  ): Promise<Tables[K][]>;
+  upsert<K extends TableName>(
+    table: K,
+    values: Partial<Tables[K]>[],
+    onConflict: (keyof Tables[K] & string)[]
+  ): Promise<Tables[K][]>;
+  remove<K extends TableName>(table: K, filters: Filter<Tables[K]>[]): Promise<void>;
+}
+
+export const eq = <T>(column: keyof T & string, value: unknown): Filter<T> => ({ column, op: 'eq', value });
+export const gte = <T>(column: keyof T & string, value: unknown): Filter<T> => ({ column, op: 'gte', value });
+export const lte = <T>(column: keyof T & string, value: unknown): Filter<T> => ({ column, op: 'lte', value });
+
+export const asc = <T>(column: keyof T & string): Order<T> => ({ column, ascending: true });
+export const desc = <T>(column: keyof T & string): Order<T> => ({ column, ascending: false });
@@ -0,0 +1,107 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from '@/lib/supabase';
+
+import type { DataBackend } from './backend';
+import { createAccountsRepository } from './repositories/accounts';
+import { createBackupRepository } from './repositories/backup';
+import { createBalanceRepository } from './repositories/balance';
+import { createBudgetsRepository } from './repositories/budgets';
+import { createExpenseCategoriesRepository } from './repositories/expense-categories';
+import { createExpensesRepository } from './repositories/expenses';
+import { createExchangeRatesRepository } from './repositories/exchange-rates';
+import { createPrayerRemindersRepository } from './repositories/prayer-reminders';
+import { createRecurringExpensesRepository } from './repositories/recurring-expenses';
+import { createSavingsRepository } from './repositories/savings';
+import { createSavingsGoalsRepository } from './repositories/savings-goals';
+import { createStatementMappingsRepository } from './repositories/statement-mappings';
+import { createWorkTrackerRepository } from './repositories/work-tracker';
+import { createOfflineBackend, type OfflineBackend, type SyncController } from './offline-backend';
+import { createSupabaseBackend } from './supabase-backend';
+import { scopeToUser, signedOutBackend, signedOutSync } from './user-scope';
+
+export * from './types';
+export type { DataBackend } from './backend';
+export { createMemoryBackend } from './memory-backend';
+export { createSupabaseBackend } from './supabase-backend';
+export { createOfflineBackend } from './offline-backend';
+export type { KeyValueStorage, SyncController, SyncStatus } from './offline-backend';
+export { startAutoSync } from './auto-sync';
+export { scopeToUser } from './user-scope';
+export { dueCycleDates, nextCycleDate } from './recurrence';
+export { signedAmount, withRunningTotals } from './repositories/balance';
+export { BACKUP_TABLES } from './repositories/backup';
+export type { AccountInput } from './repositories/accounts';
+export type { RestoreMode, TableSnapshot } from './repositories/backup';
+export type { AccountBalance, LedgerEntry } from './repositories/balance';
+export type { SavingsInput } from './repositories/savings';
+export type { SavingsGoalInput } from './repositories/savings-goals';
+export type { ExpenseCategoryInput } from './repositories/expense-categories';
+export type { ExchangeRateInput } from './repositories/exchange-rates';
+export type {
+  BulkAddResult,
+  ExpenseChanges,
+  ExpenseInput,
+  ExpensePage,
+  ExpenseSummary,
+  Reconciliation,
+  ReconciliationIssue,
+} from './repositories/expenses';
+export type { RecurringExpenseInput } from './repositories/recurring-expenses';
+export type { StatementMappingInput } from './repositories/statement-mappings';
+export type { WorkEntryInput } from './repositories/work-tracker';
+
+/**
+ * `baseCurrency` is what the default account is opened in. Backups are restored straight to `remote` rather
+ * than through `backend`'s outbox, so a row the server rejects fails the restore before it reports success.
+ */
+export function createRepositories(backend: DataBackend, baseCurrency: string, remote: DataBackend = backend) {
+  const accounts = createAccountsRepository(backend, baseCurrency);
+  const balance = createBalanceRepository(backend, accounts);
+  const expenses = createExpensesRepository(backend, balance, accounts);
+  return {
+    accounts,
+    balance,
+    savings: createSavingsRepository(backend),
+    savingsGoals: createSavingsGoalsRepository(backend),
+    expenses,
+    expenseCategories: createExpenseCategoriesRepository(backend),
+    budgets: createBudgetsRepository(backend),
+    exchangeRates: createExchangeRatesRepository(backend),
+    statementMappings: createStatementMappingsRepository(backend),
+    recurringExpenses: createRecurringExpensesRepository(backend, expenses),
+    workTracker: createWorkTrackerRepository(backend),
+    prayerReminders: createPrayerRemindersRepository(backend),
+    backup: createBackupRepository(backend, remote),
+  };
+}
+
+export type Repositories = ReturnType<typeof createRepositories>;
+
+// App-wide repositories: writes go to the on-device store first and are synced to Supabase.
+// Each user has their own store, so writes queued under one account never replay under another.
+const remoteBackend = createSupabaseBackend(supabase);
+const userBackends = new Map<string, OfflineBackend>();
+
+const userBackend = (userId: string) => {
+  let backend = userBackends.get(userId);
+  if (!backend) {
+    backend = createOfflineBackend(remoteBackend, AsyncStorage, `offline:${userId}`);
+    userBackends.set(userId, backend);
+  }
+  return backend;
+};
+
+/** Sync controls for `userId`'s outbox; nothing to sync while signed out. */
+export function syncFor(userId: string | null): SyncController {
+  return userId ? userBackend(userId) : signedOutSync;
+}
+
+/** Repositories over the app backend that only read and write `userId`'s rows. */
+export function createUserRepositories(userId: string | null, baseCurrency: string): Repositories {
+  if (!userId) return createRepositories(signedOutBackend, baseCurrency);
+  return createRepositories(
+    scopeToUser(userBackend(userId), userId),
+    baseCurrency,
+    scopeToUser(remoteBackend, userId)
+  );
+}
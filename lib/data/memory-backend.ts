@@ -0,0 +1,60 @@
+import type { DataBackend } from './backend';
+import { matchesAll, runSelect, type Row } from './query';
+import type { TableName, Tables } from './types';
+
+export type MemorySeed = { [K in TableName]?: Tables[K][] };
+
+/**
+ * In-memory implementation of `DataBackend`, so repositories can be exercised
+ * without a Supabase project. Rows get a generated `id` and `created_at` like the real tables.
+ */
+export function createMemoryBackend(seed: MemorySeed = {}): DataBackend {
+  const tables: Record<string, Row[]> = {};
+  let nextId = 1;
+
+  const rowsOf = (table: string) => (tables[table] ??= []);
+
+  Object.entries(seed).forEach(([table, rows]) => {
+    tables[table] = (rows ?? []).map((row) => ({ ...row }));
+  });
+
+  const createRow = (values: Row): Row => ({
+    id: String(nextId++),
+    created_at: new Date().toISOString(),
+    ...values,
+  });
+
+  return {
+    async select(table, selectOptions = {}) {
+      return runSelect(rowsOf(table), selectOptions) as Tables[typeof table][];
+    },
+
+    async insert(table, values) {
+      const created = values.map((value) => createRow(value));
+      rowsOf(table).push(...created);
+      return created.map((row) => ({ ...row })) as Tables[typeof table][];
+    },
+
+    async update(table, values, filters) {
+      const updated = rowsOf(table).filter((row) => matchesAll(row, filters));
+      updated.forEach((row) => Object.assign(row, values));
+      return updated.map((row) => ({ ...row })) as Tables[typeof table][];
+    },
+
+    async upsert(table, values, onConflict) {
+      const rows = rowsOf(table);
+      const result = values.map((value: Row) => {
+        const existing = rows.find((row) => onConflict.every((column) => row[column] === value[column]));
+        if (existing) return Object.assign(existing, value);
+        const created = createRow(value);
+        rows.push(created);
+        return created;
+      });
+      return result.map((row) => ({ ...row })) as Tables[typeof table][];
+    },
+
+    async remove(table, filters) {
+      tables[table] = rowsOf(table).filter((row) => !matchesAll(row, filters));
+    },
+  };
+}
@@ -0,0 +1,443 @@
+import type { DataBackend, Filter, SelectOptions } from './backend';
+import { matchesAll, pageCovers, runSelect, type Row } from './query';
+import type { TableName, Tables } from './types';
+
+export interface KeyValueStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+}
+
+interface PendingRow {
+  /** The id the row is cached under until the server's row replaces it: its own id if it was given one. */
+  localId: string;
+  values: Row;
+}
+
+type OutboxOperation =
+  | { kind: 'insert'; rows: PendingRow[] }
+  | { kind: 'update'; values: Row; filters: Filter<any>[] }
+  | { kind: 'upsert'; rows: PendingRow[]; onConflict: string[] }
+  | { kind: 'remove'; filters: Filter<any>[] };
+
+export type OutboxEntry = OutboxOperation & {
+  id: string;
+  table: TableName;
+  queuedAt: string;
+};
+
+export interface FailedEntry {
+  entry: OutboxEntry;
+  message: string;
+  failedAt: string;
+}
+
+export interface SyncStatus {
+  online: boolean;
+  syncing: boolean;
+  pending: number;
+  pendingByTable: Partial<Record<TableName, number>>;
+  failed: FailedEntry[];
+  lastSyncedAt: string | null;
+}
+
+export interface SyncController {
+  getStatus(): SyncStatus;
+  subscribe(listener: (status: SyncStatus) => void): () => void;
+  /** Replays the outbox against the remote backend. Resolves once the queue is empty or the remote is unreachable. */
+  flush(): Promise<void>;
+  /**
+   * Drops writes the server rejected, along with rows they created locally; the next read restores the
+   * server's version of the rest.
+   */
+  discardFailed(): Promise<void>;
+}
+
+export type OfflineBackend = DataBackend & SyncController;
+
+const storageKeys = (namespace: string) => ({
+  tables: `${namespace}:tables`,
+  outbox: `${namespace}:outbox`,
+  failed: `${namespace}:failed`,
+  idMap: `${namespace}:id-map`,
+  lastSyncedAt: `${namespace}:last-synced-at`,
+});
+
+const LOCAL_ID_PREFIX = 'local-';
+
+const createLocalId = () => `${LOCAL_ID_PREFIX}${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const isLocalId = (value: unknown): value is string =>
+  typeof value === 'string' && value.startsWith(LOCAL_ID_PREFIX);
+
+// Fetch failures surface from supabase-js as errors without a Postgres error code.
+export const isNetworkError = (error: any) =>
+  !error?.code && /network|fetch|timed? ?out|offline|abort/i.test(String(error?.message ?? error));
+
+/**
+ * Offline-first `DataBackend`. Every write lands in a local AsyncStorage-backed
+ * copy of the tables and is queued in a durable outbox, which is replayed
+ * against `remote` in order whenever it is reachable.
+ *
+ * Conflicts are resolved as follows:
+ * - updates and upserts are last-write-wins: the queued write is applied over the server row;
+ * - an update or delete of a row that no longer exists remotely is dropped;
+ * - writes the server rejects (constraint or permission errors) are moved to
+ *   `failed` instead of blocking the rest of the queue.
+ *
+ * State is stored under `namespace`, so each signed-in user gets their own cache and outbox.
+ */
+export function createOfflineBackend(
+  remote: DataBackend,
+  storage: KeyValueStorage,
+  namespace = 'offline'
+): OfflineBackend {
+  const STORAGE_KEYS = storageKeys(namespace);
+  let tables: Record<string, Row[]> = {};
+  let outbox: OutboxEntry[] = [];
+  let failed: FailedEntry[] = [];
+  let idMap: Record<string, string> = {};
+  let lastSyncedAt: string | null = null;
+  let online = true;
+  let flushing: Promise<void> | null = null;
+  // The outbox entry `drain` is sending; it can no longer be amended
+  let sending: string | null = null;
+  // Until the stored state has been read, writing it back would wipe it
+  let loaded = false;
+  const listeners = new Set<(status: SyncStatus) => void>();
+
+  const ready = (async () => {
+    const [storedTables, storedOutbox, storedFailed, storedIdMap, storedLastSyncedAt] = await Promise.all([
+      storage.getItem(STORAGE_KEYS.tables),
+      storage.getItem(STORAGE_KEYS.outbox),
+      storage.getItem(STORAGE_KEYS.failed),
+      storage.getItem(STORAGE_KEYS.idMap),
+      storage.getItem(STORAGE_KEYS.lastSyncedAt),
+    ]);
+    tables = storedTables ? JSON.parse(storedTables) : {};
+    outbox = storedOutbox ? JSON.parse(storedOutbox) : [];
+    failed = storedFailed ? JSON.parse(storedFailed) : [];
+    idMap = storedIdMap ? JSON.parse(storedIdMap) : {};
+    lastSyncedAt = storedLastSyncedAt || null;
+    loaded = true;
+  })().catch((error) => {
+    // Carry on in memory for this session, leaving the stored outbox for the next launch
+    console.error('Error loading offline store:', error);
+  });
+
+  const rowsOf = (table: string) => (tables[table] ??= []);
+
+  const getStatus = (): SyncStatus => {
+    const pendingByTable: Partial<Record<TableName, number>> = {};
+    outbox.forEach(({ table }) => {
+      pendingByTable[table] = (pendingByTable[table] ?? 0) + 1;
+    });
+    return {
+      online,
+      syncing: flushing !== null,
+      pending: outbox.length,
+      pendingByTable,
+      failed,
+      lastSyncedAt,
+    };
+  };
+
+  const notify = () => {
+    const status = getStatus();
+    listeners.forEach((listener) => listener(status));
+  };
+
+  const persist = async () => {
+    if (!loaded) {
+      notify();
+      return;
+    }
+    try {
+      await Promise.all([
+        storage.setItem(STORAGE_KEYS.tables, JSON.stringify(tables)),
+        storage.setItem(STORAGE_KEYS.outbox, JSON.stringify(outbox)),
+        storage.setItem(STORAGE_KEYS.failed, JSON.stringify(failed)),
+        storage.setItem(STORAGE_KEYS.idMap, JSON.stringify(idMap)),
+        storage.setItem(STORAGE_KEYS.lastSyncedAt, lastSyncedAt ?? ''),
+      ]);
+    } catch (error) {
+      console.error('Error saving offline store:', error);
+    }
+    notify();
+  };
+
+  // Rows created offline keep their local id in screens until they refetch,
+  // so ids coming back in later writes are translated to the server id.
+  const resolveIds = <T>(value: T): T => {
+    if (isLocalId(value)) return (idMap[value] ?? value) as T;
+    if (Array.isArray(value)) return value.map(resolveIds) as T;
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, resolveIds(v)])) as T;
+    }
+    return value;
+  };
+
+  // A row written with an explicit id (a restored backup row, say) keeps it, so re-applying the entry finds it
+  const pendingRow = (value: Row): PendingRow => {
+    const values = resolveIds(value);
+    return { localId: typeof values.id === 'string' ? values.id : createLocalId(), values };
+  };
+
+  const targetsLocalRow = (filters: Filter<any>[]) =>
+    filters.find((f) => f.column === 'id' && f.op === 'eq' && isLocalId(f.value))?.value as string | undefined;
+
+  const applyUpsert = (table: string, rows: PendingRow[], onConflict: string[]) =>
+    rows.map(({ localId, values }) => {
+      const existing =
+        rowsOf(table).find((row) => onConflict.every((column) => row[column] === values[column])) ??
+        rowsOf(table).find((row) => row.id === localId);
+      if (existing) return Object.assign(existing, values);
+      const created = { id: localId, created_at: new Date().toISOString(), ...values };
+      rowsOf(table).push(created);
+      return created;
+    });
+
+  const applyLocally = (entry: OutboxEntry) => {
+    switch (entry.kind) {
+      case 'insert':
+        entry.rows.forEach(({ localId, values }) => {
+          if (!rowsOf(entry.table).some((row) => row.id === localId)) {
+            rowsOf(entry.table).push({ id: localId, created_at: entry.queuedAt, ...values });
+          }
+        });
+        return;
+      case 'update':
+        rowsOf(entry.table)
+          .filter((row) => matchesAll(row, entry.filters))
+          .forEach((row) => Object.assign(row, entry.values));
+        return;
+      case 'upsert':
+        applyUpsert(entry.table, entry.rows, entry.onConflict);
+        return;
+      case 'remove':
+        tables[entry.table] = rowsOf(entry.table).filter((row) => !matchesAll(row, entry.filters));
+        return;
+    }
+  };
+
+  const enqueue = async (operation: OutboxOperation & { table: TableName }) => {
+    const entry = { ...operation, id: createLocalId(), queuedAt: new Date().toISOString() } as OutboxEntry;
+    applyLocally(entry);
+
+    const localTarget = entry.kind === 'update' || entry.kind === 'remove' ? targetsLocalRow(entry.filters) : undefined;
+    const pendingInsert = localTarget
+      ? outbox.find(
+          (queued) =>
+            queued.kind === 'insert' &&
+            queued.id !== sending &&
+            queued.rows.some((row) => row.localId === localTarget)
+        )
+      : undefined;
+
+    // A change pointing at another row that isn't on the server yet (an expense linked to a new debit, say)
+    // can't ride along with this insert, which may be sent first: it's queued behind both, so by the time
+    // it's sent the local ids in it have been replaced with the server's.
+    const foldable = entry.kind === 'update' && !Object.values(entry.values).some(isLocalId);
+
+    if (pendingInsert?.kind === 'insert' && foldable) {
+      // The row has not reached the server yet: fold the change into its insert.
+      const pendingRow = pendingInsert.rows.find((row) => row.localId === localTarget)!;
+      Object.assign(pendingRow.values, entry.values);
+    } else if (pendingInsert?.kind === 'insert' && entry.kind === 'remove') {
+      pendingInsert.rows = pendingInsert.rows.filter((row) => row.localId !== localTarget);
+      if (pendingInsert.rows.length === 0) {
+        outbox = outbox.filter((queued) => queued !== pendingInsert);
+      }
+    } else {
+      outbox.push(entry);
+    }
+
+    await persist();
+    void flush();
+  };
+
+  const replaceLocalId = (localId: string, serverId: string) => {
+    idMap[localId] = serverId;
+    outbox = outbox.map((entry) => resolveIds(entry));
+  };
+
+  const mergeRemote = (table: TableName, options: SelectOptions<any>, remoteRows: Row[]) => {
+    // A cached row the result should have held but didn't was deleted elsewhere: anywhere in a complete
+    // result, or within the stretch of the sort order a page spans. Rows still waiting to be inserted are
+    // put back below; those whose insert failed are gone for good.
+    const covered = pageCovers(options, remoteRows);
+    tables[table] = rowsOf(table).filter((row) => !(matchesAll(row, options.filters) && covered(row)));
+    remoteRows.forEach((remoteRow) => {
+      const index = rowsOf(table).findIndex((row) => row.id === remoteRow.id);
+      if (index === -1) rowsOf(table).push({ ...remoteRow });
+      else rowsOf(table)[index] = { ...remoteRow };
+    });
+    // Writes still waiting in the outbox win over what the server returned.
+    outbox.filter((entry) => entry.table === table).forEach(applyLocally);
+  };
+
+  const send = async (entry: OutboxEntry) => {
+    switch (entry.kind) {
+      case 'insert': {
+        const created = await remote.insert(entry.table, entry.rows.map((row) => row.values));
+        entry.rows.forEach(({ localId }, index) => {
+          const serverRow = created[index] as Row | undefined;
+          if (!serverRow) return;
+          tables[entry.table] = rowsOf(entry.table).map((row) => (row.id === localId ? { ...serverRow } : row));
+          if (isLocalId(localId)) replaceLocalId(localId, serverRow.id);
+        });
+        return;
+      }
+      case 'update': {
+        const updated = await remote.update(entry.table, entry.values, entry.filters);
+        if (updated.length === 0) {
+          // Deleted elsewhere: drop our copy rather than resurrecting it.
+          tables[entry.table] = rowsOf(entry.table).filter((row) => !matchesAll(row, entry.filters));
+        }
+        return;
+      }
+      case 'upsert': {
+        const saved = await remote.upsert(
+          entry.table,
+          entry.rows.map((row) => row.values),
+          entry.onConflict as (keyof Tables[typeof entry.table] & string)[]
+        );
+        entry.rows.forEach(({ localId }, index) => {
+          const serverRow = saved[index] as Row | undefined;
+          if (!serverRow) return;
+          tables[entry.table] = rowsOf(entry.table).map((row) =>
+            row.id === localId || row.id === serverRow.id ? { ...serverRow } : row
+          );
+          if (isLocalId(localId)) replaceLocalId(localId, serverRow.id);
+        });
+        return;
+      }
+      case 'remove':
+        await remote.remove(entry.table, entry.filters);
+        return;
+    }
+  };
+
+  const drain = async () => {
+    await ready;
+    while (outbox.length > 0) {
+      const entry = outbox[0];
+      sending = entry.id;
+      try {
+        await send(entry);
+        online = true;
+      } catch (error: any) {
+        if (isNetworkError(error)) {
+          online = false;
+          break;
+        }
+        failed = [...failed, { entry, message: error?.message ?? String(error), failedAt: new Date().toISOString() }];
+      } finally {
+        sending = null;
+      }
+      outbox = outbox.filter((queued) => queued.id !== entry.id);
+      if (outbox.length === 0) lastSyncedAt = new Date().toISOString();
+      await persist();
+    }
+  };
+
+  const flush = () => {
+    if (!flushing) {
+      flushing = drain().finally(() => {
+        flushing = null;
+        notify();
+      });
+      notify();
+    }
+    return flushing;
+  };
+
+  return {
+    async select(table, options = {}) {
+      await ready;
+      const resolved = resolveIds(options);
+      // Partial rows can't be cached, so a projection is read from the server as it is, unless the table has
+      // writes still queued that only the cache reflects
+      if (resolved.columns) {
+        if (!outbox.some((entry) => entry.table === table)) {
+          try {
+            const remoteRows = await remote.select(table, resolved);
+            online = true;
+            return remoteRows;
+          } catch (error) {
+            if (!isNetworkError(error)) throw error;
+            online = false;
+            notify();
+          }
+        }
+        return runSelect(rowsOf(table), resolved) as Tables[typeof table][];
+      }
+      try {
+        const remoteRows = await remote.select(table, resolved);
+        online = true;
+        mergeRemote(table, resolved, remoteRows);
+        await persist();
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        online = false;
+        notify();
+      }
+      return runSelect(rowsOf(table), resolved) as Tables[typeof table][];
+    },
+
+    async insert(table, values) {
+      await ready;
+      const rows = values.map((value) => pendingRow(value as Row));
+      await enqueue({ kind: 'insert', table, rows });
+      const ids = rows.map((row) => row.localId);
+      return rowsOf(table)
+        .filter((row) => ids.includes(row.id))
+        .map((row) => ({ ...row })) as Tables[typeof table][];
+    },
+
+    async update(table, values, filters) {
+      await ready;
+      const resolvedFilters = resolveIds(filters);
+      await enqueue({ kind: 'update', table, values: resolveIds(values as Row), filters: resolvedFilters });
+      return runSelect(rowsOf(table), { filters: resolvedFilters }) as Tables[typeof table][];
+    },
+
+    async upsert(table, values, onConflict) {
+      await ready;
+      const rows = values.map((value) => pendingRow(value as Row));
+      await enqueue({ kind: 'upsert', table, rows, onConflict });
+      return rows
+        .map(({ values: rowValues }) =>
+          rowsOf(table).find((row) => onConflict.every((column) => row[column] === rowValues[column]))
+        )
+        .filter(Boolean)
+        .map((row) => ({ ...row })) as Tables[typeof table][];
+    },
+
+    async remove(table, filters) {
+      await ready;
+      await enqueue({ kind: 'remove', table, filters: resolveIds(filters) });
+    },
+
+    getStatus,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    flush,
+
+    async discardFailed() {
+      await ready;
+      failed.forEach(({ entry }) => {
+        if (entry.kind !== 'insert') return;
+        const localIds = new Set(entry.rows.map((row) => row.localId));
+        tables[entry.table] = rowsOf(entry.table).filter((row) => !localIds.has(row.id));
+      });
+      failed = [];
+      await persist();
+    },
+  };
+}
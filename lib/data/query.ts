@@ -0,0 +1,67 @@
+import type { Filter, Order, SelectOptions } from './backend';
+
+export type Row = Record<string, any>;
+
+const compare = (a: any, b: any) => (a < b ? -1 : a > b ? 1 : 0);
+
+export const matches = (row: Row, { column, op, value }: Filter<any>) => {
+  const actual = row[column];
+  switch (op) {
+    case 'eq':
+      return actual === value;
+    case 'neq':
+      return actual !== value;
+    case 'gt':
+      return compare(actual, value) > 0;
+    case 'gte':
+      return compare(actual, value) >= 0;
+    case 'lt':
+      return compare(actual, value) < 0;
+    case 'lte':
+      return compare(actual, value) <= 0;
+    case 'in':
+      return Array.isArray(value) && value.includes(actual);
+  }
+};
+
+export const matchesAll = (row: Row, filters: Filter<any>[] = []) => filters.every((f) => matches(row, f));
+
+const compareRows = (order: Order<any>[]) => (a: Row, b: Row) => {
+  for (const { column, ascending } of order) {
+    const result = compare(a[column], b[column]);
+    if (result !== 0) return ascending ? result : -result;
+  }
+  return 0;
+};
+
+const sortRows = (rows: Row[], order: Order<any>[]) => [...rows].sort(compareRows(order));
+
+/**
+ * Whether a row matching the select would land within the page `rows` is: between the page's first and last
+ * row in the sort order, reaching back to the start on the first page and on to the end on a short one. Rows
+ * tied with either end may belong to the neighbouring page, so they only count at an open end.
+ */
+export function pageCovers(options: SelectOptions<any>, rows: Row[]): (row: Row) => boolean {
+  const fromStart = !options.offset;
+  const toEnd = options.limit === undefined || rows.length < options.limit;
+  const order = options.order ?? [];
+  // Without an order (or any row to measure by), only a page holding the whole result covers anything
+  if (order.length === 0 || rows.length === 0) return () => fromStart && toEnd;
+
+  const compareTo = compareRows(order);
+  const [first, last] = [rows[0], rows[rows.length - 1]];
+  return (row) => (fromStart || compareTo(row, first) > 0) && (toEnd || compareTo(row, last) < 0);
+}
+
+// Evaluates a select against plain rows the same way PostgREST would.
+export function runSelect(rows: Row[], options: SelectOptions<any> = {}): Row[] {
+  let result = sortRows(rows.filter((row) => matchesAll(row, options.filters)), options.order ?? []);
+  const offset = options.offset ?? 0;
+  if (offset > 0 || options.limit !== undefined) {
+    result = result.slice(offset, options.limit !== undefined ? offset + options.limit : undefined);
+  }
+  const { columns } = options;
+  return result.map((row) =>
+    columns ? Object.fromEntries(columns.map((column) => [column, row[column]])) : { ...row }
+  );
+}
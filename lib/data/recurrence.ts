@@ -0,0 +1,49 @@
+import { addDays, daysInMonth, toLocalDate, toLocalDateString } from '../local-date';
+import type { RecurringExpense } from './types';
+
+/** The cycle date in a given month, clamped to the month's last day (e.g. the 31st in February). */
+export function cycleDate(year: number, monthIndex: number, dayOfMonth: number): string {
+  return toLocalDateString(new Date(year, monthIndex, Math.min(dayOfMonth, daysInMonth(year, monthIndex))));
+}
+
+// The first day a cycle could still be generated on
+const firstOpenDate = (template: Pick<RecurringExpense, 'start_date' | 'generated_through'>) =>
+  template.generated_through
+    ? toLocalDateString(addDays(toLocalDate(template.generated_through), 1))
+    : template.start_date;
+
+/** Cycle dates that should exist by `today` but haven't been generated yet, oldest first. */
+export function dueCycleDates(
+  template: Pick<RecurringExpense, 'day_of_month' | 'start_date' | 'end_date' | 'generated_through'>,
+  today: string
+): string[] {
+  const from = firstOpenDate(template);
+  const until = template.end_date && template.end_date < today ? template.end_date : today;
+  if (from > until) return [];
+
+  const dates: string[] = [];
+  const cursor = toLocalDate(from);
+  cursor.setDate(1);
+  const last = toLocalDate(until);
+  while (cursor <= last) {
+    const date = cycleDate(cursor.getFullYear(), cursor.getMonth(), template.day_of_month);
+    if (date >= from && date <= until) dates.push(date);
+    cursor.setMonth(cursor.getMonth() + 1);
+  }
+  return dates;
+}
+
+/** The next cycle on or after `today` that hasn't been generated or skipped, or null once the recurrence has ended. */
+export function nextCycleDate(
+  template: Pick<RecurringExpense, 'day_of_month' | 'start_date' | 'end_date' | 'generated_through'>,
+  today: string
+): string | null {
+  const open = firstOpenDate(template);
+  const from = open > today ? open : today;
+  const start = toLocalDate(from);
+  for (let offset = 0; offset < 2; offset++) {
+    const date = cycleDate(start.getFullYear(), start.getMonth() + offset, template.day_of_month);
+    if (date >= from) return template.end_date && date > template.end_date ? null : date;
+  }
+  return null;
+}
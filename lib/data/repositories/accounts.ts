@@ -0,0 +1,47 @@
+import { asc, eq, type DataBackend } from '../backend';
+import type { Account } from '../types';
+
+export type AccountInput = Pick<Account, 'name' | 'icon' | 'color' | 'currency'>;
+
+// Created in the base currency for users who have no account yet, so there's always somewhere for money to go.
+const DEFAULT_ACCOUNT: Omit<AccountInput, 'currency'> = { name: 'Cash', icon: 'banknote.fill', color: '#4ADE80' };
+
+export function createAccountsRepository(backend: DataBackend, baseCurrency: string) {
+  const list = (): Promise<Account[]> => backend.select('accounts', { order: [asc('created_at'), asc('name')] });
+
+  return {
+    list,
+
+    /** The user's accounts, oldest first; the first one is the default and is created if none exist. */
+    async ensureDefault(): Promise<Account[]> {
+      const accounts = await list();
+      if (accounts.length > 0) return accounts;
+      // Upserted on name so two devices starting fresh don't each create one
+      return backend.upsert('accounts', [{ ...DEFAULT_ACCOUNT, currency: baseCurrency }], ['name']);
+    },
+
+    async add(input: AccountInput): Promise<Account> {
+      const [created] = await backend.insert('accounts', [input]);
+      return created;
+    },
+
+    // The currency is left out: the account's existing ledger is in it.
+    async update(id: string, changes: Partial<Omit<AccountInput, 'currency'>>): Promise<void> {
+      await backend.update('accounts', changes, [eq('id', id)]);
+    },
+
+    // Deleting an account would erase its ledger and unlink expenses debited from it, so only unused ones can go.
+    async remove(id: string): Promise<void> {
+      const [transactions, expenses] = await Promise.all([
+        backend.select('balance_transactions', { filters: [eq('account_id', id)], limit: 1 }),
+        backend.select('expenses', { filters: [eq('account_id', id)], limit: 1 }),
+      ]);
+      if (transactions.length > 0 || expenses.length > 0) {
+        throw new Error('Only accounts without transactions or expenses can be deleted');
+      }
+      await backend.remove('accounts', [eq('id', id)]);
+    },
+  };
+}
+
+export type AccountsRepository = ReturnType<typeof createAccountsRepository>;
@@ -0,0 +1,140 @@
+import type { DataBackend } from '../backend';
+import type { Row } from '../query';
+import type { TableName, Tables } from '../types';
+
+/** Every table the app uses, each listed after the tables its rows reference. */
+export const BACKUP_TABLES: TableName[] = [
+  'accounts',
+  'expense_categories',
+  'savings',
+  'savings_goals',
+  'savings_allocations',
+  'balance_transactions',
+  'recurring_expenses',
+  'expenses',
+  'budgets',
+  'exchange_rates',
+  'statement_mappings',
+  'work_tracker',
+  'prayer_reminders',
+];
+
+export type TableSnapshot = { [K in TableName]: Tables[K][] };
+
+/** `merge` adds what's missing and keeps every current row; `replace` clears each restored table first. */
+export type RestoreMode = 'merge' | 'replace';
+
+// Unique constraints other than the primary key (see supabase/migrations), leaving out user_id. A null
+// never conflicts, except in budgets where the overall budget's null category is unique too. Prayer
+// reminders have no constraint, but every user is seeded one per prayer on sign-up.
+const UNIQUE_KEYS: { [K in TableName]?: (keyof Tables[K] & string)[] } = {
+  accounts: ['name'],
+  expense_categories: ['name'],
+  savings: ['year', 'month'],
+  savings_allocations: ['savings_id', 'goal_id'],
+  budgets: ['category_id'],
+  exchange_rates: ['from_currency', 'to_currency', 'effective_date'],
+  statement_mappings: ['bank_name'],
+  expenses: ['recurring_expense_id', 'date'],
+  prayer_reminders: ['prayer_name'],
+};
+
+const NULLS_EQUAL: TableName[] = ['budgets'];
+
+// Columns holding the id of another row, possibly in another table
+const REFERENCE_COLUMNS = [
+  'account_id',
+  'category_id',
+  'savings_id',
+  'goal_id',
+  'recurring_expense_id',
+  'balance_transaction_id',
+  'transfer_id',
+];
+
+// Keeps each request well under PostgREST's payload limit
+const INSERT_BATCH_SIZE = 500;
+
+const sameKey = (a: Row, b: Row, columns: string[], nullsEqual: boolean) =>
+  columns.every((column) => a[column] === b[column] && (nullsEqual || a[column] !== null));
+
+// Backups are read from `backend`, which works offline, and restored to `remote`, the server itself, so
+// every rejected write surfaces here rather than later in an outbox.
+export function createBackupRepository(backend: DataBackend, remote: DataBackend) {
+  const snapshotOf = async (source: DataBackend, tables: TableName[]): Promise<Partial<TableSnapshot>> => {
+    const rows = await Promise.all(tables.map((table) => source.select(table)));
+    return Object.fromEntries(tables.map((table, index) => [table, rows[index]]));
+  };
+
+  // Referencing rows go first so nothing is left pointing at a deleted row
+  const clear = async (tables: TableName[]) => {
+    for (const table of [...tables].reverse()) {
+      await remote.remove(table, []);
+    }
+  };
+
+  const write = async (snapshot: Partial<TableSnapshot>, tables: TableName[], mode: RestoreMode) => {
+    const replacedIds = new Map<string, string>();
+    const written: Partial<Record<TableName, number>> = {};
+    for (const table of tables) {
+      const current: Row[] = mode === 'merge' ? await remote.select(table) : [];
+      const currentIds = new Set(current.map((row) => row.id));
+      const uniqueKey = UNIQUE_KEYS[table] as string[] | undefined;
+
+      const rows: Row[] = [];
+      (snapshot[table] as Row[]).forEach(({ user_id: _owner, ...row }) => {
+        if (currentIds.has(row.id)) return;
+        REFERENCE_COLUMNS.forEach((column) => {
+          if (replacedIds.has(row[column])) row[column] = replacedIds.get(row[column]);
+        });
+        const clash =
+          uniqueKey && current.find((existing) => sameKey(existing, row, uniqueKey, NULLS_EQUAL.includes(table)));
+        if (clash) {
+          replacedIds.set(row.id, clash.id);
+          return;
+        }
+        rows.push(row);
+      });
+
+      for (let start = 0; start < rows.length; start += INSERT_BATCH_SIZE) {
+        await remote.insert(table, rows.slice(start, start + INSERT_BATCH_SIZE) as Partial<Tables[typeof table]>[]);
+      }
+      written[table] = rows.length;
+    }
+    return written;
+  };
+
+  return {
+    snapshot: () => snapshotOf(backend, BACKUP_TABLES) as Promise<TableSnapshot>,
+
+    /**
+     * Writes the snapshot's rows back with their original ids, so references between them hold. Tables
+     * missing from `snapshot` are left alone. When merging, a row that clashes with a current one on a
+     * unique column (an account of the same name, say) is dropped and rows pointing at it are pointed at
+     * the current one instead. When replacing, the tables are put back as they were if any step fails.
+     * Needs a connection, and the outbox should be empty first, or writes queued on this device would land
+     * on top of the backup. Resolves how many rows were written per table.
+     */
+    async restore(snapshot: Partial<TableSnapshot>, mode: RestoreMode): Promise<Partial<Record<TableName, number>>> {
+      const tables = BACKUP_TABLES.filter((table) => snapshot[table] !== undefined);
+      if (mode === 'merge') return write(snapshot, tables, mode);
+
+      const previous = await snapshotOf(remote, tables);
+      try {
+        await clear(tables);
+        return await write(snapshot, tables, mode);
+      } catch (error: any) {
+        try {
+          await clear(tables);
+          await write(previous, tables, mode);
+        } catch (rollbackError) {
+          console.error('Error putting back data after a failed restore:', rollbackError);
+          throw new Error(`Restoring failed part way and the previous data couldn't be put back: ${error.message}`);
+        }
+        throw new Error(`Restoring failed, so your data was put back as it was: ${error.message}`);
+      }
+    },
+  };
+}
+
+export type BackupRepository = ReturnType<typeof createBackupRepository>;
@@ -0,0 +1,140 @@
+import { randomUUID } from 'expo-crypto';
+
+import { desc, eq, type DataBackend } from '../backend';
+import { fromMinor, subtractMoney, toMinor } from '../../money';
+import type { Account, BalanceTransaction, BalanceTransactionKind, BalanceTransactionSource } from '../types';
+import type { AccountsRepository } from './accounts';
+
+export interface LedgerEntry extends BalanceTransaction {
+  /** Balance of the transaction's account right after it was applied, in the account's currency. */
+  runningTotal: number;
+}
+
+export interface AccountBalance extends Account {
+  balance: number;
+}
+
+export const signedAmount = (transaction: Pick<BalanceTransaction, 'kind' | 'amount'>) =>
+  transaction.kind === 'credit' ? Number(transaction.amount) : -Number(transaction.amount);
+
+// Transactions come newest first; running totals are accumulated oldest first, per account since
+// accounts may be kept in different currencies.
+export const withRunningTotals = (transactions: BalanceTransaction[]): LedgerEntry[] => {
+  // Kept in minor units so long histories add up exactly
+  const totals = new Map<string, number>();
+  return [...transactions]
+    .reverse()
+    .map((transaction) => {
+      const total = (totals.get(transaction.account_id) ?? 0) + toMinor(signedAmount(transaction));
+      totals.set(transaction.account_id, total);
+      return { ...transaction, runningTotal: fromMinor(total) };
+    })
+    .reverse();
+};
+
+export function createBalanceRepository(backend: DataBackend, accounts: AccountsRepository) {
+  const listTransactions = (): Promise<BalanceTransaction[]> =>
+    backend.select('balance_transactions', { order: [desc('created_at')] });
+
+  const record = async (
+    accountId: string,
+    kind: BalanceTransactionKind,
+    amount: number,
+    note: string | null = null,
+    source: BalanceTransactionSource = 'manual'
+  ) => {
+    const [created] = await backend.insert('balance_transactions', [
+      { account_id: accountId, kind, amount, note, source, transfer_id: null },
+    ]);
+    return created;
+  };
+
+  return {
+    listTransactions,
+
+    /**
+     * Every transaction with its account's running balance, plus each account's own balance. There is no
+     * combined total here: accounts can be in different currencies, so adding them up needs exchange rates.
+     */
+    async getLedger(): Promise<{ entries: LedgerEntry[]; accounts: AccountBalance[] }> {
+      const [transactions, accountList] = await Promise.all([listTransactions(), accounts.ensureDefault()]);
+      const entries = withRunningTotals(transactions);
+      return {
+        entries,
+        accounts: accountList.map((account) => ({
+          ...account,
+          // Newest first, so the first entry of the account holds its current balance
+          balance: entries.find((entry) => entry.account_id === account.id)?.runningTotal ?? 0,
+        })),
+      };
+    },
+
+    credit(
+      accountId: string,
+      amount: number,
+      note?: string | null,
+      source?: BalanceTransactionSource
+    ): Promise<BalanceTransaction> {
+      return record(accountId, 'credit', amount, note, source);
+    },
+
+    debit(
+      accountId: string,
+      amount: number,
+      note?: string | null,
+      source?: BalanceTransactionSource
+    ): Promise<BalanceTransaction> {
+      return record(accountId, 'debit', amount, note, source);
+    },
+
+    // Setting an exact balance is recorded as the difference, so history still adds up.
+    async adjustTo(accountId: string, target: number, current: number): Promise<BalanceTransaction | null> {
+      const difference = subtractMoney(target, current);
+      if (difference === 0) return null;
+      return record(
+        accountId,
+        difference > 0 ? 'credit' : 'debit',
+        Math.abs(difference),
+        'Balance adjustment',
+        'adjustment'
+      );
+    },
+
+    // A debit from one account and a credit to the other, tied together by an id made here so both legs
+    // go out in one insert, online or queued offline. Between currencies, `received` is what arrived in
+    // `to`'s currency; otherwise it's the same as `amount`.
+    async transfer(from: Account, to: Account, amount: number, received = amount): Promise<void> {
+      const transferId = randomUUID();
+      await backend.insert('balance_transactions', [
+        {
+          account_id: from.id,
+          kind: 'debit',
+          amount,
+          note: `Transfer to ${to.name}`,
+          source: 'transfer',
+          transfer_id: transferId,
+        },
+        {
+          account_id: to.id,
+          kind: 'credit',
+          amount: received,
+          note: `Transfer from ${from.name}`,
+          source: 'transfer',
+          transfer_id: transferId,
+        },
+      ]);
+    },
+
+    // Undo removes the entry outright (both legs, for a transfer); the running totals of later entries shift with it.
+    async undo(id: string): Promise<void> {
+      const [transaction] = await backend.select('balance_transactions', { filters: [eq('id', id)], limit: 1 });
+      if (transaction?.transfer_id) {
+        await backend.remove('balance_transactions', [eq('transfer_id', transaction.transfer_id)]);
+        return;
+      }
+      await backend.remove('balance_transactions', [eq('id', id)]);
+    },
+  };
+}
+
+export type BalanceRepository = ReturnType<typeof createBalanceRepository>;
@@ -0,0 +1,33 @@
+import { eq, type DataBackend } from '../backend';
+import { scaleMoney } from '../../money';
+import type { Budget } from '../types';
+
+export function createBudgetsRepository(backend: DataBackend) {
+  return {
+    list(): Promise<Budget[]> {
+      return backend.select('budgets');
+    },
+
+    // One budget per category (and one overall, with a null category): setting it again replaces the amount.
+    async set(categoryId: string | null, amount: number): Promise<void> {
+      await backend.upsert('budgets', [{ category_id: categoryId, amount }], ['category_id']);
+    },
+
+    async remove(id: string): Promise<void> {
+      await backend.remove('budgets', [eq('id', id)]);
+    },
+
+    // Budgets are kept in the base currency, so changing it converts them; `rate` is the new one per old one.
+    async rebase(rate: number): Promise<void> {
+      const budgets = await backend.select('budgets');
+      if (budgets.length === 0) return;
+      await backend.upsert(
+        'budgets',
+        budgets.map(({ category_id, amount }) => ({ category_id, amount: scaleMoney(Number(amount), rate) })),
+        ['category_id']
+      );
+    },
+  };
+}
+
+export type BudgetsRepository = ReturnType<typeof createBudgetsRepository>;
@@ -0,0 +1,25 @@
+import { asc, desc, eq, type DataBackend } from '../backend';
+import type { ExchangeRate } from '../types';
+
+export type ExchangeRateInput = Pick<ExchangeRate, 'from_currency' | 'to_currency' | 'rate' | 'effective_date'>;
+
+export function createExchangeRatesRepository(backend: DataBackend) {
+  return {
+    list(): Promise<ExchangeRate[]> {
+      return backend.select('exchange_rates', {
+        order: [asc('from_currency'), asc('to_currency'), desc('effective_date')],
+      });
+    },
+
+    // One rate per pair and day: entering it again for the same day corrects it.
+    async set(input: ExchangeRateInput): Promise<void> {
+      await backend.upsert('exchange_rates', [input], ['from_currency', 'to_currency', 'effective_date']);
+    },
+
+    async remove(id: string): Promise<void> {
+      await backend.remove('exchange_rates', [eq('id', id)]);
+    },
+  };
+}
+
+export type ExchangeRatesRepository = ReturnType<typeof createExchangeRatesRepository>;
@@ -0,0 +1,30 @@
+import { asc, eq, type DataBackend } from '../backend';
+import type { ExpenseCategory } from '../types';
+
+export type ExpenseCategoryInput = Pick<ExpenseCategory, 'name' | 'icon' | 'color'>;
+
+export function createExpenseCategoriesRepository(backend: DataBackend) {
+  return {
+    list(): Promise<ExpenseCategory[]> {
+      return backend.select('expense_categories', { order: [asc('name')] });
+    },
+
+    async add(input: ExpenseCategoryInput): Promise<ExpenseCategory> {
+      const [created] = await backend.insert('expense_categories', [input]);
+      return created;
+    },
+
+    async update(id: string, changes: Partial<ExpenseCategoryInput>): Promise<void> {
+      await backend.update('expense_categories', changes, [eq('id', id)]);
+    },
+
+    // Expenses in a removed category become uncategorized; its budget goes with it.
+    async remove(id: string): Promise<void> {
+      await backend.update('expenses', { category_id: null }, [eq('category_id', id)]);
+      await backend.remove('budgets', [eq('category_id', id)]);
+      await backend.remove('expense_categories', [eq('id', id)]);
+    },
+  };
+}
+
+export type ExpenseCategoriesRepository = ReturnType<typeof createExpenseCategoriesRepository>;
@@ -0,0 +1,235 @@
+import { desc, eq, gte, lte, type DataBackend, type Filter } from '../backend';
+import type { Convert } from '../../currency';
+import { compareMoney, fromMinor, toMinor } from '../../money';
+import type { BalanceTransaction, Expense } from '../types';
+import type { AccountsRepository } from './accounts';
+import { signedAmount, type BalanceRepository } from './balance';
+
+export type ExpenseInput = Pick<Expense, 'name' | 'amount' | 'currency' | 'type' | 'date' | 'category_id' | 'tags'> &
+  Partial<Pick<Expense, 'recurring_expense_id' | 'account_id'>>;
+
+export type ReconciliationIssue =
+  | { kind: 'not_debited'; expense: Expense }
+  | { kind: 'missing_debit'; expense: Expense }
+  | { kind: 'amount_mismatch'; expense: Expense; debited: number };
+
+/** Totals are in the base currency of the `Convert` passed to `reconcile`; issues compare amounts as recorded. */
+export interface Reconciliation {
+  expenseTotal: number;
+  debitedTotal: number;
+  /** Spending that the balance doesn't reflect; positive means the balance is too high. */
+  drift: number;
+  issues: ReconciliationIssue[];
+}
+
+/** Inputs that couldn't be added are reported by their position in the list passed to `addMany`. */
+export interface BulkAddResult {
+  added: Expense[];
+  failed: { index: number; message: string }[];
+}
+
+/** Fields that can change after an expense is recorded; its recurrence and debit link are managed separately. */
+export type ExpenseChanges = Partial<
+  Pick<Expense, 'name' | 'amount' | 'currency' | 'type' | 'date' | 'category_id' | 'tags' | 'account_id'>
+>;
+
+/** What totals, budgets and the category breakdown read of an expense. */
+export type ExpenseSummary = Pick<
+  Expense,
+  'id' | 'name' | 'amount' | 'currency' | 'type' | 'date' | 'category_id' | 'tags'
+>;
+
+const SUMMARY_COLUMNS: (keyof ExpenseSummary)[] = [
+  'id',
+  'name',
+  'amount',
+  'currency',
+  'type',
+  'date',
+  'category_id',
+  'tags',
+];
+
+export interface ExpensePage {
+  type?: Expense['type'];
+  limit?: number;
+  offset?: number;
+}
+
+export function createExpensesRepository(
+  backend: DataBackend,
+  balance: BalanceRepository,
+  accounts: AccountsRepository
+) {
+  // Expenses without an account (older rows, recurring templates) are paid from the first account in
+  // their currency, or the default one.
+  const accountFor = async (expense: Pick<Expense, 'account_id' | 'currency'>): Promise<string> => {
+    if (expense.account_id) return expense.account_id;
+    const accountList = await accounts.ensureDefault();
+    return (accountList.find((account) => account.currency === expense.currency) ?? accountList[0]).id;
+  };
+
+  // Ledgers are kept in their account's currency, so only expenses in that currency can be debited.
+  const debitableAccount = async (expense: Pick<Expense, 'currency' | 'account_id'>): Promise<string> => {
+    const accountId = await accountFor(expense);
+    const account = (await accounts.list()).find((candidate) => candidate.id === accountId);
+    if (account && account.currency !== expense.currency) {
+      throw new Error(
+        `${account.name} is kept in ${account.currency}, so it can't be debited for a ${expense.currency} expense`
+      );
+    }
+    return accountId;
+  };
+
+  const debitFor = async (expense: Pick<Expense, 'name' | 'amount' | 'currency' | 'account_id'>) =>
+    balance.debit(await debitableAccount(expense), expense.amount, `Expense: ${expense.name}`, 'expense');
+
+  const list = (): Promise<Expense[]> => backend.select('expenses', { order: [desc('date'), desc('created_at')] });
+
+  const find = async (id: string): Promise<Expense | undefined> => {
+    const [expense] = await backend.select('expenses', { filters: [eq('id', id)], limit: 1 });
+    return expense;
+  };
+
+  // Points the expense at a fresh debit for its full amount, replacing any stale one. The new debit
+  // goes first so a rejected one leaves the old debit in place.
+  const linkToBalance = async (expense: Expense): Promise<void> => {
+    const debit = await debitFor(expense);
+    if (expense.balance_transaction_id) {
+      await balance.undo(expense.balance_transaction_id);
+    }
+    await backend.update('expenses', { balance_transaction_id: debit.id }, [eq('id', expense.id)]);
+  };
+
+  // The expense is recorded, then its debit, then the link between them; offline, the link is queued behind
+  // both inserts and sent with their server ids. The account is checked up front so a currency mismatch
+  // doesn't leave the expense recorded but undebited.
+  const add = async (input: ExpenseInput, options: { debitBalance: boolean }): Promise<Expense> => {
+    const accountId = await accountFor({ account_id: input.account_id ?? null, currency: input.currency });
+    if (options.debitBalance) await debitableAccount({ account_id: accountId, currency: input.currency });
+    const [created] = await backend.insert('expenses', [
+      { ...input, account_id: accountId, balance_transaction_id: null },
+    ]);
+    if (!options.debitBalance) return created;
+
+    const debit = await balance.debit(accountId, input.amount, `Expense: ${input.name}`, 'expense');
+    const [linked] = await backend.update('expenses', { balance_transaction_id: debit.id }, [eq('id', created.id)]);
+    return linked ?? { ...created, balance_transaction_id: debit.id };
+  };
+
+  return {
+    list,
+
+    // `start` and `end` are inclusive YYYY-MM-DD dates; without `limit` the whole window is returned.
+    listBetween(start: string, end: string, page: ExpensePage = {}): Promise<Expense[]> {
+      const filters: Filter<Expense>[] = [gte('date', start), lte('date', end)];
+      if (page.type) filters.push(eq('type', page.type));
+      return backend.select('expenses', {
+        filters,
+        order: [desc('date'), desc('created_at')],
+        limit: page.limit,
+        offset: page.offset,
+      });
+    },
+
+    // Every expense in the window, but only the columns totals need, so a long period stays cheap to read.
+    summarizeBetween(start: string, end: string): Promise<ExpenseSummary[]> {
+      return backend.select('expenses', {
+        filters: [gte('date', start), lte('date', end)],
+        columns: SUMMARY_COLUMNS,
+      });
+    },
+
+    add,
+
+    // One at a time, so a rejected row (or its debit) doesn't stop the others.
+    async addMany(inputs: ExpenseInput[], options: { debitBalance: boolean }): Promise<BulkAddResult> {
+      const result: BulkAddResult = { added: [], failed: [] };
+      for (const [index, input] of inputs.entries()) {
+        try {
+          result.added.push(await add(input, options));
+        } catch (error: any) {
+          result.failed.push({ index, message: error?.message || 'Failed to add expense' });
+        }
+      }
+      return result;
+    },
+
+    // Editing in place keeps `created_at`; a debited expense gets a debit matching its new amount, name and account.
+    async update(id: string, changes: ExpenseChanges): Promise<void> {
+      const before = await find(id);
+      // Checked before anything is written, so a debit the new account or currency can't take leaves the
+      // expense as it was rather than out of step with its debit
+      if (before?.balance_transaction_id) await debitableAccount({ ...before, ...changes });
+      const [updated] = await backend.update('expenses', changes, [eq('id', id)]);
+      if (!before || !updated?.balance_transaction_id) return;
+      if (
+        compareMoney(updated.amount, before.amount) !== 0 ||
+        updated.name !== before.name ||
+        updated.currency !== before.currency ||
+        updated.account_id !== before.account_id
+      ) {
+        await linkToBalance(updated);
+      }
+    },
+
+    // Deleting a debited expense credits the amount back rather than erasing the debit.
+    async remove(id: string): Promise<void> {
+      const expense = await find(id);
+      await backend.remove('expenses', [eq('id', id)]);
+      if (expense?.balance_transaction_id) {
+        await balance.credit(
+          await accountFor(expense),
+          expense.amount,
+          `Reversed expense: ${expense.name}`,
+          'reversal'
+        );
+      }
+    },
+
+    linkToBalance,
+
+    // Only expenses dated on or after `since` (YYYY-MM-DD) are checked when it's given.
+    async reconcile(convert: Convert = (amount) => amount, since?: string): Promise<Reconciliation> {
+      const [expenses, transactions] = await Promise.all([
+        since ? backend.select('expenses', { filters: [gte('date', since)] }) : list(),
+        balance.listTransactions(),
+      ]);
+      const transactionsById = new Map<string, BalanceTransaction>(transactions.map((t) => [t.id, t]));
+
+      // Running totals in minor units
+      let expenseTotal = 0;
+      let debitedTotal = 0;
+      const issues: ReconciliationIssue[] = [];
+
+      expenses.forEach((expense) => {
+        const amount = Number(expense.amount);
+        expenseTotal += toMinor(convert(amount, expense.currency, expense.date));
+
+        if (!expense.balance_transaction_id) {
+          issues.push({ kind: 'not_debited', expense });
+          return;
+        }
+        const debit = transactionsById.get(expense.balance_transaction_id);
+        if (!debit) {
+          issues.push({ kind: 'missing_debit', expense });
+          return;
+        }
+        const debited = -signedAmount(debit);
+        debitedTotal += toMinor(convert(debited, expense.currency, expense.date));
+        if (compareMoney(debited, amount) !== 0) {
+          issues.push({ kind: 'amount_mismatch', expense, debited });
+        }
+      });
+
+      return {
+        expenseTotal: fromMinor(expenseTotal),
+        debitedTotal: fromMinor(debitedTotal),
+        drift: fromMinor(expenseTotal - debitedTotal),
+        issues,
+      };
+    },
+  };
+}
+
+export type ExpensesRepository = ReturnType<typeof createExpensesRepository>;
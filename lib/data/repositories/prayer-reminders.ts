@@ -0,0 +1,29 @@
+import { asc, eq, type DataBackend } from '../backend';
+import type { PrayerReminder } from '../types';
+
+export function createPrayerRemindersRepository(backend: DataBackend) {
+  return {
+    list(): Promise<PrayerReminder[]> {
+      return backend.select('prayer_reminders', { order: [asc('time')] });
+    },
+
+    async getGlobalRingtone(): Promise<string | null> {
+      const [row] = await backend.select('prayer_reminders', { limit: 1 });
+      return row?.ringtone_uri ?? null;
+    },
+
+    async updateTime(id: string, time: string): Promise<void> {
+      await backend.update('prayer_reminders', { time }, [eq('id', id)]);
+    },
+
+    async setEnabled(id: string, enabled: boolean): Promise<void> {
+      await backend.update('prayer_reminders', { enabled }, [eq('id', id)]);
+    },
+
+    async setRingtoneForAll(ringtoneUri: string): Promise<void> {
+      await backend.update('prayer_reminders', { ringtone_uri: ringtoneUri }, []);
+    },
+  };
+}
+
+export type PrayerRemindersRepository = ReturnType<typeof createPrayerRemindersRepository>;
@@ -0,0 +1,112 @@
+import { asc, eq, type DataBackend } from '../backend';
+import { toLocalDateString } from '../../local-date';
+import { dueCycleDates } from '../recurrence';
+import type { RecurringExpense } from '../types';
+import type { ExpensesRepository } from './expenses';
+
+export type RecurringExpenseInput = Pick<
+  RecurringExpense,
+  'name' | 'amount' | 'currency' | 'category_id' | 'tags' | 'day_of_month' | 'start_date' | 'end_date' | 'debit_balance'
+>;
+
+export function createRecurringExpensesRepository(backend: DataBackend, expenses: ExpensesRepository) {
+  const update = async (id: string, changes: Partial<RecurringExpense>) => {
+    await backend.update('recurring_expenses', changes, [eq('id', id)]);
+  };
+
+  // Overlapping runs (cold start + foreground) would both see a cycle as missing
+  let materializing: Promise<number> | null = null;
+
+  const materialize = async (today: Date): Promise<number> => {
+    const todayString = toLocalDateString(today);
+    const templates = await backend.select('recurring_expenses', { filters: [eq('paused', false)] });
+    let created = 0;
+
+    for (const template of templates) {
+      const dates = dueCycleDates(template, todayString);
+      if (dates.length === 0) continue;
+
+      // One broken template (say, an account that can't be debited) mustn't hold up the others
+      try {
+        const existing = await backend.select('expenses', { filters: [eq('recurring_expense_id', template.id)] });
+        const existingDates = new Set(existing.map((expense) => expense.date));
+
+        for (const date of dates) {
+          if (existingDates.has(date)) continue;
+          await expenses.add(
+            {
+              name: template.name,
+              amount: template.amount,
+              currency: template.currency,
+              type: 'monthly',
+              date,
+              category_id: template.category_id,
+              tags: template.tags,
+              recurring_expense_id: template.id,
+            },
+            { debitBalance: template.debit_balance }
+          );
+          created++;
+        }
+        await update(template.id, { generated_through: dates[dates.length - 1] });
+      } catch (error) {
+        console.error(`Error generating recurring expense "${template.name}":`, error);
+      }
+    }
+    return created;
+  };
+
+  return {
+    list(): Promise<RecurringExpense[]> {
+      return backend.select('recurring_expenses', { order: [asc('day_of_month'), asc('name')] });
+    },
+
+    async add(input: RecurringExpenseInput): Promise<RecurringExpense> {
+      const [created] = await backend.insert('recurring_expenses', [{ ...input, paused: false, generated_through: null }]);
+      return created;
+    },
+
+    // Edits only shape future cycles; expenses already generated keep their values.
+    update(id: string, changes: Partial<RecurringExpenseInput>): Promise<void> {
+      return update(id, changes);
+    },
+
+    pause(id: string): Promise<void> {
+      return update(id, { paused: true });
+    },
+
+    // Cycles that fell inside the pause are skipped, not back-filled.
+    resume(id: string, today = new Date()): Promise<void> {
+      return update(id, { paused: false, generated_through: toLocalDateString(today) });
+    },
+
+    // A recurrence that hasn't started yet ends on its start date (end_date can't precede it), with
+    // that first cycle marked as skipped so none is ever generated.
+    async end(id: string, today = new Date()): Promise<void> {
+      const todayString = toLocalDateString(today);
+      const [template] = await backend.select('recurring_expenses', { filters: [eq('id', id)], limit: 1 });
+      if (template && template.start_date > todayString) {
+        return update(id, { end_date: template.start_date, generated_through: template.start_date });
+      }
+      return update(id, { end_date: todayString });
+    },
+
+    async remove(id: string): Promise<void> {
+      await backend.remove('recurring_expenses', [eq('id', id)]);
+    },
+
+    /**
+     * Turns every missed cycle of every active template into a real expense. Existing rows for a
+     * cycle are detected by (recurring_expense_id, date), so running this twice never duplicates.
+     * Resolves to the number of expenses created.
+     */
+    materializeDue(today = new Date()): Promise<number> {
+      materializing ??= materialize(today).finally(() => {
+        materializing = null;
+      });
+      return materializing;
+    },
+  };
+}
+
+export type RecurringExpensesRepository = ReturnType<typeof createRecurringExpensesRepository>;
@@ -0,0 +1,55 @@
+import { asc, eq, type DataBackend } from '../backend';
+import { scaleMoney } from '../../money';
+import type { SavingsAllocation, SavingsGoal } from '../types';
+
+export type SavingsGoalInput = Pick<SavingsGoal, 'name' | 'target_amount' | 'deadline'>;
+
+export function createSavingsGoalsRepository(backend: DataBackend) {
+  return {
+    list(): Promise<SavingsGoal[]> {
+      return backend.select('savings_goals', { order: [asc('deadline'), asc('name')] });
+    },
+
+    async add(input: SavingsGoalInput): Promise<SavingsGoal> {
+      const [created] = await backend.insert('savings_goals', [input]);
+      return created;
+    },
+
+    async update(id: string, changes: Partial<SavingsGoalInput>): Promise<void> {
+      await backend.update('savings_goals', changes, [eq('id', id)]);
+    },
+
+    // Targets are kept in the base currency, so changing it converts them; `rate` is the new one per old one.
+    async rebase(rate: number): Promise<void> {
+      const goals = await backend.select('savings_goals');
+      for (const goal of goals) {
+        await backend.update(
+          'savings_goals',
+          { target_amount: scaleMoney(Number(goal.target_amount), rate) },
+          [eq('id', goal.id)]
+        );
+      }
+    },
+
+    // The allocated money stays in the monthly savings entries; it just stops counting towards a goal.
+    async remove(id: string): Promise<void> {
+      await backend.remove('savings_allocations', [eq('goal_id', id)]);
+      await backend.remove('savings_goals', [eq('id', id)]);
+    },
+
+    listAllocations(): Promise<SavingsAllocation[]> {
+      return backend.select('savings_allocations', { order: [asc('created_at')] });
+    },
+
+    // Replaces how one month's savings are split; goals with no amount are left out.
+    async allocate(savingsId: string, amounts: Pick<SavingsAllocation, 'goal_id' | 'amount'>[]): Promise<void> {
+      await backend.remove('savings_allocations', [eq('savings_id', savingsId)]);
+      const rows = amounts.filter(({ amount }) => amount > 0).map((row) => ({ ...row, savings_id: savingsId }));
+      if (rows.length > 0) {
+        await backend.insert('savings_allocations', rows);
+      }
+    },
+  };
+}
+
+export type SavingsGoalsRepository = ReturnType<typeof createSavingsGoalsRepository>;
@@ -0,0 +1,30 @@
+import { desc, eq, type DataBackend } from '../backend';
+import type { SavingsEntry } from '../types';
+
+export type SavingsInput = Pick<SavingsEntry, 'month' | 'year' | 'amount' | 'currency' | 'description'>;
+
+export function createSavingsRepository(backend: DataBackend) {
+  return {
+    list(): Promise<SavingsEntry[]> {
+      // Newest first: `month` is numeric, so this is calendar order
+      return backend.select('savings', { order: [desc('year'), desc('month')] });
+    },
+
+    // One entry per month: saving again for the same month replaces the amount.
+    async upsertForMonth(input: SavingsInput): Promise<void> {
+      await backend.upsert('savings', [input], ['month', 'year']);
+    },
+
+    async update(id: string, changes: Partial<Pick<SavingsEntry, 'amount' | 'currency' | 'description'>>): Promise<void> {
+      await backend.update('savings', changes, [eq('id', id)]);
+    },
+
+    // Allocations of the removed month no longer count towards any goal.
+    async remove(id: string): Promise<void> {
+      await backend.remove('savings_allocations', [eq('savings_id', id)]);
+      await backend.remove('savings', [eq('id', id)]);
+    },
+  };
+}
+
+export type SavingsRepository = ReturnType<typeof createSavingsRepository>;
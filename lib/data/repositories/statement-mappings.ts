@@ -0,0 +1,23 @@
+import { asc, eq, type DataBackend } from '../backend';
+import type { StatementMapping } from '../types';
+
+export type StatementMappingInput = Omit<StatementMapping, 'id' | 'user_id' | 'created_at'>;
+
+export function createStatementMappingsRepository(backend: DataBackend) {
+  return {
+    list(): Promise<StatementMapping[]> {
+      return backend.select('statement_mappings', { order: [asc('bank_name')] });
+    },
+
+    // One mapping per bank: saving it again replaces the columns.
+    async save(input: StatementMappingInput): Promise<void> {
+      await backend.upsert('statement_mappings', [input], ['bank_name']);
+    },
+
+    async remove(id: string): Promise<void> {
+      await backend.remove('statement_mappings', [eq('id', id)]);
+    },
+  };
+}
+
+export type StatementMappingsRepository = ReturnType<typeof createStatementMappingsRepository>;
@@ -0,0 +1,35 @@
+import { desc, eq, type DataBackend } from '../backend';
+import type { WorkEntry } from '../types';
+
+export type WorkEntryInput = Pick<WorkEntry, 'project_name' | 'task' | 'screenshots' | 'date' | 'month' | 'year'>;
+
+export function createWorkTrackerRepository(backend: DataBackend) {
+  return {
+    list(): Promise<WorkEntry[]> {
+      return backend.select('work_tracker', { order: [desc('date'), desc('created_at')] });
+    },
+
+    // `month` is 1-based, matching the work_tracker.month column.
+    listForMonth(year: number, month: number): Promise<WorkEntry[]> {
+      return backend.select('work_tracker', {
+        filters: [eq('year', year), eq('month', month)],
+        order: [desc('date'), desc('created_at')],
+      });
+    },
+
+    async add(input: WorkEntryInput): Promise<WorkEntry> {
+      const [created] = await backend.insert('work_tracker', [input]);
+      return created;
+    },
+
+    async update(id: string, changes: Partial<Pick<WorkEntry, 'project_name' | 'task' | 'screenshots'>>): Promise<void> {
+      await backend.update('work_tracker', changes, [eq('id', id)]);
+    },
+
+    async remove(id: string): Promise<void> {
+      await backend.remove('work_tracker', [eq('id', id)]);
+    },
+  };
+}
+
+export type WorkTrackerRepository = ReturnType<typeof createWorkTrackerRepository>;
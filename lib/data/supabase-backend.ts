@@ -0,0 +1,55 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type { DataBackend, Filter } from './backend';
+
+const applyFilters = <Q extends Record<string, any>>(query: Q, filters: Filter<any>[] = []): Q =>
+  filters.reduce((q, { column, op, value }) => q[op](column, value), query);
+
+export function createSupabaseBackend(client: SupabaseClient): DataBackend {
+  return {
+    async select(table, options = {}) {
+      const columns = options.columns?.join(',') ?? '*';
+      let query = applyFilters(client.from(table).select<string, any>(columns), options.filters);
+      for (const { column, ascending } of options.order ?? []) {
+        query = query.order(column, { ascending });
+      }
+      if (options.offset !== undefined) {
+        // PostgREST ranges are inclusive; without a limit, read to the end
+        const end = options.limit !== undefined ? options.offset + options.limit - 1 : Number.MAX_SAFE_INTEGER;
+        query = query.range(options.offset, end);
+      } else if (options.limit !== undefined) {
+        query = query.limit(options.limit);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    async insert(table, values) {
+      const { data, error } = await client.from(table).insert(values).select();
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    async update(table, values, filters) {
+      const { data, error } = await applyFilters(client.from(table).update(values), filters).select();
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    async upsert(table, values, onConflict) {
+      const { data, error } = await client
+        .from(table)
+        .upsert(values, { onConflict: onConflict.join(',') })
+        .select();
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    async remove(table, filters) {
+      const { error } = await applyFilters(client.from(table).delete(), filters);
+      if (error) throw error;
+    },
+  };
+}
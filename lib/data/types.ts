@@ -0,0 +1,201 @@
+// Row shapes for every Supabase table the app reads or writes.
+// Every row belongs to one auth user through `user_id` (see supabase/migrations).
+
+export type BalanceTransactionKind = 'credit' | 'debit';
+
+/** What a balance transaction came from; only `manual` credits count as income. */
+export type BalanceTransactionSource = 'manual' | 'opening' | 'adjustment' | 'expense' | 'reversal' | 'transfer';
+
+/** A place money is kept, such as cash, a bank account or a UPI wallet; each has its own ledger. */
+export interface Account {
+  id: string;
+  user_id: string;
+  name: string;
+  /** SF Symbol name; must be one of the icons mapped in `IconSymbol`. */
+  icon: string;
+  color: string;
+  /** ISO 4217 code the account is kept in; its ledger entries are all in this currency. Fixed once created. */
+  currency: string;
+  created_at: string;
+}
+
+/** One ledger entry; an account's balance is the sum of its credits minus debits. `amount` is always positive. */
+export interface BalanceTransaction {
+  id: string;
+  user_id: string;
+  account_id: string;
+  kind: BalanceTransactionKind;
+  amount: number;
+  note: string | null;
+  source: BalanceTransactionSource;
+  /** Shared by both legs of a transfer between accounts; null otherwise. */
+  transfer_id: string | null;
+  created_at: string;
+}
+
+export interface SavingsEntry {
+  id: string;
+  user_id: string;
+  /** 1-12, like work_tracker.month. */
+  month: number;
+  year: number;
+  amount: number;
+  /** ISO 4217 code of `amount`; allocations from this entry are in the same currency. */
+  currency: string;
+  description: string | null;
+  created_at: string;
+}
+
+/** A named target that monthly savings are allocated towards. */
+export interface SavingsGoal {
+  id: string;
+  user_id: string;
+  name: string;
+  /** In the base currency. */
+  target_amount: number;
+  /** YYYY-MM-DD the target should be reached by. */
+  deadline: string;
+  created_at: string;
+}
+
+/** The part of one month's savings entry put towards a goal. */
+export interface SavingsAllocation {
+  id: string;
+  user_id: string;
+  savings_id: string;
+  goal_id: string;
+  amount: number;
+  created_at: string;
+}
+
+export type ExpenseType = 'daily' | 'monthly';
+
+export interface Expense {
+  id: string;
+  user_id: string;
+  name: string;
+  amount: number;
+  /** ISO 4217 code of `amount`; a debited expense is always in its account's currency. */
+  currency: string;
+  type: ExpenseType;
+  date: string;
+  category_id: string | null;
+  tags: string[];
+  /** Set when the row was generated from a recurring expense template. */
+  recurring_expense_id: string | null;
+  /** The account the expense was paid from; null for expenses recorded before accounts existed. */
+  account_id: string | null;
+  /** The balance debit recorded for this expense, or null if it didn't touch the balance. */
+  balance_transaction_id: string | null;
+  created_at: string;
+}
+
+export interface ExpenseCategory {
+  id: string;
+  user_id: string;
+  name: string;
+  /** SF Symbol name; must be one of the icons mapped in `IconSymbol`. */
+  icon: string;
+  color: string;
+  created_at: string;
+}
+
+/** Template that generates one `monthly` expense on `day_of_month` of every month between the start and end dates. */
+export interface RecurringExpense {
+  id: string;
+  user_id: string;
+  name: string;
+  amount: number;
+  currency: string;
+  category_id: string | null;
+  tags: string[];
+  /** 1-31; months shorter than this use their last day. */
+  day_of_month: number;
+  start_date: string;
+  end_date: string | null;
+  paused: boolean;
+  debit_balance: boolean;
+  /** Cycles up to and including this date have been materialized (or deliberately skipped). */
+  generated_through: string | null;
+  created_at: string;
+}
+
+/** Monthly spending limit; `category_id` null is the overall budget across all categories. */
+export interface Budget {
+  id: string;
+  user_id: string;
+  category_id: string | null;
+  /** In the base currency. */
+  amount: number;
+  created_at: string;
+}
+
+/** What one unit of `from_currency` was worth in `to_currency` from `effective_date` on, as entered by the user. */
+export interface ExchangeRate {
+  id: string;
+  user_id: string;
+  from_currency: string;
+  to_currency: string;
+  rate: number;
+  /** YYYY-MM-DD; the rate applies until a later one for the same pair takes over. */
+  effective_date: string;
+  created_at: string;
+}
+
+export type StatementDateOrder = 'dmy' | 'mdy' | 'ymd';
+
+/** How to read one bank's CSV statement. Columns are named by their header text. */
+export interface StatementMapping {
+  id: string;
+  user_id: string;
+  bank_name: string;
+  date_column: string;
+  /** Order of day, month and year in the date column. */
+  date_order: StatementDateOrder;
+  description_column: string;
+  /** A signed amount column; `expenses_negative` says which sign is money going out. */
+  amount_column: string | null;
+  /** A column holding only withdrawals, for statements that split them from deposits; wins over `amount_column`. */
+  debit_column: string | null;
+  expenses_negative: boolean;
+  created_at: string;
+}
+
+export interface WorkEntry {
+  id: string;
+  user_id: string;
+  project_name: string;
+  task: string;
+  screenshots: string[];
+  date: string;
+  month: number;
+  year: number;
+  created_at: string;
+}
+
+export interface PrayerReminder {
+  id: string;
+  user_id: string;
+  prayer_name: string;
+  time: string;
+  enabled: boolean;
+  ringtone_uri: string | null;
+}
+
+export interface Tables {
+  accounts: Account;
+  balance_transactions: BalanceTransaction;
+  savings: SavingsEntry;
+  savings_goals: SavingsGoal;
+  savings_allocations: SavingsAllocation;
+  expenses: Expense;
+  expense_categories: ExpenseCategory;
+  budgets: Budget;
+  exchange_rates: ExchangeRate;
+  statement_mappings: StatementMapping;
+  recurring_expenses: RecurringExpense;
+  work_tracker: WorkEntry;
+  prayer_reminders: PrayerReminder;
+}
+
+export type TableName = keyof Tables;
@@ -0,0 +1,57 @@
+import { eq, type DataBackend, type Filter } from './backend';
+import type { SyncController } from './offline-backend';
+
+const OWNER_COLUMN = 'user_id';
+
+const ownedBy = (userId: string): Filter<any> => eq<any>(OWNER_COLUMN, userId);
+
+/**
+ * Wraps a backend so every query only sees the given user's rows: reads, updates and deletes
+ * are filtered on `user_id`, and inserted/upserted rows are stamped with it.
+ * Row-level security enforces the same rule server-side; this keeps the local cache honest too.
+ */
+export function scopeToUser(backend: DataBackend, userId: string): DataBackend {
+  const stamp = <T>(values: Partial<T>[]) => values.map((value) => ({ ...value, [OWNER_COLUMN]: userId }));
+
+  return {
+    select(table, options = {}) {
+      return backend.select(table, { ...options, filters: [...(options.filters ?? []), ownedBy(userId)] });
+    },
+
+    insert(table, values) {
+      return backend.insert(table, stamp(values));
+    },
+
+    update(table, values, filters) {
+      // Ownership can't be reassigned through an update
+      const { user_id: _ignored, ...changes } = values;
+      return backend.update(table, changes as typeof values, [...filters, ownedBy(userId)]);
+    },
+
+    upsert(table, values, onConflict) {
+      // Uniqueness is per user, e.g. one savings entry per (user_id, month, year)
+      return backend.upsert(table, stamp(values), [OWNER_COLUMN, ...onConflict] as typeof onConflict);
+    },
+
+    remove(table, filters) {
+      return backend.remove(table, [...filters, ownedBy(userId)]);
+    },
+  };
+}
+
+/** Backend used while nobody is signed in; every call fails instead of touching shared data. */
+export const signedOutBackend: DataBackend = {
+  select: () => Promise.reject(new Error('Sign in to access your data')),
+  insert: () => Promise.reject(new Error('Sign in to access your data')),
+  update: () => Promise.reject(new Error('Sign in to access your data')),
+  upsert: () => Promise.reject(new Error('Sign in to access your data')),
+  remove: () => Promise.reject(new Error('Sign in to access your data')),
+};
+
+/** Sync controls while nobody is signed in: there is no outbox to replay. */
+export const signedOutSync: SyncController = {
+  getStatus: () => ({ online: true, syncing: false, pending: 0, pendingByTable: {}, failed: [], lastSyncedAt: null }),
+  subscribe: () => () => {},
+  flush: () => Promise.resolve(),
+  discardFailed: () => Promise.resolve(),
+};
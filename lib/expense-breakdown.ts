@@ -0,0 +1,126 @@
+import type { Expense, ExpenseCategory, ExpenseSummary } from '@/lib/data';
+import { expenseInBase, type Convert } from '@/lib/currency';
+import { addDays, daysInMonth, toLocalDate, toLocalDateString } from '@/lib/local-date';
+import { sumMoney } from '@/lib/money';
+
+export type ExpensePeriod = 'day' | 'week' | 'month' | 'year' | 'custom';
+
+export const EXPENSE_PERIODS: { key: ExpensePeriod; label: string }[] = [
+  { key: 'day', label: 'Day' },
+  { key: 'week', label: 'Week' },
+  { key: 'month', label: 'Month' },
+  { key: 'year', label: 'Year' },
+  { key: 'custom', label: 'Custom' },
+];
+
+/** Inclusive YYYY-MM-DD bounds. */
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+/** What the Expenses tab is showing: a period around `anchor`, or `custom` bounds. */
+export interface PeriodSelection {
+  period: ExpensePeriod;
+  anchor: Date;
+  custom: DateRange;
+}
+
+export const UNCATEGORIZED_KEY = 'uncategorized';
+
+export interface CategoryTotal {
+  /** Category id, or `UNCATEGORIZED_KEY` for expenses without a (known) category. */
+  key: string;
+  category: ExpenseCategory | null;
+  /** In the base currency. */
+  total: number;
+  expenses: ExpenseSummary[];
+}
+
+/** The day, week (Monday to Sunday), month or year containing `anchor`. */
+export function periodRange(period: Exclude<ExpensePeriod, 'custom'>, anchor = new Date()): DateRange {
+  const year = anchor.getFullYear();
+  const month = anchor.getMonth();
+  switch (period) {
+    case 'day':
+      return { start: toLocalDateString(anchor), end: toLocalDateString(anchor) };
+    case 'week': {
+      const monday = addDays(anchor, -((anchor.getDay() + 6) % 7));
+      return { start: toLocalDateString(monday), end: toLocalDateString(addDays(monday, 6)) };
+    }
+    case 'month':
+      return { start: toLocalDateString(new Date(year, month, 1)), end: toLocalDateString(new Date(year, month + 1, 0)) };
+    case 'year':
+      return { start: `${year}-01-01`, end: `${year}-12-31` };
+  }
+}
+
+/** Moves `anchor` by `step` whole periods, clamping the day so Jan 31 + 1 month lands on Feb 28/29. */
+export function shiftPeriod(period: Exclude<ExpensePeriod, 'custom'>, anchor: Date, step: number): Date {
+  const year = anchor.getFullYear();
+  const month = anchor.getMonth();
+  const day = anchor.getDate();
+  switch (period) {
+    case 'day':
+      return addDays(anchor, step);
+    case 'week':
+      return addDays(anchor, step * 7);
+    case 'month':
+      return new Date(year, month + step, Math.min(day, daysInMonth(year, month + step)));
+    case 'year':
+      return new Date(year + step, month, Math.min(day, daysInMonth(year + step, month)));
+  }
+}
+
+/** Human label for a range, e.g. "Mar 4, 2026", "Mar 2 – Mar 8, 2026", "March 2026" or "2026". */
+export function formatPeriod(period: ExpensePeriod, range: DateRange): string {
+  const start = toLocalDate(range.start);
+  const end = toLocalDate(range.end);
+  const short = (date: Date, withYear: boolean) =>
+    date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', ...(withYear && { year: 'numeric' }) });
+  switch (period) {
+    case 'day':
+      return short(start, true);
+    case 'month':
+      return start.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+    case 'year':
+      return String(start.getFullYear());
+    default:
+      if (range.start === range.end) return short(start, true);
+      return `${short(start, start.getFullYear() !== end.getFullYear())} – ${short(end, true)}`;
+  }
+}
+
+export function selectionRange({ period, anchor, custom }: PeriodSelection): DateRange {
+  return period === 'custom' ? custom : periodRange(period, anchor);
+}
+
+export function expensesInRange<E extends Pick<Expense, 'date'>>(expenses: E[], range: DateRange): E[] {
+  return expenses.filter((expense) => expense.date >= range.start && expense.date <= range.end);
+}
+
+/** Totals per category in the base currency, largest first. */
+export function breakdownByCategory(
+  expenses: ExpenseSummary[],
+  categories: ExpenseCategory[],
+  convert: Convert
+): CategoryTotal[] {
+  const categoriesById = new Map(categories.map((category) => [category.id, category]));
+  const totals = new Map<string, CategoryTotal>();
+
+  expenses.forEach((expense) => {
+    const category = (expense.category_id && categoriesById.get(expense.category_id)) || null;
+    const key = category?.id ?? UNCATEGORIZED_KEY;
+    const entry = totals.get(key) ?? { key, category, total: 0, expenses: [] };
+    entry.total = sumMoney([entry.total, expenseInBase(expense, convert)]);
+    entry.expenses.push(expense);
+    totals.set(key, entry);
+  });
+
+  return [...totals.values()].sort((a, b) => b.total - a.total);
+}
+
+/** Splits a comma-separated tag field into trimmed, de-duplicated, lowercase tags. */
+export function parseTags(input: string): string[] {
+  return [...new Set(input.split(',').map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+}
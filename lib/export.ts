@@ -0,0 +1,180 @@
+import type {
+  Account,
+  Expense,
+  ExpenseCategory,
+  LedgerEntry,
+  PrayerReminder,
+  Repositories,
+  SavingsEntry,
+  WorkEntry,
+} from '@/lib/data';
+import { toLocalDateString } from '@/lib/local-date';
+import { roundMoney } from '@/lib/money';
+
+/** Bumped whenever the bundle's shape changes, so readers can tell which layout they were given. */
+export const EXPORT_VERSION = 1;
+
+/** Everything the user has recorded, as stored. Amounts are in each row's own currency. */
+export interface ExportBundle {
+  app: 'mraker';
+  version: number;
+  /** ISO timestamp. */
+  exported_at: string;
+  base_currency: string;
+  /** Included so the account and category ids in other rows can be resolved. */
+  accounts: Account[];
+  expense_categories: ExpenseCategory[];
+  expenses: Expense[];
+  savings: SavingsEntry[];
+  /** Oldest first, each with its account's balance right after it. */
+  balance_history: LedgerEntry[];
+  /** `screenshots` holds the stored image URIs, not the images themselves. */
+  work_entries: WorkEntry[];
+  prayer_settings: PrayerReminder[];
+}
+
+export type ExportDataset = 'expenses' | 'savings' | 'balance_history' | 'work_entries' | 'prayer_settings';
+
+export const EXPORT_DATASETS: { key: ExportDataset; label: string }[] = [
+  { key: 'expenses', label: 'Expenses' },
+  { key: 'savings', label: 'Savings' },
+  { key: 'balance_history', label: 'Balance history' },
+  { key: 'work_entries', label: 'Work entries' },
+  { key: 'prayer_settings', label: 'Prayer settings' },
+];
+
+export interface ExportFile {
+  name: string;
+  mimeType: string;
+  contents: string;
+}
+
+/** Reads every table the export covers. */
+export async function collectExport(
+  repositories: Repositories,
+  baseCurrency: string,
+  now = new Date()
+): Promise<ExportBundle> {
+  const [accounts, categories, expenses, savings, ledger, workEntries, prayers] = await Promise.all([
+    repositories.accounts.list(),
+    repositories.expenseCategories.list(),
+    repositories.expenses.list(),
+    repositories.savings.list(),
+    repositories.balance.getLedger(),
+    repositories.workTracker.list(),
+    repositories.prayerReminders.list(),
+  ]);
+
+  return {
+    app: 'mraker',
+    version: EXPORT_VERSION,
+    exported_at: now.toISOString(),
+    base_currency: baseCurrency,
+    accounts,
+    expense_categories: categories,
+    expenses,
+    savings: [...savings].sort((a, b) => a.year - b.year || a.month - b.month),
+    balance_history: [...ledger.entries].reverse(),
+    work_entries: workEntries,
+    prayer_settings: prayers,
+  };
+}
+
+type Cell = string | number | boolean | null | undefined;
+
+// Spreadsheets run text starting with these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvCell = (value: Cell): string => {
+  if (value === null || value === undefined) return '';
+  let text = typeof value === 'boolean' ? (value ? 'yes' : 'no') : String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text) && isNaN(Number(text))) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** RFC 4180 CSV with a byte order mark, so spreadsheet apps read non-ASCII names correctly. */
+export function toCsv(headers: string[], rows: Cell[][]): string {
+  return '\uFEFF' + [headers, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+const money = (amount: number) => roundMoney(amount).toFixed(2);
+
+function datasetCsv(bundle: ExportBundle, dataset: ExportDataset): string {
+  const accountsById = new Map(bundle.accounts.map((account) => [account.id, account]));
+  const categoriesById = new Map(bundle.expense_categories.map((category) => [category.id, category]));
+
+  switch (dataset) {
+    case 'expenses':
+      return toCsv(
+        ['date', 'name', 'amount', 'currency', 'type', 'category', 'tags', 'account', 'debited', 'recurring'],
+        bundle.expenses.map((expense) => [
+          expense.date,
+          expense.name,
+          money(expense.amount),
+          expense.currency,
+          expense.type,
+          (expense.category_id && categoriesById.get(expense.category_id)?.name) || '',
+          expense.tags.join('; '),
+          (expense.account_id && accountsById.get(expense.account_id)?.name) || '',
+          expense.balance_transaction_id !== null,
+          expense.recurring_expense_id !== null,
+        ])
+      );
+    case 'savings':
+      return toCsv(
+        ['year', 'month', 'amount', 'currency', 'description'],
+        bundle.savings.map((entry) => [entry.year, entry.month, money(entry.amount), entry.currency, entry.description])
+      );
+    case 'balance_history':
+      return toCsv(
+        ['timestamp', 'date', 'account', 'currency', 'kind', 'amount', 'balance_after', 'note', 'transfer'],
+        bundle.balance_history.map((entry) => {
+          const account = accountsById.get(entry.account_id);
+          return [
+            entry.created_at,
+            toLocalDateString(new Date(entry.created_at)),
+            account?.name ?? '',
+            account?.currency ?? '',
+            entry.kind,
+            money(entry.amount),
+            money(entry.runningTotal),
+            entry.note,
+            entry.transfer_id !== null,
+          ];
+        })
+      );
+    case 'work_entries':
+      return toCsv(
+        ['date', 'project', 'task', 'screenshot_count', 'screenshots'],
+        bundle.work_entries.map((entry) => [
+          entry.date,
+          entry.project_name,
+          entry.task,
+          entry.screenshots?.length ?? 0,
+          (entry.screenshots ?? []).join(' '),
+        ])
+      );
+    case 'prayer_settings':
+      return toCsv(
+        ['prayer', 'time', 'enabled', 'ringtone'],
+        bundle.prayer_settings.map((prayer) => [prayer.prayer_name, prayer.time, prayer.enabled, prayer.ringtone_uri])
+      );
+  }
+}
+
+/** One dataset as CSV, or the whole bundle as JSON, named after the day it was exported. */
+export function exportFile(bundle: ExportBundle, format: ExportDataset | 'json'): ExportFile {
+  const day = toLocalDateString(new Date(bundle.exported_at));
+  if (format === 'json') {
+    return {
+      name: `mraker-export-${day}.json`,
+      mimeType: 'application/json',
+      contents: JSON.stringify(bundle, null, 2),
+    };
+  }
+  return {
+    name: `mraker-${format.replace(/_/g, '-')}-${day}.csv`,
+    mimeType: 'text/csv',
+    contents: datasetCsv(bundle, format),
+  };
+}
@@ -0,0 +1,61 @@
+// Dates like expense.date and work_tracker.date are calendar days with no time zone.
+// Everything here works on the device's local clock: `toISOString()` would use UTC and
+// shift the day east of Greenwich, and `new Date('YYYY-MM-DD')` parses as UTC midnight,
+// which lands on the previous day west of it. Use these helpers instead of either.
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/** YYYY-MM-DD for `date` in the device's time zone. */
+export const toLocalDateString = (date = new Date()) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/** YYYY-MM for `date` in the device's time zone. */
+export const toLocalMonthString = (date = new Date()) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+
+/** Local midnight for a stored YYYY-MM-DD string. Use `parseLocalDate` for user input. */
+export function toLocalDate(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/** The local day `days` away from `date` (negative for earlier days). */
+export const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+/** Months since year 0, so calendar months can be compared and subtracted directly; `monthIndex` is 0-based. */
+export const monthNumber = (year: number, monthIndex: number) => year * 12 + monthIndex;
+
+/** Number of days in a month; `monthIndex` is 0-based and may overflow into other years. */
+export const daysInMonth = (year: number, monthIndex: number) => new Date(year, monthIndex + 1, 0).getDate();
+
+/**
+ * Parses a YYYY-MM-DD string (single-digit month and day allowed) as local midnight.
+ * Returns null for malformed input or days that don't exist, such as 2026-02-30.
+ */
+export function parseLocalDate(value: string): Date | null {
+  const match = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(value.trim());
+  if (!match) return null;
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
+
+/** Normalizes user input to YYYY-MM-DD, or null when it isn't a real date. */
+export function normalizeLocalDate(value: string): string | null {
+  const date = parseLocalDate(value);
+  return date ? toLocalDateString(date) : null;
+}
+
+/** Display form of a stored date, e.g. "Oct 18, 2026". */
+export const formatLocalDate = (
+  value: string,
+  options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric', year: 'numeric' }
+) => toLocalDate(value).toLocaleDateString('en-US', options);
+
+/** The month's name in the device's locale; `monthIndex` is 0-based. */
+export const monthName = (monthIndex: number, style: 'long' | 'short' = 'long') =>
+  new Date(2000, monthIndex, 1).toLocaleDateString(undefined, { month: style });
+
+/** Month and year in the device's locale, e.g. "October 2026"; `monthIndex` is 0-based. */
+export const formatMonthYear = (year: number, monthIndex: number, style: 'long' | 'short' = 'long') =>
+  new Date(year, monthIndex, 1).toLocaleDateString(undefined, { month: style, year: 'numeric' });
@@ -0,0 +1,46 @@
+// Money arithmetic in integer minor units (paise, cents, fils). Every supported currency has two
+// decimal places. Amounts become minor units through `toMinor`, the one place they are rounded, so
+// sums, differences and comparisons are exact however long the list.
+
+const MINOR_PER_MAJOR = 100;
+
+/**
+ * Whole minor units in `amount`, rounding half away from zero: 1.005 is 101 paise, −0.125 is −13.
+ * Strings are accepted because Postgres `numeric` columns can arrive as text.
+ */
+export function toMinor(amount: number | string): number {
+  const value = typeof amount === 'string' ? Number(amount) : amount;
+  const magnitude = Math.abs(value);
+  // Shift the decimal point in the number's own digits: 1.005 * 100 would be 100.49999999999999
+  const text = String(magnitude);
+  const shifted = text.includes('e') ? magnitude * MINOR_PER_MAJOR : Number(`${text}e2`);
+  return Math.sign(value) * Math.round(shifted) || 0;
+}
+
+export const fromMinor = (minor: number): number => minor / MINOR_PER_MAJOR;
+
+/** `amount` rounded to whole minor units. */
+export const roundMoney = (amount: number | string): number => fromMinor(toMinor(amount));
+
+export const sumMoney = (amounts: readonly (number | string)[]): number =>
+  fromMinor(amounts.reduce<number>((total, amount) => total + toMinor(amount), 0));
+
+export const subtractMoney = (amount: number | string, subtrahend: number | string): number =>
+  fromMinor(toMinor(amount) - toMinor(subtrahend));
+
+/** Negative, zero or positive as `a` is less than, equal to or more than `b` once both are rounded. */
+export const compareMoney = (a: number | string, b: number | string): number => toMinor(a) - toMinor(b);
+
+/** `amount` times `factor` (an exchange rate, or 1/n to split it), rounded to whole minor units. */
+export const scaleMoney = (amount: number | string, factor: number): number => roundMoney(Number(amount) * factor);
+
+/**
+ * Reads an amount typed by the user: digits with at most two decimals, thousands separators allowed
+ * ("1,00,000.50"). Null if it isn't one, or if it's zero and `allowZero` isn't set.
+ */
+export function parseMoney(input: string, { allowZero = false }: { allowZero?: boolean } = {}): number | null {
+  const normalized = input.trim().replace(/,/g, '');
+  if (!/^(\d+(\.\d{0,2})?|\.\d{1,2})$/.test(normalized)) return null;
+  const amount = roundMoney(normalized);
+  return amount > 0 || (allowZero && amount === 0) ? amount : null;
+}
@@ -0,0 +1,7 @@
+import type { DocumentPickerAsset } from 'expo-document-picker';
+import { File } from 'expo-file-system';
+import { Platform } from 'react-native';
+
+/** The text of a file chosen with `expo-document-picker`; the web build hands over a browser `File` instead of a path. */
+export const readPickedText = (asset: DocumentPickerAsset): Promise<string> =>
+  Platform.OS === 'web' && asset.file ? asset.file.text() : new File(asset.uri).text();
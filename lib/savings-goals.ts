@@ -0,0 +1,89 @@
+import type { SavingsAllocation, SavingsEntry, SavingsGoal } from '@/lib/data';
+import { savingsInBase, type Convert } from '@/lib/currency';
+import { monthNumber, toLocalDate } from '@/lib/local-date';
+import { scaleMoney, subtractMoney, sumMoney } from '@/lib/money';
+
+/** How many recent months (including this one) the projection averages over. */
+export const PROJECTION_WINDOW_MONTHS = 3;
+
+/** Amounts are in the base currency. */
+export interface GoalProgress {
+  goal: SavingsGoal;
+  saved: number;
+  remaining: number;
+  /** Share of the target saved, capped at 1. */
+  ratio: number;
+  reached: boolean;
+  /** Months from this one through the deadline's month; 0 once that month has passed. */
+  monthsLeft: number;
+  /** What must be saved each remaining month to hit the target on time. */
+  requiredMonthly: number;
+  /** Average allocated per month over the last `PROJECTION_WINDOW_MONTHS` months. */
+  averageMonthly: number;
+  /** First day of the month the target is projected to be reached; null if reached or nothing was saved recently. */
+  projectedCompletion: Date | null;
+  onTrack: boolean;
+}
+
+/** Progress, required rate and projected completion for each goal, from the allocations made so far. */
+export function goalProgress(
+  goals: SavingsGoal[],
+  allocations: SavingsAllocation[],
+  savings: SavingsEntry[],
+  convert: Convert,
+  today = new Date()
+): GoalProgress[] {
+  const savingsById = new Map(savings.map((entry) => [entry.id, entry]));
+  const current = monthNumber(today.getFullYear(), today.getMonth());
+
+  return goals.map((goal) => {
+    const amounts: number[] = [];
+    const recentAmounts: number[] = [];
+    allocations
+      .filter((allocation) => allocation.goal_id === goal.id)
+      .forEach((allocation) => {
+        // Allocations are in their savings entry's currency
+        const entry = savingsById.get(allocation.savings_id);
+        if (!entry) return;
+        const amount = savingsInBase({ ...entry, amount: Number(allocation.amount) }, convert);
+        amounts.push(amount);
+        const age = current - monthNumber(entry.year, entry.month - 1);
+        if (age >= 0 && age < PROJECTION_WINDOW_MONTHS) recentAmounts.push(amount);
+      });
+
+    const target = Number(goal.target_amount);
+    const saved = sumMoney(amounts);
+    const remaining = Math.max(subtractMoney(target, saved), 0);
+    const reached = remaining === 0;
+
+    const deadline = toLocalDate(goal.deadline);
+    const deadlineMonth = monthNumber(deadline.getFullYear(), deadline.getMonth());
+    const monthsLeft = Math.max(deadlineMonth - current + 1, 0);
+    // Past the deadline, everything outstanding is due now
+    const requiredMonthly = scaleMoney(remaining, 1 / Math.max(monthsLeft, 1));
+    const averageMonthly = scaleMoney(sumMoney(recentAmounts), 1 / PROJECTION_WINDOW_MONTHS);
+
+    let projectedCompletion: Date | null = null;
+    if (!reached && averageMonthly > 0) {
+      // Counted from next month: this month's entry, if any, is already part of `saved`
+      const monthsNeeded = Math.ceil(remaining / averageMonthly);
+      projectedCompletion = new Date(today.getFullYear(), today.getMonth() + monthsNeeded, 1);
+    }
+    const projectedMonth = projectedCompletion
+      ? monthNumber(projectedCompletion.getFullYear(), projectedCompletion.getMonth())
+      : null;
+
+    return {
+      goal,
+      saved,
+      remaining,
+      ratio: target > 0 ? Math.min(saved / target, 1) : 0,
+      reached,
+      monthsLeft,
+      requiredMonthly,
+      averageMonthly,
+      projectedCompletion,
+      onTrack: reached || (projectedMonth !== null && projectedMonth <= deadlineMonth),
+    };
+  });
+}
@@ -0,0 +1,63 @@
+import { savingsInBase, type Convert } from '@/lib/currency';
+import type { SavingsEntry } from '@/lib/data';
+import { monthNumber } from '@/lib/local-date';
+import { fromMinor, toMinor } from '@/lib/money';
+
+/** How many months the trend chart covers, ending with the current one. */
+export const TREND_MONTHS = 12;
+
+/** Amounts are in the base currency. */
+export interface TrendPoint {
+  year: number;
+  /** 0-based, like `Date#getMonth`. */
+  monthIndex: number;
+  amount: number;
+  /** Everything saved up to and including this month, so the last point equals the overall total. */
+  cumulative: number;
+}
+
+export interface YearAmount {
+  year: number;
+  amount: number;
+}
+
+/** Savings for each of the `months` months ending with `end`, including months with nothing saved. */
+export function monthlyTrend(
+  savings: SavingsEntry[],
+  convert: Convert,
+  end = new Date(),
+  months = TREND_MONTHS
+): TrendPoint[] {
+  const last = monthNumber(end.getFullYear(), end.getMonth());
+  const first = last - months + 1;
+
+  // Summed in minor units
+  const byMonth = new Map<number, number>();
+  let cumulative = 0;
+  savings.forEach((entry) => {
+    const key = monthNumber(entry.year, entry.month - 1);
+    const amount = toMinor(savingsInBase(entry, convert));
+    if (key < first) cumulative += amount;
+    else if (key <= last) byMonth.set(key, (byMonth.get(key) ?? 0) + amount);
+  });
+
+  return Array.from({ length: months }, (_, offset) => {
+    const key = first + offset;
+    const amount = byMonth.get(key) ?? 0;
+    cumulative += amount;
+    return {
+      year: Math.floor(key / 12),
+      monthIndex: key % 12,
+      amount: fromMinor(amount),
+      cumulative: fromMinor(cumulative),
+    };
+  });
+}
+
+/** The same calendar month across every year that has an entry for it, oldest first. */
+export function yearOverYear(savings: SavingsEntry[], monthIndex: number, convert: Convert): YearAmount[] {
+  return savings
+    .filter((entry) => entry.month === monthIndex + 1)
+    .map((entry) => ({ year: entry.year, amount: savingsInBase(entry, convert) }))
+    .sort((a, b) => a.year - b.year);
+}
@@ -0,0 +1,49 @@
+import * as SecureStore from 'expo-secure-store';
+
+// SecureStore warns above 2048 bytes per value and Supabase sessions are
+// larger than that, so values are split across numbered keys.
+const CHUNK_SIZE = 1800;
+
+const countKey = (key: string) => `${key}.chunks`;
+const chunkKey = (key: string, index: number) => `${key}.${index}`;
+
+// SecureStore keys may only contain alphanumerics, ".", "-" and "_"
+const sanitize = (key: string) => key.replace(/[^A-Za-z0-9._-]/g, '_');
+
+/**
+ * Keychain/Keystore-backed storage with the AsyncStorage-style interface
+ * supabase-js expects for its `auth.storage` option.
+ */
+export const secureStorage = {
+  async getItem(key: string): Promise<string | null> {
+    const safeKey = sanitize(key);
+    const count = await SecureStore.getItemAsync(countKey(safeKey));
+    if (count === null) return null;
+
+    const chunks = await Promise.all(
+      Array.from({ length: Number(count) }, (_, index) => SecureStore.getItemAsync(chunkKey(safeKey, index)))
+    );
+    if (chunks.some((chunk) => chunk === null)) return null;
+    return chunks.join('');
+  },
+
+  async setItem(key: string, value: string): Promise<void> {
+    const safeKey = sanitize(key);
+    await secureStorage.removeItem(key);
+
+    const chunks = value.match(new RegExp(`[\\s\\S]{1,${CHUNK_SIZE}}`, 'g')) ?? [''];
+    await Promise.all(chunks.map((chunk, index) => SecureStore.setItemAsync(chunkKey(safeKey, index), chunk)));
+    await SecureStore.setItemAsync(countKey(safeKey), String(chunks.length));
+  },
+
+  async removeItem(key: string): Promise<void> {
+    const safeKey = sanitize(key);
+    const count = await SecureStore.getItemAsync(countKey(safeKey));
+    if (count === null) return;
+
+    await Promise.all(
+      Array.from({ length: Number(count) }, (_, index) => SecureStore.deleteItemAsync(chunkKey(safeKey, index)))
+    );
+    await SecureStore.deleteItemAsync(countKey(safeKey));
+  },
+};
@@ -0,0 +1,21 @@
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+import type { ExportFile } from '@/lib/export';
+
+// iOS picks share targets by Uniform Type Identifier rather than MIME type
+const UTIS: Record<string, string> = {
+  'application/json': 'public.json',
+  'text/csv': 'public.comma-separated-values-text',
+};
+
+/** Writes `file` to the cache directory and opens the system share sheet for it. */
+export async function shareFile({ name, mimeType, contents }: ExportFile): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  const file = new File(Paths.cache, name);
+  file.create({ overwrite: true });
+  file.write(contents);
+  await Sharing.shareAsync(file.uri, { mimeType, UTI: UTIS[mimeType], dialogTitle: name });
+}
@@ -0,0 +1,14 @@
+import type { ExportFile } from '@/lib/export';
+
+/** The web build has no share sheet; the browser downloads the file instead. */
+export async function shareFile({ name, mimeType, contents }: ExportFile): Promise<void> {
+  const url = URL.createObjectURL(new Blob([contents], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoked on the next tick so the download has started
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
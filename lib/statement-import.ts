@@ -0,0 +1,229 @@
+import type { Expense, StatementDateOrder, StatementMappingInput } from '@/lib/data';
+import { normalizeLocalDate } from '@/lib/local-date';
+import { parseMoney, toMinor } from '@/lib/money';
+
+export const DATE_ORDERS: { key: StatementDateOrder; label: string }[] = [
+  { key: 'dmy', label: 'DD/MM/YYYY' },
+  { key: 'mdy', label: 'MM/DD/YYYY' },
+  { key: 'ymd', label: 'YYYY-MM-DD' },
+];
+
+/** Which columns hold what; a saved mapping without its bank name. */
+export type ColumnMapping = Omit<StatementMappingInput, 'bank_name'>;
+
+export interface StatementTable {
+  headers: string[];
+  /** `number` is the row's line in the file, for pointing at it in errors. */
+  rows: { number: number; cells: string[] }[];
+}
+
+/** A withdrawal read from a statement row. */
+export interface StatementRow {
+  number: number;
+  /** YYYY-MM-DD. */
+  date: string | null;
+  name: string;
+  /** Positive, in the statement's currency. */
+  amount: number | null;
+  /** Why the row can't be imported; null when it can. */
+  error: string | null;
+}
+
+// Some banks export with semicolons or tabs; whichever shows up most in the first lines wins
+const detectDelimiter = (text: string) => {
+  const sample = text.split(/\r?\n/).slice(0, 10).join('\n');
+  return [',', ';', '\t']
+    .map((delimiter) => ({ delimiter, count: sample.split(delimiter).length }))
+    .sort((a, b) => b.count - a.count)[0].delimiter;
+};
+
+/** Splits delimited text into trimmed cells; quoted cells may hold delimiters, doubled quotes and line breaks. */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(input);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char !== '"') cell += char;
+      else if (input[i + 1] === '"') cell += input[++i];
+      else quoted = false;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) rows.push([...row, cell.trim()]);
+  return rows;
+}
+
+const filledCells = (cells: string[]) => cells.filter(Boolean).length;
+
+/**
+ * The statement's header and data rows. Statements often open with account details, so the header is
+ * taken to be the first row (nearly) as wide as the table. Null when there's no table to read.
+ */
+export function readStatement(text: string): StatementTable | null {
+  const rows = parseCsv(text);
+  const widest = Math.max(0, ...rows.map(filledCells));
+  if (widest < 2) return null;
+
+  const headerIndex = rows.findIndex((cells) => filledCells(cells) >= Math.max(widest - 1, 2));
+  return {
+    headers: rows[headerIndex].map((header, index) => header || `Column ${index + 1}`),
+    rows: rows
+      .map((cells, index) => ({ number: index + 1, cells }))
+      .slice(headerIndex + 1)
+      .filter(({ cells }) => filledCells(cells) > 0),
+  };
+}
+
+/** A first guess at the mapping from common header names, for statements from a new bank. */
+export function guessMapping(headers: string[]): ColumnMapping {
+  const find = (pattern: RegExp) => headers.find((header) => pattern.test(header)) ?? null;
+  const debitColumn = find(/withdrawal|debit|\bdr\b|paid out|money out/i);
+  return {
+    date_column: find(/date/i) ?? headers[0],
+    date_order: 'dmy',
+    description_column: find(/narration|description|details|particulars|remarks|merchant|payee/i) ?? headers[1],
+    amount_column: debitColumn ? null : find(/amount|amt/i),
+    debit_column: debitColumn,
+    expenses_negative: true,
+  };
+}
+
+/** Mapped columns the statement doesn't have, say after the bank changed its export. */
+export function missingColumns(table: StatementTable, mapping: ColumnMapping): string[] {
+  return [mapping.date_column, mapping.description_column, mapping.debit_column ?? mapping.amount_column]
+    .filter((column): column is string => column !== null)
+    .filter((column) => !table.headers.includes(column));
+}
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Reads a statement date as YYYY-MM-DD: numeric ("05/10/2026", "2026-10-05", "05.10.26") or with a
+ * month name ("05-Oct-2026", "Oct 5, 2026"). Anything after the date, such as a time, is ignored.
+ */
+export function parseStatementDate(value: string, order: StatementDateOrder): string | null {
+  const match = /^([0-9A-Za-z]+)[\s/.-]+([0-9A-Za-z]+)[\s/.,-]+(\d{1,4})/.exec(value.trim());
+  if (!match) return null;
+
+  const positions = { dmy: [0, 1, 2], mdy: [1, 0, 2], ymd: [2, 1, 0] }[order];
+  const [day, month, year] = positions.map((position) => match[position + 1]);
+  // A month name is where the order puts the month, or swapped with the day ("Oct 5" under DD/MM)
+  const monthName = [month, day].find((part) => /^[a-z]{3}/i.test(part));
+  const monthNumber = monthName ? MONTH_NAMES.indexOf(monthName.slice(0, 3).toLowerCase()) + 1 : Number(month);
+  const dayNumber = monthName === day ? Number(month) : Number(day);
+  if (!monthNumber || !/^(\d{2}|\d{4})$/.test(year)) return null;
+  const fullYear = year.length === 2 ? 2000 + Number(year) : Number(year);
+  return normalizeLocalDate(`${fullYear}-${monthNumber}-${dayNumber}`);
+}
+
+// What can come around the digits: symbols, spaces and words such as "Rs." or "INR", whose dot isn't a decimal point
+const CURRENCY_PREFIX = /^(?:[a-z]+\.?|[^\d.+-])+/i;
+const CURRENCY_SUFFIX = /(?:[a-z]+\.?|[^\d.])+$/i;
+
+/**
+ * Reads a statement amount, negative for money going out where the statement marks it: a minus sign,
+ * parentheses or a "Dr" suffix. Currency symbols, codes and thousands separators are ignored. Null if unreadable.
+ */
+export function parseStatementAmount(value: string): number | null {
+  let text = value.trim();
+  if (!text) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (/dr\.?$/i.test(text)) negative = !negative;
+  text = text
+    .replace(/(dr|cr)\.?$/i, '')
+    .replace(CURRENCY_PREFIX, '')
+    .replace(CURRENCY_SUFFIX, '');
+  if (/^[+-]/.test(text)) {
+    if (text.startsWith('-')) negative = !negative;
+    text = text.slice(1).replace(CURRENCY_PREFIX, '');
+  }
+
+  const amount = parseMoney(text, { allowZero: true });
+  if (amount === null) return null;
+  return negative ? -amount : amount;
+}
+
+/** The withdrawals in a statement, read with `mapping`. Deposits are left out; unreadable rows carry an error. */
+export function applyMapping(table: StatementTable, mapping: ColumnMapping): StatementRow[] {
+  const indexOf = (column: string | null) => (column === null ? -1 : table.headers.indexOf(column));
+  const dateIndex = indexOf(mapping.date_column);
+  const nameIndex = indexOf(mapping.description_column);
+  const amountIndex = indexOf(mapping.debit_column ?? mapping.amount_column);
+
+  return table.rows.flatMap(({ number, cells }): StatementRow[] => {
+    const rawAmount = cells[amountIndex] ?? '';
+    // A withdrawal column is blank on deposit rows
+    if (mapping.debit_column && !rawAmount) return [];
+
+    const signed = parseStatementAmount(rawAmount);
+    let amount: number | null = null;
+    if (signed !== null) {
+      const outgoing = mapping.debit_column || (mapping.expenses_negative ? signed < 0 : signed > 0);
+      if (!outgoing || signed === 0) return [];
+      amount = Math.abs(signed);
+    }
+
+    const rawDate = cells[dateIndex] ?? '';
+    const date = parseStatementDate(rawDate, mapping.date_order);
+    const name = (cells[nameIndex] ?? '').replace(/\s+/g, ' ');
+    const error =
+      amount === null
+        ? `Unrecognized amount "${rawAmount}"`
+        : date === null
+          ? `Unrecognized date "${rawDate}"`
+          : !name
+            ? 'No description'
+            : null;
+    return [{ number, date, name, amount, error }];
+  });
+}
+
+const duplicateKey = (date: string, amount: number, currency: string) => `${date}|${toMinor(amount)}|${currency}`;
+
+/**
+ * Numbers of the rows that match an expense already recorded on the same day, for the same amount and
+ * currency. Each recorded expense matches one row, so two identical coffees on the statement against
+ * one recorded only flag the first.
+ */
+export function findDuplicates(rows: StatementRow[], existing: Expense[], currency: string): Set<number> {
+  const unmatched = new Map<string, number>();
+  existing.forEach((expense) => {
+    const key = duplicateKey(expense.date, Number(expense.amount), expense.currency);
+    unmatched.set(key, (unmatched.get(key) ?? 0) + 1);
+  });
+
+  const duplicates = new Set<number>();
+  rows.forEach((row) => {
+    if (row.error || row.date === null || row.amount === null) return;
+    const key = duplicateKey(row.date, row.amount, currency);
+    const count = unmatched.get(key) ?? 0;
+    if (count > 0) {
+      duplicates.add(row.number);
+      unmatched.set(key, count - 1);
+    }
+  });
+  return duplicates;
+}
@@ -1,12 +1,7 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import type { PrayerReminder } from '@/lib/data/types';
 
-export interface PrayerReminder {
-  id: string;
-  prayer_name: string;
-  time: string;
-  enabled: boolean;
-  ringtone_uri: string | null;
-}
+export type { PrayerReminder };
 
 interface PrayerState {
   prayers: PrayerReminder[];
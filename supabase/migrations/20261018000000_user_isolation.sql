@@ -0,0 +1,106 @@
+-- Scope every finance, work and prayer table to the auth user that owns it.
+--
+-- Existing rows predate accounts and have no owner. They are assigned to the
+-- earliest registered user (the original single user of the app). To hand them
+-- to someone else, set `app.legacy_owner` to that user's id before running the
+-- migration, e.g. `set app.legacy_owner = '<auth user id>';`. If there are
+-- unowned rows and no user to give them to, the migration stops rather than
+-- dropping them: sign up through Supabase Auth first, then run it again.
+
+alter table public.balance add column if not exists user_id uuid references auth.users (id) on delete cascade;
+alter table public.savings add column if not exists user_id uuid references auth.users (id) on delete cascade;
+alter table public.expenses add column if not exists user_id uuid references auth.users (id) on delete cascade;
+alter table public.work_tracker add column if not exists user_id uuid references auth.users (id) on delete cascade;
+alter table public.prayer_reminders add column if not exists user_id uuid references auth.users (id) on delete cascade;
+
+do $$
+declare
+  legacy_owner uuid := coalesce(
+    nullif(current_setting('app.legacy_owner', true), '')::uuid,
+    (select id from auth.users order by created_at limit 1)
+  );
+begin
+  if legacy_owner is null then
+    if exists (select 1 from public.balance where user_id is null)
+      or exists (select 1 from public.savings where user_id is null)
+      or exists (select 1 from public.expenses where user_id is null)
+      or exists (select 1 from public.work_tracker where user_id is null)
+      or exists (select 1 from public.prayer_reminders where user_id is null)
+    then
+      raise exception 'Existing rows have no owner and there is no Supabase Auth user to assign them to'
+        using hint = 'Sign up in the app (or set app.legacy_owner to an auth user id), then run this migration again.';
+    end if;
+  else
+    update public.balance set user_id = legacy_owner where user_id is null;
+    update public.savings set user_id = legacy_owner where user_id is null;
+    update public.expenses set user_id = legacy_owner where user_id is null;
+    update public.work_tracker set user_id = legacy_owner where user_id is null;
+    update public.prayer_reminders set user_id = legacy_owner where user_id is null;
+  end if;
+end $$;
+
+-- New rows default to the caller, so writes queued before this change still land with an owner.
+alter table public.balance alter column user_id set default auth.uid(), alter column user_id set not null;
+alter table public.savings alter column user_id set default auth.uid(), alter column user_id set not null;
+alter table public.expenses alter column user_id set default auth.uid(), alter column user_id set not null;
+alter table public.work_tracker alter column user_id set default auth.uid(), alter column user_id set not null;
+alter table public.prayer_reminders alter column user_id set default auth.uid(), alter column user_id set not null;
+
+-- Uniqueness is per user: one balance row, and one savings entry per month.
+-- Legacy installs could hold more than one balance row; stop instead of picking one to drop.
+do $$
+begin
+  if exists (select 1 from public.balance group by user_id having count(*) > 1) then
+    raise exception 'More than one balance row belongs to the same owner'
+      using hint = 'Keep the correct row in public.balance, delete the others, then run this migration again.';
+  end if;
+end $$;
+alter table public.balance add constraint balance_user_id_key unique (user_id);
+
+alter table public.savings drop constraint if exists savings_month_year_key;
+alter table public.savings add constraint savings_user_id_month_year_key unique (user_id, month, year);
+
+create index if not exists expenses_user_id_date_idx on public.expenses (user_id, date desc);
+create index if not exists work_tracker_user_id_year_month_idx on public.work_tracker (user_id, year, month);
+create index if not exists prayer_reminders_user_id_idx on public.prayer_reminders (user_id);
+
+-- Row-level security: users can only see and change their own rows.
+alter table public.balance enable row level security;
+alter table public.savings enable row level security;
+alter table public.expenses enable row level security;
+alter table public.work_tracker enable row level security;
+alter table public.prayer_reminders enable row level security;
+
+create policy "Users manage their own balance" on public.balance
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+create policy "Users manage their own savings" on public.savings
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+create policy "Users manage their own expenses" on public.expenses
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+create policy "Users manage their own work entries" on public.work_tracker
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+create policy "Users manage their own prayer reminders" on public.prayer_reminders
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- Give every new account its own set of prayer reminders to edit.
+create or replace function public.seed_prayer_reminders()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  insert into public.prayer_reminders (user_id, prayer_name, time, enabled)
+  values
+    (new.id, 'Fajr', '05:00', true),
+    (new.id, 'Dhuhr', '12:30', true),
+    (new.id, 'Asr', '15:45', true),
+    (new.id, 'Maghrib', '18:15', true),
+    (new.id, 'Isha', '19:45', true);
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created_seed_prayers on auth.users;
+create trigger on_auth_user_created_seed_prayers
+  after insert on auth.users
+  for each row execute function public.seed_prayer_reminders();
@@ -0,0 +1,27 @@
+-- Model the balance as a ledger of credits and debits instead of one overwritten number.
+
+create table if not exists public.balance_transactions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  kind text not null check (kind in ('credit', 'debit')),
+  amount numeric(12, 2) not null check (amount > 0),
+  note text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists balance_transactions_user_id_created_at_idx
+  on public.balance_transactions (user_id, created_at desc);
+
+alter table public.balance_transactions enable row level security;
+
+create policy "Users manage their own balance transactions" on public.balance_transactions
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- Carry each user's current balance over as an opening entry.
+insert into public.balance_transactions (user_id, kind, amount, note)
+select user_id, case when amount >= 0 then 'credit' else 'debit' end, abs(amount), 'Opening balance'
+from public.balance
+where amount <> 0;
+
+-- The single-row table is kept for rollback but no longer read or written by the app.
+comment on table public.balance is 'Deprecated: superseded by balance_transactions';
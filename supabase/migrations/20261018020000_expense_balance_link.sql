@@ -0,0 +1,6 @@
+-- Link an expense to the balance debit it created, so deleting it can reverse the debit.
+-- Undoing the debit from the ledger clears the link; the app reports such expenses as drift.
+
+alter table public.expenses
+  add column if not exists balance_transaction_id uuid
+  references public.balance_transactions (id) on delete set null;
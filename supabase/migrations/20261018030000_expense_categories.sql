@@ -0,0 +1,22 @@
+-- User-defined expense categories, plus a category and free-form tags on each expense.
+
+create table if not exists public.expense_categories (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null,
+  icon text not null,
+  color text not null,
+  created_at timestamptz not null default now(),
+  unique (user_id, name)
+);
+
+alter table public.expense_categories enable row level security;
+
+create policy "Users manage their own expense categories" on public.expense_categories
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+alter table public.expenses
+  add column if not exists category_id uuid references public.expense_categories (id) on delete set null,
+  add column if not exists tags text[] not null default '{}';
+
+create index if not exists expenses_user_id_category_id_idx on public.expenses (user_id, category_id);
@@ -0,0 +1,16 @@
+-- Monthly budgets: one overall (null category) and at most one per category for each user.
+
+create table if not exists public.budgets (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  category_id uuid references public.expense_categories (id) on delete cascade,
+  amount numeric(12, 2) not null check (amount > 0),
+  created_at timestamptz not null default now(),
+  -- NULLS NOT DISTINCT keeps a single overall budget per user
+  constraint budgets_user_id_category_id_key unique nulls not distinct (user_id, category_id)
+);
+
+alter table public.budgets enable row level security;
+
+create policy "Users manage their own budgets" on public.budgets
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
@@ -0,0 +1,30 @@
+-- Recurring monthly expenses: templates that generate a regular expense each cycle.
+
+create table if not exists public.recurring_expenses (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null,
+  amount numeric(12, 2) not null check (amount > 0),
+  category_id uuid references public.expense_categories (id) on delete set null,
+  tags text[] not null default '{}',
+  day_of_month smallint not null check (day_of_month between 1 and 31),
+  start_date date not null,
+  end_date date check (end_date is null or end_date >= start_date),
+  paused boolean not null default false,
+  debit_balance boolean not null default true,
+  -- Last cycle date already turned into an expense; later cycles are still due
+  generated_through date,
+  created_at timestamptz not null default now()
+);
+
+alter table public.recurring_expenses enable row level security;
+
+create policy "Users manage their own recurring expenses" on public.recurring_expenses
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+alter table public.expenses
+  add column if not exists recurring_expense_id uuid references public.recurring_expenses (id) on delete set null;
+
+-- Two devices catching up at once must not both create the same cycle
+alter table public.expenses
+  add constraint expenses_recurring_expense_id_date_key unique (recurring_expense_id, date);
@@ -0,0 +1,31 @@
+-- Savings goals: named targets with a deadline, funded by splitting monthly savings entries.
+
+create table if not exists public.savings_goals (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null,
+  target_amount numeric(12, 2) not null check (target_amount > 0),
+  deadline date not null,
+  created_at timestamptz not null default now()
+);
+
+alter table public.savings_goals enable row level security;
+
+create policy "Users manage their own savings goals" on public.savings_goals
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create table if not exists public.savings_allocations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  savings_id uuid not null references public.savings (id) on delete cascade,
+  goal_id uuid not null references public.savings_goals (id) on delete cascade,
+  amount numeric(12, 2) not null check (amount > 0),
+  created_at timestamptz not null default now(),
+  -- A month's entry is split across goals at most once each
+  unique (savings_id, goal_id)
+);
+
+alter table public.savings_allocations enable row level security;
+
+create policy "Users manage their own savings allocations" on public.savings_allocations
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
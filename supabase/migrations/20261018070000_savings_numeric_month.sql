@@ -0,0 +1,18 @@
+-- Savings months were stored as English names, which sort alphabetically (September before March).
+-- Store them as 1-12 like work_tracker.month; the app formats names in the device's locale.
+
+alter table public.savings drop constraint if exists savings_user_id_month_year_key;
+
+alter table public.savings
+  alter column month type smallint using array_position(
+    array['january', 'february', 'march', 'april', 'may', 'june',
+          'july', 'august', 'september', 'october', 'november', 'december'],
+    lower(trim(month))
+  );
+
+alter table public.savings alter column month set not null;
+
+alter table public.savings
+  add constraint savings_month_check check (month between 1 and 12);
+
+alter table public.savings add constraint savings_user_id_month_year_key unique (user_id, month, year);
@@ -0,0 +1,53 @@
+-- Named accounts (cash, bank, UPI wallet...) with their own ledgers instead of one global balance.
+
+create table if not exists public.accounts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null,
+  icon text not null,
+  color text not null,
+  created_at timestamptz not null default now(),
+  -- Also what the app upserts its default account on
+  unique (user_id, name)
+);
+
+alter table public.accounts enable row level security;
+
+create policy "Users manage their own accounts" on public.accounts
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- Existing money moves into a default "Cash" account per user.
+insert into public.accounts (user_id, name, icon, color)
+select distinct user_id, 'Cash', 'banknote.fill', '#4ADE80'
+from (
+  select user_id from public.balance_transactions
+  union
+  select user_id from public.expenses
+) as owners
+on conflict (user_id, name) do nothing;
+
+-- Accounts with history can't be deleted; the app only removes unused ones.
+alter table public.balance_transactions
+  add column if not exists account_id uuid references public.accounts (id) on delete restrict;
+
+update public.balance_transactions as transactions
+set account_id = accounts.id
+from public.accounts
+where accounts.user_id = transactions.user_id and accounts.name = 'Cash' and transactions.account_id is null;
+
+alter table public.balance_transactions alter column account_id set not null;
+
+-- Both legs of a transfer share one transfer id, generated by the client that records it
+alter table public.balance_transactions add column if not exists transfer_id uuid;
+
+create index if not exists balance_transactions_transfer_id_idx
+  on public.balance_transactions (transfer_id) where transfer_id is not null;
+
+alter table public.expenses
+  add column if not exists account_id uuid references public.accounts (id) on delete set null;
+
+-- Debited expenses were paid from whichever account their debit landed in.
+update public.expenses as expenses
+set account_id = transactions.account_id
+from public.balance_transactions as transactions
+where transactions.id = expenses.balance_transaction_id and expenses.account_id is null;
@@ -0,0 +1,32 @@
+-- Amounts carry their own currency; totals are converted to the user's base currency with rates they enter.
+-- Everything recorded so far was in rupees.
+
+alter table public.accounts
+  add column if not exists currency text not null default 'INR' check (currency ~ '^[A-Z]{3}$');
+
+alter table public.expenses
+  add column if not exists currency text not null default 'INR' check (currency ~ '^[A-Z]{3}$');
+
+alter table public.savings
+  add column if not exists currency text not null default 'INR' check (currency ~ '^[A-Z]{3}$');
+
+alter table public.recurring_expenses
+  add column if not exists currency text not null default 'INR' check (currency ~ '^[A-Z]{3}$');
+
+create table if not exists public.exchange_rates (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  from_currency text not null check (from_currency ~ '^[A-Z]{3}$'),
+  to_currency text not null check (to_currency ~ '^[A-Z]{3}$'),
+  rate numeric(18, 6) not null check (rate > 0),
+  effective_date date not null,
+  created_at timestamptz not null default now(),
+  check (from_currency <> to_currency),
+  -- What the app upserts on: re-entering a rate for the same day replaces it
+  unique (user_id, from_currency, to_currency, effective_date)
+);
+
+alter table public.exchange_rates enable row level security;
+
+create policy "Users manage their own exchange rates" on public.exchange_rates
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
@@ -0,0 +1,24 @@
+-- How to read one bank's CSV statement: which columns hold the date, description and amount.
+-- Columns are stored by their header text, so the mapping carries over to the next statement.
+
+create table if not exists public.statement_mappings (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  bank_name text not null,
+  date_column text not null,
+  date_order text not null default 'dmy' check (date_order in ('dmy', 'mdy', 'ymd')),
+  description_column text not null,
+  -- Either a signed amount column, or a column holding only withdrawals
+  amount_column text,
+  debit_column text,
+  expenses_negative boolean not null default true,
+  created_at timestamptz not null default now(),
+  check (amount_column is not null or debit_column is not null),
+  -- What the app upserts on: saving a bank's mapping again replaces it
+  unique (user_id, bank_name)
+);
+
+alter table public.statement_mappings enable row level security;
+
+create policy "Users manage their own statement mappings" on public.statement_mappings
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
@@ -0,0 +1,18 @@
+-- Record what each balance transaction came from, so income can leave out adjustments, reversed
+-- expenses and transfers without matching on the note text.
+
+alter table public.balance_transactions
+  add column if not exists source text not null default 'manual'
+  check (source in ('manual', 'opening', 'adjustment', 'expense', 'reversal', 'transfer'));
+
+-- Existing rows are classified by the links and notes the app wrote them with.
+update public.balance_transactions t
+set source = case
+  when t.transfer_id is not null then 'transfer'
+  when exists (select 1 from public.expenses e where e.balance_transaction_id = t.id) then 'expense'
+  when t.note = 'Opening balance' then 'opening'
+  when t.note = 'Balance adjustment' then 'adjustment'
+  when t.note like 'Reversed expense: %' then 'reversal'
+  when t.note like 'Expense: %' then 'expense'
+  else 'manual'
+end;